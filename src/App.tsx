@@ -1,6 +1,15 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect } from 'react';
 import { BatchProcessor, ProcessedFile } from '@/components/BatchProcessor';
 import { BackgroundOverlay, OverlayFile } from '@/components/BackgroundOverlay';
+import { createPreview } from '@/utils/backgroundRemoval';
+import {
+  clearSession,
+  estimateStorage,
+  onSessionSaved,
+  useSessionCollection,
+  useSessionSlice,
+  type StorageUsage,
+} from '@/utils/sessionStore';
 
 type Tab = 'remove' | 'overlay';
 
@@ -9,12 +18,92 @@ interface ProcessedIcon {
   preview: string;
 }
 
+// Превью - data URL, их дешевле построить заново, чем хранить рядом с blob
+type StoredProcessedFile = Omit<ProcessedFile, 'preview' | 'result' | 'originalPreview'>;
+type StoredOverlayFile = Omit<OverlayFile, 'preview' | 'processedPreview'>;
+
+// Прерванная обработка после перезагрузки начинается заново
+function storeRemoveFile({ preview: _preview, result: _result, originalPreview: _originalPreview, ...file }: ProcessedFile): StoredProcessedFile {
+  return { ...file, status: file.status === 'processing' ? 'pending' : file.status };
+}
+
+function storeOverlayFile({ preview: _preview, processedPreview: _processedPreview, ...file }: OverlayFile): StoredOverlayFile {
+  return { ...file, status: file.status === 'processing' ? 'pending' : file.status };
+}
+
+// Файлы, добавленные до окончания восстановления, не теряются и побеждают одноимённые сохранённые
+function mergeRestored<T extends { original: File }>(restored: T[], current: T[]): T[] {
+  const currentNames = new Set(current.map(f => f.original.name));
+  return [...restored.filter(f => !currentNames.has(f.original.name)), ...current];
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} КБ`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} МБ`;
+  return `${(bytes / 1024 / 1024 / 1024).toFixed(1)} ГБ`;
+}
+
 export function App() {
   const [activeTab, setActiveTab] = useState<Tab>('remove');
   
   const [removeFiles, setRemoveFiles] = useState<ProcessedFile[]>([]);
   const [overlayFiles, setOverlayFiles] = useState<OverlayFile[]>([]);
   const [sentToOverlay, setSentToOverlay] = useState(false);
+  const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null);
+
+  // Каждый файл - отдельная запись: смена статуса одного файла не переписывает весь список
+  const removeRestored = useSessionCollection(
+    'removeFiles',
+    removeFiles,
+    file => file.original.name,
+    storeRemoveFile,
+    async (stored: StoredProcessedFile[]) => {
+      const restored = await Promise.all(stored.map(async file => {
+        const preview = file.processed ? await createPreview(file.processed) : undefined;
+        return { ...file, originalPreview: await createPreview(file.original), preview, result: preview };
+      }));
+      setRemoveFiles(prev => mergeRestored(restored, prev));
+    }
+  );
+  const overlayRestored = useSessionCollection(
+    'overlayFiles',
+    overlayFiles,
+    file => file.id,
+    storeOverlayFile,
+    async (stored: StoredOverlayFile[]) => {
+      const restored = await Promise.all(stored.map(async file => ({
+        ...file,
+        preview: await createPreview(file.original),
+        processedPreview: file.processed ? await createPreview(file.processed) : undefined,
+      })));
+      setOverlayFiles(prev => mergeRestored(restored, prev));
+    }
+  );
+  const sentRestored = useSessionSlice(
+    'sentToOverlay',
+    { sentToOverlay },
+    snapshot => snapshot,
+    (stored: { sentToOverlay: boolean }) => setSentToOverlay(stored.sentToOverlay)
+  );
+  const sessionRestored = removeRestored && overlayRestored && sentRestored;
+
+  useEffect(() => {
+    const refresh = () => {
+      estimateStorage().then(setStorageUsage).catch(() => setStorageUsage(null));
+    };
+    refresh();
+    return onSessionSaved(refresh);
+  }, []);
+
+  const resetSession = async () => {
+    if (!confirm('Удалить все файлы, эталоны, результаты и настройки этой сессии?')) return;
+    try {
+      await clearSession();
+    } catch (error) {
+      console.error('Не удалось очистить сессию:', error);
+    }
+    window.location.reload();
+  };
 
   const handleSendToOverlay = useCallback((icons: ProcessedIcon[]) => {
     const newFiles: OverlayFile[] = icons.map(icon => ({
@@ -89,6 +178,22 @@ export function App() {
                 </span>
               )}
             </button>
+
+            <div className="ml-auto self-center flex items-center gap-3 text-xs text-gray-500">
+              {!sessionRestored && <span>Восстановление сессии...</span>}
+              {storageUsage && (
+                <span title="Сессия хранится в браузере (IndexedDB) и переживает перезагрузку страницы">
+                  Сессия: {formatBytes(storageUsage.usage)}
+                  {storageUsage.quota > 0 && ` из ${formatBytes(storageUsage.quota)}`}
+                </span>
+              )}
+              <button
+                onClick={resetSession}
+                className="px-2 py-1 bg-gray-800 hover:bg-gray-700 rounded text-gray-400"
+              >
+                Очистить сессию
+              </button>
+            </div>
           </div>
         </div>
       </div>
@@ -0,0 +1,343 @@
+/**
+ * batch-icons - пакетное удаление подложки и наложение иконок на новый фон из командной строки.
+ * Работает на том же ядре, что и веб-интерфейс (src/core), читает и пишет PNG.
+ *
+ * Коды выхода: 0 - все файлы обработаны, 1 - часть файлов с ошибками, 2 - ошибка в аргументах
+ */
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { glob } from 'tinyglobby';
+import { BACKGROUND_MODELS, type BackgroundModelType } from '@/core/backgroundModel';
+import { COLOR_METRICS, type ColorMetric } from '@/core/colorDistance';
+import type { ComponentCleanupOptions } from '@/core/components';
+import { DEFRINGE_METHODS, type DefringeMethod, type DefringeOptions } from '@/core/defringe';
+import { extractMatte, type RgbaImage } from '@/core/image';
+import { overlayIcon, type SizeMode } from '@/core/overlay';
+import { parsePipeline } from '@/core/pipeline';
+import { processImage, type ProcessingOptions } from '@/core/process';
+import type { TrimOptions } from '@/core/trim';
+import { outputNames } from '@/node/outputPaths';
+import { decodePng, encodePng, readPng } from '@/node/png';
+
+const EXIT_OK = 0;
+const EXIT_FILE_ERRORS = 1;
+const EXIT_USAGE = 2;
+
+const SIZE_MODES: SizeMode[] = ['icon-to-bg', 'bg-to-icon', 'custom'];
+const OUTPUT_KINDS = ['cutout', 'matte', 'both'] as const;
+type OutputKind = (typeof OUTPUT_KINDS)[number];
+
+const USAGE = `Использование:
+  batch-icons remove <файлы или glob...> --out <папка> [--reference <png>]... [опции]
+  batch-icons overlay <файлы или glob...> --out <папка> --background <png> [опции]
+
+Общие опции:
+  -o, --out <папка>            Куда сохранять результаты (обязательно); подпапки
+                               входов относительно их общей папки сохраняются
+  -h, --help                   Показать эту справку
+
+remove - удаление подложки (вход и выход - PNG):
+  -r, --reference <png>        Эталонная подложка, можно указать несколько раз
+  -c, --color <#rrggbb>        Цвет подложки, если эталона нет (иначе определяется автоматически)
+  -t, --threshold <1-100>      Порог удаления (по умолчанию 30)
+      --metric <id>            Метрика цвета: ${COLOR_METRICS.map(m => m.id).join(', ')}
+      --transition-width <n>   Ширина переходной зоны, доля порога (по умолчанию 0.5)
+      --background-model <id>  Модель фона без эталона: ${BACKGROUND_MODELS.map(m => m.id).join(', ')}
+      --no-smooth              Не сглаживать края
+      --light-edges            Удалять светлые полупрозрачные края
+      --erode <px>             Эрозия краёв на заданное число пикселей
+      --edge-cleanup           Агрессивная очистка краёв
+      --liquid-glass           Удалять светлую обводку liquid glass
+      --glass-width <px>       Ширина обводки liquid glass (по умолчанию 2)
+      --glass-brightness <n>   Яркость обводки liquid glass, 0-255 (по умолчанию 200)
+      --supersample <2-8>      Supersampling краёв с заданным масштабом
+      --no-align               Не совмещать эталон с иконкой
+      --matting                Альфа-матирование по эталону
+      --connected              Удалять только фон, связанный с краем изображения
+      --min-island <px>        Удалять отдельные области меньше заданной площади
+      --keep-largest <n>       Оставлять только n самых крупных областей
+      --fill-holes <px>        Заполнять замкнутые дырки не больше заданной площади
+      --defringe <метод>       Перекрасить кайму цвета подложки: ${DEFRINGE_METHODS.map(m => m.id).join(', ')}
+      --defringe-strength <%>  Сила перекраски каймы, 0-100 (по умолчанию 100)
+      --defringe-width <px>    Ширина каймы, 1-10 (по умолчанию 2)
+      --trim                   Обрезать прозрачные поля по рамке иконки
+      --trim-padding <n|n%>    Отступ при обрезке в px или % от рамки (по умолчанию 0)
+      --trim-cutoff <0-254>    Альфа, не выше которой пиксель считается пустым (по умолчанию 0)
+      --trim-square            Дополнять обрезанный результат до квадрата
+      --pipeline <json>        Порядок постобработки из файла (заменяет опции краёв и обрезки)
+      --kind <cutout|matte|both>  Что сохранять (по умолчанию cutout)
+
+overlay - наложение иконок без фона на подложку:
+  -b, --background <png>       Новая подложка (обязательно)
+      --size-mode <режим>      ${SIZE_MODES.join(', ')} (по умолчанию custom)
+      --size <px>              Сторона результата для custom (по умолчанию 235)
+      --scale <%>              Размер иконки в процентах от результата (по умолчанию 100)
+`;
+
+class UsageError extends Error {}
+
+async function main(argv: string[]): Promise<number> {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        out: { type: 'string', short: 'o' },
+        help: { type: 'boolean', short: 'h' },
+        reference: { type: 'string', short: 'r', multiple: true },
+        color: { type: 'string', short: 'c' },
+        threshold: { type: 'string', short: 't' },
+        metric: { type: 'string' },
+        'transition-width': { type: 'string' },
+        'background-model': { type: 'string' },
+        'no-smooth': { type: 'boolean' },
+        'light-edges': { type: 'boolean' },
+        erode: { type: 'string' },
+        'edge-cleanup': { type: 'boolean' },
+        'liquid-glass': { type: 'boolean' },
+        'glass-width': { type: 'string' },
+        'glass-brightness': { type: 'string' },
+        supersample: { type: 'string' },
+        'no-align': { type: 'boolean' },
+        matting: { type: 'boolean' },
+        connected: { type: 'boolean' },
+        'min-island': { type: 'string' },
+        'keep-largest': { type: 'string' },
+        'fill-holes': { type: 'string' },
+        defringe: { type: 'string' },
+        'defringe-strength': { type: 'string' },
+        'defringe-width': { type: 'string' },
+        trim: { type: 'boolean' },
+        'trim-padding': { type: 'string' },
+        'trim-cutoff': { type: 'string' },
+        'trim-square': { type: 'boolean' },
+        pipeline: { type: 'string' },
+        kind: { type: 'string' },
+        background: { type: 'string', short: 'b' },
+        'size-mode': { type: 'string' },
+        size: { type: 'string' },
+        scale: { type: 'string' },
+      },
+    });
+  } catch (error) {
+    throw new UsageError(error instanceof Error ? error.message : String(error));
+  }
+
+  const { values, positionals } = parsed;
+  const [command, ...patterns] = positionals;
+
+  if (values.help || !command) {
+    process.stdout.write(USAGE);
+    return values.help ? EXIT_OK : EXIT_USAGE;
+  }
+  if (command !== 'remove' && command !== 'overlay') {
+    throw new UsageError(`Неизвестная команда: ${command}`);
+  }
+  if (!values.out) throw new UsageError('Не указана папка для результатов (--out)');
+  if (patterns.length === 0) throw new UsageError('Не указаны входные файлы');
+
+  const inputs = await glob(patterns, { onlyFiles: true });
+  inputs.sort();
+  if (inputs.length === 0) throw new UsageError(`Нет файлов по шаблонам: ${patterns.join(' ')}`);
+
+  const names = outputNames(inputs);
+  let handleFile: (input: string) => Promise<string[]>;
+
+  if (command === 'remove') {
+    const kind = parseChoice(values.kind ?? 'cutout', OUTPUT_KINDS, '--kind');
+    const options = await removalOptions(values);
+    const references = await Promise.all((values.reference ?? []).map(file => readInput(file, '--reference')));
+    const cutoutDir = kind === 'both' ? path.join(values.out, 'cutout') : values.out;
+    const matteDir = kind === 'both' ? path.join(values.out, 'matte') : values.out;
+    await mkdir(cutoutDir, { recursive: true });
+    await mkdir(matteDir, { recursive: true });
+
+    handleFile = async (input) => {
+      const { image, crop } = processImage(decodePng(await readFile(input)), references, options);
+      const outputs = await writeOutputs(kind, names.get(input)!, image, cutoutDir, matteDir);
+      // Смещение обрезки нужно, чтобы вернуть иконку на место исходного скриншота
+      if (crop) outputs.push(`обрезка ${crop.width}x${crop.height} со смещением ${crop.x},${crop.y}`);
+      return outputs;
+    };
+  } else {
+    if (!values.background) throw new UsageError('Не указана подложка (--background)');
+    const background = await readInput(values.background, '--background');
+    const overlayOptions = {
+      sizeMode: parseChoice(values['size-mode'] ?? 'custom', SIZE_MODES, '--size-mode'),
+      customSize: parseNumber(values.size ?? '235', '--size', 1, 8192),
+      iconScale: parseNumber(values.scale ?? '100', '--scale', 1, 1000) / 100,
+    };
+    await mkdir(values.out, { recursive: true });
+
+    handleFile = async (input) => {
+      const output = path.join(values.out!, `${names.get(input)!}.png`);
+      await writeNew(output, encodePng(overlayIcon(decodePng(await readFile(input)), background, overlayOptions)));
+      return [output];
+    };
+  }
+
+  let failures = 0;
+  for (const input of inputs) {
+    try {
+      const outputs = await handleFile(input);
+      process.stdout.write(`✓ ${input} → ${outputs.join(', ')}\n`);
+    } catch (error) {
+      failures++;
+      process.stderr.write(`✗ ${input}: ${error instanceof Error ? error.message : String(error)}\n`);
+    }
+  }
+
+  process.stdout.write(`Готово: ${inputs.length - failures} из ${inputs.length}\n`);
+  return failures > 0 ? EXIT_FILE_ERRORS : EXIT_OK;
+}
+
+async function removalOptions(values: Record<string, string | boolean | string[] | undefined>): Promise<ProcessingOptions> {
+  const str = (key: string) => values[key] as string | undefined;
+  const flag = (key: string) => values[key] === true;
+
+  const options: ProcessingOptions = {
+    threshold: parseNumber(str('threshold') ?? '30', '--threshold', 1, 100),
+    targetBackgroundColor: str('color'),
+    transitionWidth: str('transition-width') !== undefined
+      ? parseNumber(str('transition-width')!, '--transition-width', 0.01, 4)
+      : undefined,
+    colorMetric: str('metric') !== undefined
+      ? parseChoice(str('metric')!, COLOR_METRICS.map(m => m.id), '--metric') as ColorMetric
+      : undefined,
+    backgroundModel: str('background-model') !== undefined
+      ? parseChoice(str('background-model')!, BACKGROUND_MODELS.map(m => m.id), '--background-model') as BackgroundModelType
+      : undefined,
+    edgeSmoothing: !flag('no-smooth'),
+    removeLightEdges: flag('light-edges'),
+    erodePixels: str('erode') !== undefined ? parseNumber(str('erode')!, '--erode', 0, 10) : 0,
+    edgeCleanup: flag('edge-cleanup'),
+    removeLiquidGlass: flag('liquid-glass'),
+    glassOutlineWidth: parseNumber(str('glass-width') ?? '2', '--glass-width', 1, 5),
+    glassBrightness: parseNumber(str('glass-brightness') ?? '200', '--glass-brightness', 0, 255),
+    useSupersampling: str('supersample') !== undefined,
+    supersampleScale: str('supersample') !== undefined ? parseNumber(str('supersample')!, '--supersample', 2, 8) : undefined,
+    alignReference: !flag('no-align'),
+    alphaMatting: flag('matting'),
+    removalScope: flag('connected') ? 'connected' : 'global',
+    componentCleanup: componentCleanupOptions(str('min-island'), str('keep-largest'), str('fill-holes')),
+    defringe: str('defringe') !== undefined
+      ? defringeOptions(str('defringe')!, str('defringe-strength') ?? '100', str('defringe-width') ?? '2')
+      : undefined,
+    trim: flag('trim') ? trimOptions(str('trim-padding') ?? '0', str('trim-cutoff') ?? '0', flag('trim-square')) : undefined,
+  };
+
+  const pipelineFile = str('pipeline');
+  if (pipelineFile) {
+    try {
+      options.pipeline = parsePipeline(await readFile(pipelineFile, 'utf-8'));
+    } catch (error) {
+      throw new UsageError(`${pipelineFile}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  return options;
+}
+
+// Очистка по областям включается, если задан хотя бы один из её параметров
+function componentCleanupOptions(
+  minIsland: string | undefined,
+  keepLargest: string | undefined,
+  maxHole: string | undefined
+): ComponentCleanupOptions | undefined {
+  if (minIsland === undefined && keepLargest === undefined && maxHole === undefined) return undefined;
+  return {
+    minIsland: parseNumber(minIsland ?? '0', '--min-island', 0, 100000),
+    keepLargest: parseNumber(keepLargest ?? '0', '--keep-largest', 0, 100),
+    maxHole: parseNumber(maxHole ?? '0', '--fill-holes', 0, 100000),
+  };
+}
+
+function defringeOptions(method: string, strength: string, rimWidth: string): DefringeOptions {
+  return {
+    method: parseChoice(method, DEFRINGE_METHODS.map(m => m.id), '--defringe') as DefringeMethod,
+    strength: parseNumber(strength, '--defringe-strength', 0, 100) / 100,
+    rimWidth: Math.round(parseNumber(rimWidth, '--defringe-width', 1, 10)),
+  };
+}
+
+function trimOptions(padding: string, cutoff: string, square: boolean): TrimOptions {
+  const percent = padding.endsWith('%');
+  return {
+    padding: parseNumber(percent ? padding.slice(0, -1) : padding, '--trim-padding', 0, percent ? 100 : 512),
+    paddingUnit: percent ? '%' : 'px',
+    alphaCutoff: parseNumber(cutoff, '--trim-cutoff', 0, 254),
+    square,
+  };
+}
+
+async function writeOutputs(
+  kind: OutputKind,
+  name: string,
+  image: RgbaImage,
+  cutoutDir: string,
+  matteDir: string
+): Promise<string[]> {
+  const written: string[] = [];
+  if (kind !== 'matte') {
+    const output = path.join(cutoutDir, `${name}_no_bg.png`);
+    await writeNew(output, encodePng(image));
+    written.push(output);
+  }
+  if (kind !== 'cutout') {
+    const output = path.join(matteDir, `${name}_matte.png`);
+    await writeNew(output, encodePng(extractMatte(image)));
+    written.push(output);
+  }
+  return written;
+}
+
+// Эталон и подложка нужны всем файлам, поэтому их ошибка - ошибка аргументов
+async function readInput(file: string, option: string): Promise<RgbaImage> {
+  try {
+    return await readPng(file);
+  } catch (error) {
+    throw new UsageError(`${option} ${file}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+// Создаёт подпапки результата; файл, записанный этим же запуском, не перезаписывается
+const writtenOutputs = new Set<string>();
+async function writeNew(output: string, data: Buffer): Promise<void> {
+  const resolved = path.resolve(output);
+  if (writtenOutputs.has(resolved)) throw new Error(`${output} уже записан из другого входа`);
+  writtenOutputs.add(resolved);
+  await mkdir(path.dirname(output), { recursive: true });
+  await writeFile(output, data);
+}
+
+function parseNumber(value: string, option: string, min: number, max: number): number {
+  const number = Number(value);
+  if (!Number.isFinite(number) || number < min || number > max) {
+    throw new UsageError(`${option}: ожидается число от ${min} до ${max}, получено «${value}»`);
+  }
+  return number;
+}
+
+function parseChoice<T extends string>(value: string, choices: readonly T[], option: string): T {
+  if (!(choices as readonly string[]).includes(value)) {
+    throw new UsageError(`${option}: ожидается одно из ${choices.join(', ')}, получено «${value}»`);
+  }
+  return value as T;
+}
+
+main(process.argv.slice(2)).then(
+  code => {
+    process.exitCode = code;
+  },
+  error => {
+    if (error instanceof UsageError) {
+      process.stderr.write(`batch-icons: ${error.message}\n\n${USAGE}`);
+      process.exitCode = EXIT_USAGE;
+    } else {
+      process.stderr.write(`batch-icons: ${error instanceof Error ? error.stack ?? error.message : String(error)}\n`);
+      process.exitCode = EXIT_FILE_ERRORS;
+    }
+  }
+);
@@ -1,6 +1,11 @@
 import { useState, useRef, useCallback } from 'react';
 import JSZip from 'jszip';
+import type { SizeMode } from '@/core/overlay';
+import { createJobQueue, type JobQueue, type JobQueueStats } from '@/utils/jobQueue';
+import { overlayIconOnBackground } from '@/utils/overlay';
+import { useSessionSlice } from '@/utils/sessionStore';
 import { Upload, Download, ImageIcon, Settings, Play, Trash2 } from './Icons';
+import { JobQueueControls } from './JobQueueControls';
 
 export interface OverlayFile {
   id: string;
@@ -19,8 +24,6 @@ interface BackgroundOverlayProps {
   onRequestIcons: () => void;
 }
 
-type SizeMode = 'icon-to-bg' | 'bg-to-icon' | 'custom';
-
 export function BackgroundOverlay({ 
   files, 
   setFiles, 
@@ -32,7 +35,9 @@ export function BackgroundOverlay({
   const [bgPreview, setBgPreview] = useState<string>('');
   const [bgSize, setBgSize] = useState<{ width: number; height: number } | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
-  const [currentIndex, setCurrentIndex] = useState(0);
+  const [queueStats, setQueueStats] = useState<JobQueueStats | null>(null);
+  const [concurrency, setConcurrency] = useState(2);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
   const [modalFile, setModalFile] = useState<OverlayFile | null>(null);
 
   // Настройки размера
@@ -46,6 +51,22 @@ export function BackgroundOverlay({
 
   const iconInputRef = useRef<HTMLInputElement>(null);
   const bgInputRef = useRef<HTMLInputElement>(null);
+  const queueRef = useRef<JobQueue<OverlayFile> | null>(null);
+  // Иконки, которые уже стоят в очереди или обрабатываются, - чтобы не поставить дважды
+  const queuedIdsRef = useRef<Set<string>>(new Set());
+
+  // Фон и настройки размера переживают перезагрузку страницы; иконки хранит App
+  useSessionSlice(
+    'overlay',
+    { background, sizeMode, customSize, iconScale },
+    snapshot => snapshot,
+    async (stored: { background: File | null; sizeMode: SizeMode; customSize: number; iconScale: number }) => {
+      setSizeMode(stored.sizeMode);
+      setCustomSize(stored.customSize);
+      setIconScale(stored.iconScale);
+      if (stored.background) await loadBackground(stored.background);
+    }
+  );
 
   // Добавить иконки вручную
   const addIconsManually = useCallback(async (newFiles: File[]) => {
@@ -82,78 +103,104 @@ export function BackgroundOverlay({
     img.src = preview;
   };
 
-  // Обработка одной иконки
-  const processIcon = async (icon: OverlayFile) => {
-    if (!background) return;
+  // Обработка одной иконки. Возвращает false при ошибке; прерванная иконка возвращается в ожидание
+  const processIcon = async (icon: OverlayFile, signal?: AbortSignal): Promise<boolean> => {
+    if (!background) return false;
+
+    const patchIcon = (patch: Partial<OverlayFile>) => {
+      setFiles(prev => prev.map(f => (f.id === icon.id ? { ...f, ...patch } : f)));
+    };
 
     try {
-      setFiles(prev => {
-        const updated = [...prev];
-        const idx = updated.findIndex(f => f.id === icon.id);
-        if (idx !== -1) updated[idx] = { ...updated[idx], status: 'processing' };
-        return updated;
-      });
+      patchIcon({ status: 'processing' });
 
+      // Отмена прерывает наложение между декодированием, рисованием и кодированием
       const result = await overlayIconOnBackground(icon.original, background, {
         sizeMode,
         customSize,
         iconScale: iconScale / 100,
-      });
+      }, signal);
 
       const preview = await createPreview(result);
+      if (signal?.aborted) {
+        patchIcon({ status: 'pending' });
+        return true;
+      }
 
-      setFiles(prev => {
-        const updated = [...prev];
-        const idx = updated.findIndex(f => f.id === icon.id);
-        if (idx !== -1) {
-          updated[idx] = {
-            ...updated[idx],
-            processed: result,
-            processedPreview: preview,
-            status: 'done',
-          };
-        }
-        return updated;
-      });
-    } catch (error) {
-      setFiles(prev => {
-        const updated = [...prev];
-        const idx = updated.findIndex(f => f.id === icon.id);
-        if (idx !== -1) updated[idx] = { ...updated[idx], status: 'error' };
-        return updated;
-      });
+      patchIcon({ processed: result, processedPreview: preview, status: 'done' });
+      return true;
+    } catch {
+      patchIcon({ status: signal?.aborted ? 'pending' : 'error' });
+      return Boolean(signal?.aborted);
     }
   };
 
-  // Запуск обработки
-  const startProcessing = async () => {
-    if (!background || files.length === 0) return;
+  // Запуск обработки: без аргумента - все ожидающие и упавшие иконки
+  const startProcessing = async (only?: OverlayFile[]) => {
+    const items = (only ?? files.filter(f => f.status === 'pending' || f.status === 'error'))
+      .slice()
+      .sort((a, b) => a.original.name.localeCompare(b.original.name));
+    if (!background || items.length === 0) return;
 
     setIsProcessing(true);
-    setCurrentIndex(0);
 
+    const queue = createJobQueue<OverlayFile>({
+      concurrency,
+      run: async (icon, signal) => {
+        try {
+          if (!(await processIcon(icon, signal))) throw new Error(`${icon.original.name}: ошибка наложения`);
+        } finally {
+          queuedIdsRef.current.delete(icon.id);
+        }
+      },
+      onChange: setQueueStats,
+    });
+    queueRef.current = queue;
+    items.forEach(icon => queuedIdsRef.current.add(icon.id));
+    queue.enqueue(items);
+
+    // Иконки и готовые результаты сохраняются в сессии - спрашиваем, только пока идёт наложение
     const preventClose = (e: BeforeUnloadEvent) => {
+      if (queue.stats().active === 0) return;
       e.preventDefault();
       e.returnValue = '';
     };
     window.addEventListener('beforeunload', preventClose);
 
     try {
-      const sorted = [...files].sort((a, b) => a.original.name.localeCompare(b.original.name));
-
-      for (let i = 0; i < sorted.length; i++) {
-        if (sorted[i].status === 'pending' || sorted[i].status === 'error') {
-          setCurrentIndex(i + 1);
-          await processIcon(sorted[i]);
-          await new Promise(r => setTimeout(r, 30));
-        }
-      }
+      await queue.finished;
     } finally {
+      queueRef.current = null;
+      queuedIdsRef.current.clear();
       window.removeEventListener('beforeunload', preventClose);
       setIsProcessing(false);
     }
   };
 
+  // Выбранные иконки накладываются заново: в идущую очередь или отдельным запуском
+  const requeueSelected = () => {
+    const items = files.filter(f => selectedIds.has(f.id) && !queuedIdsRef.current.has(f.id));
+    if (items.length === 0) return;
+
+    const ids = new Set(items.map(f => f.id));
+    setFiles(prev => prev.map(f => (ids.has(f.id) ? { ...f, status: 'pending' } : f)));
+
+    if (queueRef.current) {
+      ids.forEach(id => queuedIdsRef.current.add(id));
+      if (queueRef.current.enqueue(items)) return;
+    }
+    startProcessing(items);
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
   // Скачать ZIP
   const downloadZip = async () => {
     const zip = new JSZip();
@@ -190,6 +237,7 @@ export function BackgroundOverlay({
 
   const processedCount = files.filter(i => i.status === 'done').length;
   const pendingCount = files.filter(i => i.status === 'pending').length;
+  const selectedCount = files.filter(i => selectedIds.has(i.id)).length;
 
   const getOutputSize = (): string => {
     if (sizeMode === 'custom') return `${customSize}×${customSize}`;
@@ -386,12 +434,12 @@ export function BackgroundOverlay({
         {files.length > 0 && (
           <div className="mt-4 flex flex-wrap gap-3">
             <button
-              onClick={startProcessing}
+              onClick={() => startProcessing()}
               disabled={isProcessing || !background || pendingCount === 0}
               className="flex-1 min-w-[200px] px-5 py-2.5 bg-blue-600 hover:bg-blue-500 disabled:opacity-50 disabled:cursor-not-allowed rounded transition flex items-center justify-center gap-2 font-medium text-sm"
             >
               <Play size={16} />
-              {isProcessing ? `${currentIndex}/${files.length}` : `Наложить (${pendingCount})`}
+              {isProcessing && queueStats ? `${queueStats.completed}/${queueStats.total}` : `Наложить (${pendingCount})`}
             </button>
 
             <button
@@ -432,12 +480,54 @@ export function BackgroundOverlay({
         )}
       </div>
 
+      {files.length > 0 && (
+        <JobQueueControls
+          stats={isProcessing ? queueStats : null}
+          concurrency={concurrency}
+          maxConcurrency={8}
+          concurrencyHint="Сколько иконок накладывается одновременно. Наложение идёт в основном потоке, поэтому больше 2-4 обычно не ускоряет."
+          onConcurrencyChange={(count) => {
+            setConcurrency(count);
+            queueRef.current?.setConcurrency(count);
+          }}
+          onPause={() => queueRef.current?.pause()}
+          onResume={() => queueRef.current?.resume()}
+          onCancel={() => queueRef.current?.cancel()}
+        />
+      )}
+
       {/* Список иконок */}
       {files.length > 0 && (
         <div className="bg-gray-900 border border-gray-800 rounded-lg p-6">
           <div className="flex items-center gap-2 mb-4">
             <ImageIcon size={18} className="text-gray-500" />
             <h2 className="text-lg font-semibold text-white">Иконки ({files.length})</h2>
+            <div className="ml-auto flex gap-2 text-xs">
+              <button
+                onClick={() => setSelectedIds(new Set(files.map(f => f.id)))}
+                className="px-2 py-1 bg-gray-800 hover:bg-gray-700 rounded text-gray-400"
+              >
+                Выбрать все
+              </button>
+              {selectedCount > 0 && (
+                <button
+                  onClick={requeueSelected}
+                  disabled={!background}
+                  className="px-2 py-1 bg-blue-600 hover:bg-blue-500 disabled:opacity-50 rounded text-white"
+                  title="Наложить выбранные иконки заново с текущими настройками"
+                >
+                  В очередь ({selectedCount})
+                </button>
+              )}
+              {selectedCount > 0 && (
+                <button
+                  onClick={() => setSelectedIds(new Set())}
+                  className="px-2 py-1 bg-gray-800 hover:bg-gray-700 rounded text-gray-400"
+                >
+                  Снять выбор
+                </button>
+              )}
+            </div>
           </div>
 
           <div className="grid grid-cols-4 md:grid-cols-6 lg:grid-cols-8 xl:grid-cols-10 gap-2 max-h-[500px] overflow-y-auto">
@@ -461,6 +551,13 @@ export function BackgroundOverlay({
                     alt={icon.original.name}
                     className="w-full h-full object-contain rounded bg-gray-900"
                   />
+                  <input
+                    type="checkbox"
+                    checked={selectedIds.has(icon.id)}
+                    onClick={(e) => e.stopPropagation()}
+                    onChange={() => toggleSelected(icon.id)}
+                    className="absolute top-0 left-0 w-3 h-3 accent-blue-600"
+                  />
                   {icon.processed && (
                     <button
                       onClick={(e) => {
@@ -575,68 +672,3 @@ function blobToDataURL(blob: Blob): Promise<string> {
     reader.readAsDataURL(blob);
   });
 }
-
-interface OverlayOptions {
-  sizeMode: SizeMode;
-  customSize: number;
-  iconScale: number;
-}
-
-async function overlayIconOnBackground(
-  iconFile: File,
-  bgFile: File,
-  options: OverlayOptions
-): Promise<Blob> {
-  const { sizeMode, customSize, iconScale } = options;
-
-  const [iconImg, bgImg] = await Promise.all([
-    loadImage(iconFile),
-    loadImage(bgFile),
-  ]);
-
-  let outputSize: number;
-  if (sizeMode === 'icon-to-bg') {
-    outputSize = Math.max(bgImg.width, bgImg.height);
-  } else if (sizeMode === 'bg-to-icon') {
-    outputSize = Math.max(iconImg.width, iconImg.height);
-  } else {
-    outputSize = customSize;
-  }
-
-  const canvas = document.createElement('canvas');
-  canvas.width = outputSize;
-  canvas.height = outputSize;
-  const ctx = canvas.getContext('2d')!;
-
-  ctx.drawImage(bgImg, 0, 0, outputSize, outputSize);
-
-  const iconTargetSize = outputSize * iconScale;
-  const iconRatio = iconImg.width / iconImg.height;
-
-  let iconW: number, iconH: number;
-  if (iconRatio > 1) {
-    iconW = iconTargetSize;
-    iconH = iconTargetSize / iconRatio;
-  } else {
-    iconH = iconTargetSize;
-    iconW = iconTargetSize * iconRatio;
-  }
-
-  const offsetX = (outputSize - iconW) / 2;
-  const offsetY = (outputSize - iconH) / 2;
-
-  ctx.drawImage(iconImg, offsetX, offsetY, iconW, iconH);
-
-  return new Promise((resolve) => {
-    canvas.toBlob((blob) => resolve(blob!), 'image/png');
-  });
-}
-
-function loadImage(file: File): Promise<HTMLImageElement> {
-  return new Promise((resolve, reject) => {
-    const img = new Image();
-    img.onload = () => resolve(img);
-    img.onerror = reject;
-    img.src = URL.createObjectURL(file);
-  });
-}
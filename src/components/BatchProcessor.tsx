@@ -1,6 +1,30 @@
 import { useState, useRef, useCallback, useMemo } from 'react';
 import JSZip from 'jszip';
-import { removeBackground, createPreview } from '@/utils/backgroundRemoval';
+import { createPreview, matteFromCutout, type ProcessingOptions } from '@/utils/backgroundRemoval';
+import { createRemovalPool, defaultWorkerCount, type RemovalPool } from '@/utils/workerPool';
+import { createJobQueue, type JobQueue, type JobQueueStats } from '@/utils/jobQueue';
+import type { ReferenceAlignment } from '@/core/alignment';
+import { COLOR_METRICS, type ColorMetric } from '@/core/colorDistance';
+import { BACKGROUND_MODELS, type BackgroundModelType } from '@/core/backgroundModel';
+import { pipelineFromOptions, type PipelineStep } from '@/core/pipeline';
+import type { GlassOutlineEstimate, ThresholdSuggestion } from '@/core/calibration';
+import { calibrateGlassOutline, calibrateThreshold } from '@/utils/calibration';
+import type { CropRect, TrimOptions } from '@/core/trim';
+import type { Trimap } from '@/core/trimap';
+import type { ComponentCleanupOptions } from '@/core/components';
+import { DEFRINGE_METHODS, type DefringeMethod, type DefringeOptions } from '@/core/defringe';
+import type { MlMaskMode } from '@/core/foregroundMask';
+import { DEFAULT_METRIC_BOUNDS, reviewReasons, type MetricBounds, type ResultMetrics } from '@/core/metrics';
+import { DEFAULT_BATCH_SETTINGS, parseSettings, type BatchSettings, type OutputKind, type UserPreset } from '@/core/presets';
+import { ML_MASK_MODES, mlAssetsUrl } from '@/utils/mlSegmentation';
+import { loadPresets, savePresets } from '@/utils/presetStore';
+import { useSessionSlice } from '@/utils/sessionStore';
+import { OverridesEditor, describeOverrides, type ProcessingOverrides } from './OverridesEditor';
+import { PipelineEditor } from './PipelineEditor';
+import { JobQueueControls } from './JobQueueControls';
+import { PixelInspector } from './PixelInspector';
+import { PresetManager } from './PresetManager';
+import { RefineEditor } from './RefineEditor';
 import { Upload, Download, ImageIcon, Settings, Play, Trash2, ArrowRight } from './Icons';
 
 export interface ProcessedFile {
@@ -11,8 +35,43 @@ export interface ProcessedFile {
   originalPreview?: string;
   status: 'pending' | 'processing' | 'done' | 'error';
   error?: string;
+  alignment?: ReferenceAlignment;
+  referenceName?: string; // Эталон, который был вычтен из этой иконки
+  seedPoints?: Array<{ x: number; y: number }>; // Точки-затравки для удаления связанного фона
+  trimap?: Trimap; // Ручные мазки «оставить/удалить» из редактора
+  matte?: Blob; // Альфа-маска в оттенках серого
+  metrics?: ResultMetrics; // Метрики качества результата
+  crop?: CropRect; // Положение обрезанного результата на исходном холсте
+  overrides?: ProcessingOverrides; // Свои настройки файла поверх общих
 }
 
+interface ReferenceBackground {
+  id: string;
+  file: File;
+  preview: string;
+}
+
+// После смены настроек готовый или упавший файл ждёт повторной обработки;
+// файл в работе дорабатывает как есть
+function staleStatus(status: ProcessedFile['status']): ProcessedFile['status'] {
+  return status === 'done' || status === 'error' ? 'pending' : status;
+}
+
+const OUTPUT_KINDS: Array<{ id: OutputKind; name: string }> = [
+  { id: 'cutout', name: 'PNG без фона' },
+  { id: 'matte', name: 'Только маска' },
+  { id: 'both', name: 'PNG и маска' },
+];
+
+// Границы метрик в интерфейсе задаются в процентах
+const METRIC_BOUND_FIELDS: Array<{ key: keyof MetricBounds; name: string; hint: string }> = [
+  { key: 'minOpaqueRatio', name: 'Иконка, мин.', hint: 'Меньше этой доли площади осталось непрозрачным - иконку, вероятно, съело' },
+  { key: 'maxOpaqueRatio', name: 'Иконка, макс.', hint: 'Больше этой доли площади осталось непрозрачным - фон почти не удалён' },
+  { key: 'maxResidual', name: 'Остатки фона', hint: 'Доля площади, где остались пиксели цвета подложки' },
+  { key: 'maxHalo', name: 'Кайма', hint: 'Доля контура иконки (с учётом прозрачности), окрашенная в цвет подложки' },
+  { key: 'maxBboxChange', name: 'Изменение рамки', hint: 'Насколько рамка результата отличается от рамки иконки на оригинале (1 - IoU)' },
+];
+
 interface BatchProcessorProps {
   files: ProcessedFile[];
   setFiles: React.Dispatch<React.SetStateAction<ProcessedFile[]>>;
@@ -21,36 +80,87 @@ interface BatchProcessorProps {
 }
 
 export function BatchProcessor({ files, setFiles, onSendToOverlay, onFilesChanged }: BatchProcessorProps) {
-  const [referenceBackground, setReferenceBackground] = useState<File | null>(null);
-  const [bgPreview, setBgPreview] = useState<string>('');
+  const [referenceBackgrounds, setReferenceBackgrounds] = useState<ReferenceBackground[]>([]);
   const [isProcessing, setIsProcessing] = useState(false);
-  const [currentIndex, setCurrentIndex] = useState(0);
+  const [queueStats, setQueueStats] = useState<JobQueueStats | null>(null);
   const [modalFile, setModalFile] = useState<ProcessedFile | null>(null);
+  const [modalImageSize, setModalImageSize] = useState<{ width: number; height: number } | null>(null);
+  const [isRefining, setIsRefining] = useState(false);
+  const [isInspecting, setIsInspecting] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
+  const [showFlaggedOnly, setShowFlaggedOnly] = useState(false);
+  const [metricBounds, setMetricBounds] = useState<MetricBounds>(DEFAULT_BATCH_SETTINGS.metricBounds);
+  const [selectedNames, setSelectedNames] = useState<Set<string>>(new Set());
+  const [bulkOverrides, setBulkOverrides] = useState<ProcessingOverrides | undefined>(undefined);
   
   const [isDraggingFiles, setIsDraggingFiles] = useState(false);
   const [isDraggingBg, setIsDraggingBg] = useState(false);
   
-  const [threshold, setThreshold] = useState(20);
-  const [edgeSmoothing, setEdgeSmoothing] = useState(false);
-  const [backgroundColor, setBackgroundColor] = useState('#1a1a1a');
-  const [useColorMode, setUseColorMode] = useState(false);
-  const [removeLightEdges, setRemoveLightEdges] = useState(false);
-  const [erodePixels, setErodePixels] = useState(0);
-  const [edgeCleanup, setEdgeCleanup] = useState(false);
-  const [useSupersampling, setUseSupersampling] = useState(false);
-  const [supersampleScale, setSupersampleScale] = useState(4);
+  const [threshold, setThreshold] = useState(DEFAULT_BATCH_SETTINGS.threshold);
+  const [transitionWidth, setTransitionWidth] = useState(DEFAULT_BATCH_SETTINGS.transitionWidth);
+  const [thresholdSuggestion, setThresholdSuggestion] = useState<ThresholdSuggestion | null>(null);
+  const [isSuggestingThreshold, setIsSuggestingThreshold] = useState(false);
+  const [edgeSmoothing, setEdgeSmoothing] = useState(DEFAULT_BATCH_SETTINGS.edgeSmoothing);
+  const [backgroundColor, setBackgroundColor] = useState(DEFAULT_BATCH_SETTINGS.backgroundColor);
+  const [useColorMode, setUseColorMode] = useState(DEFAULT_BATCH_SETTINGS.useColorMode);
+  const [mlMask, setMlMask] = useState<MlMaskMode>(DEFAULT_BATCH_SETTINGS.mlMask);
+  const [outputKind, setOutputKind] = useState<OutputKind>(DEFAULT_BATCH_SETTINGS.outputKind);
+  const [removeLightEdges, setRemoveLightEdges] = useState(DEFAULT_BATCH_SETTINGS.removeLightEdges);
+  const [erodePixels, setErodePixels] = useState(DEFAULT_BATCH_SETTINGS.erodePixels);
+  const [edgeCleanup, setEdgeCleanup] = useState(DEFAULT_BATCH_SETTINGS.edgeCleanup);
+  const [useSupersampling, setUseSupersampling] = useState(DEFAULT_BATCH_SETTINGS.useSupersampling);
+  const [supersampleScale, setSupersampleScale] = useState(DEFAULT_BATCH_SETTINGS.supersampleScale);
+  const [componentCleanupEnabled, setComponentCleanupEnabled] = useState(DEFAULT_BATCH_SETTINGS.componentCleanupEnabled);
+  const [componentCleanup, setComponentCleanup] = useState<ComponentCleanupOptions>(DEFAULT_BATCH_SETTINGS.componentCleanup);
+  const [defringeEnabled, setDefringeEnabled] = useState(DEFAULT_BATCH_SETTINGS.defringeEnabled);
+  const [defringeOptions, setDefringeOptions] = useState<DefringeOptions>(DEFAULT_BATCH_SETTINGS.defringeOptions);
+  const [trimEnabled, setTrimEnabled] = useState(DEFAULT_BATCH_SETTINGS.trimEnabled);
+  const [trimOptions, setTrimOptions] = useState<TrimOptions>(DEFAULT_BATCH_SETTINGS.trimOptions);
+  const [workerCount, setWorkerCount] = useState(defaultWorkerCount);
+  const [autoAlign, setAutoAlign] = useState(DEFAULT_BATCH_SETTINGS.autoAlign);
+  const [colorMetric, setColorMetric] = useState<ColorMetric | undefined>(DEFAULT_BATCH_SETTINGS.colorMetric);
+  const [alphaMatting, setAlphaMatting] = useState(DEFAULT_BATCH_SETTINGS.alphaMatting);
+  const [backgroundModel, setBackgroundModel] = useState<BackgroundModelType>(DEFAULT_BATCH_SETTINGS.backgroundModel);
+  const [connectedOnly, setConnectedOnly] = useState(DEFAULT_BATCH_SETTINGS.connectedOnly);
+  const [useCustomPipeline, setUseCustomPipeline] = useState(DEFAULT_BATCH_SETTINGS.useCustomPipeline);
+  const [pipeline, setPipeline] = useState<PipelineStep[]>(DEFAULT_BATCH_SETTINGS.pipeline);
+  const [removeLiquidGlass, setRemoveLiquidGlass] = useState(DEFAULT_BATCH_SETTINGS.removeLiquidGlass);
+  const [glassOutlineWidth, setGlassOutlineWidth] = useState(DEFAULT_BATCH_SETTINGS.glassOutlineWidth);
+  const [glassBrightness, setGlassBrightness] = useState(DEFAULT_BATCH_SETTINGS.glassBrightness);
+  const [userPresets, setUserPresets] = useState<UserPreset[]>(loadPresets);
+  const [glassEstimate, setGlassEstimate] = useState<GlassOutlineEstimate | null>(null);
+  const [isCalibratingGlass, setIsCalibratingGlass] = useState(false);
   
   const fileInputRef = useRef<HTMLInputElement>(null);
   const bgInputRef = useRef<HTMLInputElement>(null);
+  const queueRef = useRef<JobQueue<ProcessedFile> | null>(null);
+  const poolRef = useRef<RemovalPool | null>(null);
+  // Файлы, которые уже стоят в очереди или обрабатываются, - чтобы не поставить дважды
+  const queuedNamesRef = useRef<Set<string>>(new Set());
+  // Актуальный processFile: задание, начатое посреди запуска, берёт текущие настройки и эталоны
+  const processFileRef = useRef<(file: ProcessedFile, pool: RemovalPool, signal?: AbortSignal) => Promise<boolean>>(null!);
+
+  // Причины пометки «проверить» пересчитываются сразу при смене границ, без переобработки
+  const reviewByName = useMemo(() => {
+    const result = new Map<string, string[]>();
+    for (const file of files) {
+      if (file.status !== 'done' || !file.metrics) continue;
+      const reasons = reviewReasons(file.metrics, metricBounds);
+      if (reasons.length > 0) result.set(file.original.name, reasons);
+    }
+    return result;
+  }, [files, metricBounds]);
 
   const filteredFiles = useMemo(() => {
-    if (!searchQuery.trim()) return files;
-    const query = searchQuery.toLowerCase();
-    return files.filter(f => f.original.name.toLowerCase().includes(query));
-  }, [files, searchQuery]);
+    const query = searchQuery.trim().toLowerCase();
+    return files.filter(f =>
+      (!query || f.original.name.toLowerCase().includes(query)) &&
+      (!showFlaggedOnly || reviewByName.has(f.original.name))
+    );
+  }, [files, searchQuery, showFlaggedOnly, reviewByName]);
 
   const applyPreset = (preset: 'soft' | 'normal' | 'aggressive') => {
+    setUseCustomPipeline(false);
     if (preset === 'soft') {
       setThreshold(15);
       setEdgeSmoothing(false);
@@ -75,6 +185,107 @@ export function BatchProcessor({ files, setFiles, onSendToOverlay, onFilesChange
     }
   };
 
+  // Все настройки вкладки одним объектом - для пользовательских пресетов
+  const currentSettings = (): BatchSettings => ({
+    threshold,
+    transitionWidth,
+    colorMetric,
+    edgeSmoothing,
+    useColorMode,
+    backgroundColor,
+    backgroundModel,
+    mlMask,
+    outputKind,
+    removeLightEdges,
+    erodePixels,
+    edgeCleanup,
+    useSupersampling,
+    supersampleScale,
+    removeLiquidGlass,
+    glassOutlineWidth,
+    glassBrightness,
+    autoAlign,
+    alphaMatting,
+    connectedOnly,
+    componentCleanupEnabled,
+    componentCleanup,
+    defringeEnabled,
+    defringeOptions,
+    trimEnabled,
+    trimOptions,
+    useCustomPipeline,
+    pipeline,
+    metricBounds,
+  });
+
+  const applySettings = (settings: BatchSettings) => {
+    setThreshold(settings.threshold);
+    setTransitionWidth(settings.transitionWidth);
+    setColorMetric(settings.colorMetric);
+    setEdgeSmoothing(settings.edgeSmoothing);
+    setUseColorMode(settings.useColorMode);
+    setBackgroundColor(settings.backgroundColor);
+    setBackgroundModel(settings.backgroundModel);
+    setMlMask(settings.mlMask);
+    setOutputKind(settings.outputKind);
+    setRemoveLightEdges(settings.removeLightEdges);
+    setErodePixels(settings.erodePixels);
+    setEdgeCleanup(settings.edgeCleanup);
+    setUseSupersampling(settings.useSupersampling);
+    setSupersampleScale(settings.supersampleScale);
+    setRemoveLiquidGlass(settings.removeLiquidGlass);
+    setGlassOutlineWidth(settings.glassOutlineWidth);
+    setGlassBrightness(settings.glassBrightness);
+    setAutoAlign(settings.autoAlign);
+    setAlphaMatting(settings.alphaMatting);
+    setConnectedOnly(settings.connectedOnly);
+    setComponentCleanupEnabled(settings.componentCleanupEnabled);
+    setComponentCleanup(settings.componentCleanup);
+    setDefringeEnabled(settings.defringeEnabled);
+    setDefringeOptions(settings.defringeOptions);
+    setTrimEnabled(settings.trimEnabled);
+    setTrimOptions(settings.trimOptions);
+    setUseCustomPipeline(settings.useCustomPipeline);
+    setPipeline(settings.pipeline);
+    setMetricBounds(settings.metricBounds);
+  };
+
+  const updateUserPresets = (presets: UserPreset[]) => {
+    setUserPresets(presets);
+    savePresets(presets);
+  };
+
+  const saveCurrentAsPreset = (name: string) => {
+    // Одноимённый пресет перезаписывается, чтобы не плодить дубликаты
+    const existing = userPresets.find(p => p.name === name);
+    updateUserPresets(existing
+      ? userPresets.map(p => (p.id === existing.id ? { ...p, settings: currentSettings() } : p))
+      : [...userPresets, { id: crypto.randomUUID(), name, settings: currentSettings() }]);
+  };
+
+  // Эталоны и настройки переживают перезагрузку страницы; файлы хранит App
+  useSessionSlice(
+    'batch',
+    { referenceBackgrounds, ...currentSettings() },
+    ({ referenceBackgrounds: references, ...settings }) => ({
+      references: references.map(({ id, file }) => ({ id, file })),
+      settings,
+    }),
+    async (stored: { references: Array<{ id: string; file: File }>; settings: unknown }) => {
+      try {
+        // Сессия могла сохраниться прошлой версией - недостающие настройки берутся по умолчанию
+        applySettings(parseSettings(stored.settings));
+      } catch (error) {
+        console.error('Сохранённые настройки не подошли:', error);
+      }
+      const restored = await Promise.all(
+        stored.references.map(async ({ id, file }) => ({ id, file, preview: await createPreview(file) }))
+      );
+      // Эталоны, добавленные до окончания восстановления, не теряются
+      setReferenceBackgrounds(prev => [...restored, ...prev]);
+    }
+  );
+
   const addFiles = useCallback(async (newFiles: File[]) => {
     const filesToAdd: ProcessedFile[] = [];
     
@@ -138,17 +349,52 @@ export function BatchProcessor({ files, setFiles, onSendToOverlay, onFilesChange
   };
 
   const handleBackgroundSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      await setBackground(file);
-    }
+    const selected = Array.from(e.target.files || []);
+    e.target.value = '';
+    await addBackgrounds(selected);
   };
 
-  const setBackground = async (file: File) => {
-    setReferenceBackground(file);
-    const preview = await createPreview(file);
-    setBgPreview(preview);
+  const addBackgrounds = async (newFiles: File[]) => {
+    const toAdd: ReferenceBackground[] = [];
+
+    for (const file of newFiles) {
+      if (!file.type.startsWith('image/')) continue;
+      const preview = await createPreview(file);
+      toAdd.push({ id: crypto.randomUUID(), file, preview });
+    }
+
+    if (toAdd.length === 0) return;
+
+    const isFirst = referenceBackgrounds.length === 0;
+
+    setReferenceBackgrounds(prev => {
+      const existingNames = new Set(prev.map(r => r.file.name));
+      return [...prev, ...toAdd.filter(r => !existingNames.has(r.file.name))];
+    });
     setUseColorMode(false);
+
+    // Параметры обводки liquid glass берём с ободка первого эталона
+    if (isFirst) {
+      await detectGlassOutline(toAdd[0].file);
+    }
+  };
+
+  const detectGlassOutline = async (reference: File) => {
+    setIsCalibratingGlass(true);
+    try {
+      const estimate = await calibrateGlassOutline(reference);
+      setGlassEstimate(estimate);
+      setGlassOutlineWidth(estimate.outlineWidth);
+      setGlassBrightness(estimate.brightness);
+    } catch (error) {
+      console.error('Ошибка анализа обводки:', error);
+    } finally {
+      setIsCalibratingGlass(false);
+    }
+  };
+
+  const removeBackgroundRef = (id: string) => {
+    setReferenceBackgrounds(prev => prev.filter(r => r.id !== id));
   };
 
   const handleBgDragOver = (e: React.DragEvent) => {
@@ -168,92 +414,256 @@ export function BatchProcessor({ files, setFiles, onSendToOverlay, onFilesChange
     e.stopPropagation();
     setIsDraggingBg(false);
     
-    const file = e.dataTransfer.files[0];
-    if (file && file.type.startsWith('image/')) {
-      await setBackground(file);
-    }
+    await addBackgrounds(Array.from(e.dataTransfer.files));
+  };
+
+  // Общие настройки пакета; у отдельных файлов поверх них могут быть свои (overrides)
+  const globalOptions: ProcessingOptions = {
+    threshold,
+    edgeSmoothing,
+    targetBackgroundColor: useColorMode ? backgroundColor : undefined,
+    removeLightEdges,
+    erodePixels,
+    edgeCleanup,
+    useSupersampling,
+    supersampleScale,
+    removeLiquidGlass,
+    glassOutlineWidth,
+    glassBrightness,
+    trim: trimEnabled ? trimOptions : undefined,
+    componentCleanup: componentCleanupEnabled ? componentCleanup : undefined,
+    defringe: defringeEnabled ? defringeOptions : undefined,
+    alignReference: autoAlign,
+    colorMetric,
+    transitionWidth,
+    alphaMatting,
+    backgroundModel,
+    removalScope: connectedOnly ? 'connected' : 'global',
+    mlMask,
+    mlAssetsUrl: mlMask !== 'off' ? mlAssetsUrl() : undefined,
+    includeMatte: outputKind !== 'cutout',
+    pipeline: useCustomPipeline ? pipeline : undefined,
   };
 
-  const processFile = async (file: ProcessedFile, index: number): Promise<void> => {
+  // Возвращает false при ошибке обработки; прерванный файл возвращается в ожидание
+  const processFile = async (file: ProcessedFile, pool: RemovalPool, signal?: AbortSignal): Promise<boolean> => {
+    const name = file.original.name;
+    const patchFile = (patch: Partial<ProcessedFile>) => {
+      setFiles(prev => prev.map(f => (f.original.name === name ? { ...f, ...patch } : f)));
+    };
+
     try {
-      setFiles(prev => {
-        const updated = [...prev];
-        updated[index] = { ...updated[index], status: 'processing' };
-        return updated;
-      });
+      patchFile({ status: 'processing' });
 
-      const processed = await removeBackground(
-        file.original,
-        useColorMode ? undefined : referenceBackground || undefined,
-        {
-          threshold,
-          edgeSmoothing,
-          targetBackgroundColor: useColorMode ? backgroundColor : undefined,
-          removeLightEdges,
-          erodePixels,
-          edgeCleanup,
-          useSupersampling,
-          supersampleScale,
-        }
-      );
+      const references = useColorMode || mlMask === 'only' ? [] : referenceBackgrounds.map(r => r.file);
+
+      const { blob: processed, alignment, referenceIndex, matte, metrics, crop } = await pool.run({
+        image: file.original,
+        references,
+        options: {
+          ...globalOptions,
+          ...file.overrides,
+          seedPoints: file.seedPoints,
+          trimap: file.trimap,
+        },
+      }, signal);
 
       const preview = await createPreview(processed);
+      if (signal?.aborted) {
+        patchFile({ status: 'pending' });
+        return true;
+      }
 
-      setFiles(prev => {
-        const updated = [...prev];
-        updated[index] = {
-          ...updated[index],
-          processed,
-          preview,
-          result: preview,
-          status: 'done',
-        };
-        return updated;
+      patchFile({
+        processed,
+        preview,
+        result: preview,
+        status: 'done',
+        matte,
+        metrics,
+        crop,
+        alignment,
+        referenceName: referenceIndex !== undefined ? references[referenceIndex].name : undefined,
       });
+      return true;
     } catch (error) {
-      setFiles(prev => {
-        const updated = [...prev];
-        updated[index] = {
-          ...updated[index],
-          status: 'error',
-          error: error instanceof Error ? error.message : 'Unknown error',
-        };
-        return updated;
+      if (signal?.aborted) {
+        patchFile({ status: 'pending' });
+        return true;
+      }
+      patchFile({
+        status: 'error',
+        error: error instanceof Error ? error.message : 'Unknown error',
       });
+      return false;
     }
   };
 
-  const startBatchProcessing = async () => {
+  processFileRef.current = processFile;
+
+  const toggleCustomPipeline = (enabled: boolean) => {
+    if (enabled) {
+      // Начинаем с того, что сейчас задано флагами
+      setPipeline(pipelineFromOptions(globalOptions));
+    }
+    setUseCustomPipeline(enabled);
+  };
+
+  const suggestThresholdAuto = async () => {
+    if (referenceBackgrounds.length === 0 || files.length === 0) return;
+
+    setIsSuggestingThreshold(true);
+    try {
+      // Равномерная выборка иконок по всему списку
+      const sampleSize = Math.min(6, files.length);
+      const sample = Array.from({ length: sampleSize }, (_, i) =>
+        files[Math.floor((i * files.length) / sampleSize)].original
+      );
+
+      // Каждая иконка сравнивается с тем эталоном, который выберет обработка
+      const suggestion = await calibrateThreshold(
+        referenceBackgrounds.map(r => r.file),
+        sample,
+        colorMetric,
+        { search: autoAlign }
+      );
+      setThresholdSuggestion(suggestion);
+      setThreshold(suggestion.threshold);
+      setTransitionWidth(suggestion.transitionWidth);
+    } catch (error) {
+      console.error('Ошибка подбора порога:', error);
+    } finally {
+      setIsSuggestingThreshold(false);
+    }
+  };
+
+  const updateFile = (name: string, patch: Partial<ProcessedFile>) => {
+    setFiles(prev => prev.map(f => (f.original.name === name ? { ...f, ...patch } : f)));
+    setModalFile(prev => (prev && prev.original.name === name ? { ...prev, ...patch } : prev));
+  };
+
+  const toggleSelected = (name: string) => {
+    setSelectedNames(prev => {
+      const next = new Set(prev);
+      if (next.has(name)) next.delete(name);
+      else next.add(name);
+      return next;
+    });
+  };
+
+  // Переопределения заменяются целиком; обработанные файлы ждут повторного запуска
+  const setOverrides = (names: Set<string>, overrides: ProcessingOverrides | undefined) => {
+    setFiles(prev => prev.map(f => (names.has(f.original.name) ? { ...f, overrides, status: staleStatus(f.status) } : f)));
+  };
+
+  const addSeedPoint = (file: ProcessedFile, e: React.MouseEvent<HTMLImageElement>) => {
+    const img = e.currentTarget;
+    const rect = img.getBoundingClientRect();
+    const x = Math.round(((e.clientX - rect.left) / rect.width) * img.naturalWidth);
+    const y = Math.round(((e.clientY - rect.top) / rect.height) * img.naturalHeight);
+    updateFile(file.original.name, {
+      seedPoints: [...(file.seedPoints || []), { x, y }],
+      status: 'pending',
+    });
+  };
+
+  const closeModal = () => {
+    setModalFile(null);
+    setIsRefining(false);
+    setIsInspecting(false);
+  };
+
+  // Переобрабатываем только этот файл, не дожидаясь пакетного запуска, - через общую очередь
+  const applyRefinement = (file: ProcessedFile, trimap: Trimap | undefined) => {
+    const current = files.find(f => f.original.name === file.original.name);
+    if (!current) return;
+
+    updateFile(file.original.name, { trimap, status: 'pending' });
+    setIsRefining(false);
+    enqueueFiles([{ ...current, trimap, status: 'pending' }]);
+  };
+
+  // Модалка показывает актуальное состояние файла, даже если он переобработан
+  const modalView = modalFile
+    ? files.find(f => f.original.name === modalFile.original.name) ?? modalFile
+    : null;
+
+  // Без аргумента обрабатываются все ожидающие и упавшие файлы
+  const startBatchProcessing = async (only?: ProcessedFile[]) => {
+    const items = (only ?? files.filter(f => f.status === 'pending' || f.status === 'error'))
+      .slice()
+      .sort((a, b) => a.original.name.localeCompare(b.original.name));
+    if (items.length === 0) return;
+
     setIsProcessing(true);
-    setCurrentIndex(0);
 
+    const pool = createRemovalPool(workerCount);
+    poolRef.current = pool;
+    const queue = createJobQueue<ProcessedFile>({
+      concurrency: pool.size,
+      run: async (file, signal) => {
+        try {
+          if (!(await processFileRef.current(file, pool, signal))) throw new Error(`${file.original.name}: ошибка обработки`);
+        } finally {
+          queuedNamesRef.current.delete(file.original.name);
+        }
+      },
+      onChange: setQueueStats,
+    });
+    queueRef.current = queue;
+    items.forEach(f => queuedNamesRef.current.add(f.original.name));
+    queue.enqueue(items);
+
+    // Файлы, настройки и результаты переживают перезагрузку (хранилище сессии),
+    // теряется только то, что обрабатывается прямо сейчас - только тогда и спрашиваем
     const preventClose = (e: BeforeUnloadEvent) => {
+      if (queue.stats().active === 0) return;
       e.preventDefault();
       e.returnValue = '';
       return '';
     };
-    
     window.addEventListener('beforeunload', preventClose);
 
     try {
-      const sortedFiles = [...files].sort((a, b) => 
-        a.original.name.localeCompare(b.original.name)
-      );
-
-      for (let i = 0; i < sortedFiles.length; i++) {
-        if (sortedFiles[i].status === 'pending' || sortedFiles[i].status === 'error') {
-          setCurrentIndex(i + 1);
-          const originalIndex = files.findIndex(f => f.original.name === sortedFiles[i].original.name);
-          await processFile(files[originalIndex], originalIndex);
-          await new Promise(resolve => setTimeout(resolve, 50));
-        }
-      }
+      await queue.finished;
     } finally {
+      queueRef.current = null;
+      poolRef.current = null;
+      queuedNamesRef.current.clear();
+      pool.terminate();
       window.removeEventListener('beforeunload', preventClose);
       setIsProcessing(false);
     }
   };
 
+  // Выбранные файлы обрабатываются заново: в идущую очередь или отдельным запуском
+  const requeueSelected = () => {
+    const items = files
+      .filter(f => selectedNames.has(f.original.name) && !queuedNamesRef.current.has(f.original.name))
+      .map(f => ({ ...f, status: 'pending' as const, error: undefined }));
+    if (items.length === 0) return;
+
+    const names = new Set(items.map(f => f.original.name));
+    setFiles(prev => prev.map(f => (names.has(f.original.name) ? { ...f, status: 'pending', error: undefined } : f)));
+    enqueueFiles(items);
+  };
+
+  // В идущую очередь или отдельным запуском
+  const enqueueFiles = (items: ProcessedFile[]) => {
+    if (queueRef.current) {
+      items.forEach(f => queuedNamesRef.current.add(f.original.name));
+      if (queueRef.current.enqueue(items)) return;
+    }
+    startBatchProcessing(items);
+  };
+
+  // Во время обработки число потоков меняется на ходу: и у очереди, и у пула воркеров
+  const changeWorkerCount = (count: number) => {
+    setWorkerCount(count);
+    poolRef.current?.resize(count);
+    queueRef.current?.setConcurrency(count);
+  };
+
   const blobToDataURL = (blob: Blob): Promise<string> => {
     return new Promise((resolve, reject) => {
       const reader = new FileReader();
@@ -263,15 +673,63 @@ export function BatchProcessor({ files, setFiles, onSendToOverlay, onFilesChange
     });
   };
 
+  const outputName = (file: ProcessedFile, kind: 'cutout' | 'matte'): string => {
+    const baseName = file.original.name.replace(/\.[^/.]+$/, '');
+    if (kind === 'matte') return `${baseName}_matte.png`;
+    const ext = file.original.name.split('.').pop() || 'png';
+    return `${baseName}_no_bg.${ext}`;
+  };
+
+  // Маска могла не посчитаться, если файл обработан до выбора формата
+  const getMatte = async (file: ProcessedFile): Promise<Blob> => {
+    if (file.matte) return file.matte;
+    const matte = await matteFromCutout(file.processed!);
+    updateFile(file.original.name, { matte });
+    return matte;
+  };
+
   const downloadAllAsZip = async () => {
     const zip = new JSZip();
-    
+    const manifest: Array<{
+      file: string;
+      output?: string;
+      matte?: string;
+      reference?: string;
+      alignment?: ReferenceAlignment;
+      metrics?: ResultMetrics;
+      needsReview?: string[];
+      crop?: CropRect;
+      overrides?: ProcessingOverrides;
+    }> = [];
+
+    // При выводе обоих вариантов раскладываем их по параллельным папкам
+    const cutoutDir = outputKind === 'both' ? 'cutout/' : '';
+    const matteDir = outputKind === 'both' ? 'matte/' : '';
+
     let count = 0;
     for (const file of files) {
       if (file.processed) {
-        const ext = file.original.name.split('.').pop() || 'png';
-        const baseName = file.original.name.replace(/\.[^/.]+$/, '');
-        zip.file(`${baseName}_no_bg.${ext}`, file.processed);
+        let output: string | undefined;
+        let matte: string | undefined;
+        if (outputKind !== 'matte') {
+          output = cutoutDir + outputName(file, 'cutout');
+          zip.file(output, file.processed);
+        }
+        if (outputKind !== 'cutout') {
+          matte = matteDir + outputName(file, 'matte');
+          zip.file(matte, await getMatte(file));
+        }
+        manifest.push({
+          file: file.original.name,
+          output,
+          matte,
+          reference: file.referenceName,
+          alignment: file.alignment,
+          metrics: file.metrics,
+          needsReview: reviewByName.get(file.original.name),
+          crop: file.crop,
+          overrides: file.overrides,
+        });
         count++;
       }
     }
@@ -281,6 +739,10 @@ export function BatchProcessor({ files, setFiles, onSendToOverlay, onFilesChange
       return;
     }
 
+    // Какой эталон был вычтен из каждой иконки, какие результаты стоит проверить
+    // и где обрезанная иконка стояла на исходном скриншоте
+    zip.file('manifest.json', JSON.stringify(manifest, null, 2));
+
     try {
       const blob = await zip.generateAsync({ 
         type: 'blob',
@@ -316,15 +778,19 @@ export function BatchProcessor({ files, setFiles, onSendToOverlay, onFilesChange
     if (!file.processed) return;
     
     try {
-      const dataUrl = await blobToDataURL(file.processed);
-      const a = document.createElement('a');
-      a.href = dataUrl;
-      const ext = file.original.name.split('.').pop() || 'png';
-      const baseName = file.original.name.replace(/\.[^/.]+$/, '');
-      a.download = `${baseName}_no_bg.${ext}`;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
+      const outputs: Array<{ blob: Blob; name: string }> = [];
+      if (outputKind !== 'matte') outputs.push({ blob: file.processed, name: outputName(file, 'cutout') });
+      if (outputKind !== 'cutout') outputs.push({ blob: await getMatte(file), name: outputName(file, 'matte') });
+
+      for (const output of outputs) {
+        const dataUrl = await blobToDataURL(output.blob);
+        const a = document.createElement('a');
+        a.href = dataUrl;
+        a.download = output.name;
+        document.body.appendChild(a);
+        a.click();
+        document.body.removeChild(a);
+      }
     } catch (error) {
       console.error('Ошибка при скачивании:', error);
       alert('Ошибка при скачивании файла');
@@ -333,13 +799,14 @@ export function BatchProcessor({ files, setFiles, onSendToOverlay, onFilesChange
 
   const clearAll = () => {
     setFiles([]);
-    setCurrentIndex(0);
     onFilesChanged?.();
   };
 
   const processedCount = files.filter(f => f.status === 'done').length;
   const errorCount = files.filter(f => f.status === 'error').length;
   const pendingCount = files.filter(f => f.status === 'pending').length;
+  const flaggedCount = reviewByName.size;
+  const selectedCount = files.filter(f => selectedNames.has(f.original.name)).length;
 
   return (
     <div className="space-y-6">
@@ -371,17 +838,35 @@ export function BatchProcessor({ files, setFiles, onSendToOverlay, onFilesChange
               Агрессивный
             </button>
           </div>
+
+          <details className="mt-3" open={userPresets.length > 0}>
+            <summary className="cursor-pointer text-sm text-gray-400 hover:text-gray-300">
+              Мои пресеты
+              {userPresets.length > 0 && <span className="ml-2 text-xs text-gray-500">({userPresets.length})</span>}
+              <span className="ml-2 w-4 h-4 rounded-full border border-gray-600 text-gray-500 text-xs inline-flex items-center justify-center cursor-help align-middle" title="Сохраняют все настройки обработки, включая режим по цвету, supersampling и liquid glass. Хранятся в браузере; экспорт в JSON - чтобы поделиться с командой. Эталонные подложки в пресет не входят.">i</span>
+            </summary>
+            <div className="mt-3">
+              <PresetManager
+                presets={userPresets}
+                onChange={updateUserPresets}
+                onApply={(preset) => applySettings(preset.settings)}
+                onSaveCurrent={saveCurrentAsPreset}
+                disabled={isProcessing}
+              />
+            </div>
+          </details>
         </div>
 
         <div className="grid md:grid-cols-2 gap-6">
           <div>
             <label className="block text-sm font-medium mb-2 text-gray-300 flex items-center gap-2">
-              Эталонная подложка
-              <span className="w-4 h-4 rounded-full border border-gray-600 text-gray-500 text-xs flex items-center justify-center cursor-help" title="Чистая подложка без иконки. Всё что видно на эталоне будет удалено с иконок.">i</span>
+              Эталонные подложки
+              <span className="w-4 h-4 rounded-full border border-gray-600 text-gray-500 text-xs flex items-center justify-center cursor-help" title="Чистые подложки без иконки. Для каждой иконки выбирается наиболее похожий эталон, и всё что видно на нём удаляется.">i</span>
             </label>
             <input
               type="file"
               ref={bgInputRef}
+              multiple
               accept="image/*"
               onChange={handleBackgroundSelect}
               className="hidden"
@@ -394,7 +879,7 @@ export function BatchProcessor({ files, setFiles, onSendToOverlay, onFilesChange
               className={`w-full px-4 py-3 rounded transition flex items-center justify-center gap-2 border ${
                 isDraggingBg
                   ? 'bg-blue-600/20 border-blue-500'
-                  : referenceBackground 
+                  : referenceBackgrounds.length > 0
                     ? 'bg-gray-800 hover:bg-gray-750 border-green-600' 
                     : 'bg-gray-800 hover:bg-gray-750 border-gray-700 hover:border-gray-600'
               }`}
@@ -403,23 +888,42 @@ export function BatchProcessor({ files, setFiles, onSendToOverlay, onFilesChange
               <span className="text-sm font-medium">
                 {isDraggingBg 
                   ? '📥 Отпустите' 
-                  : referenceBackground 
-                    ? 'Эталон загружен' 
+                  : referenceBackgrounds.length > 0
+                    ? `Эталонов: ${referenceBackgrounds.length} (добавить ещё)`
                     : 'Выберите или перетащите'}
               </span>
             </button>
-            {bgPreview && (
-              <div className="mt-3 flex items-center gap-3">
-                <img src={bgPreview} alt="Background" className="w-12 h-12 rounded border border-gray-700" />
-                <div className="text-xs text-gray-400">{referenceBackground?.name}</div>
+            {referenceBackgrounds.length > 0 && (
+              <div className="mt-3 flex flex-wrap gap-3">
+                {referenceBackgrounds.map(ref => (
+                  <div key={ref.id} className="flex items-center gap-2 bg-gray-800 border border-gray-700 rounded pr-2">
+                    <img src={ref.preview} alt={ref.file.name} className="w-12 h-12 rounded-l" />
+                    <div className="text-xs text-gray-400 max-w-[120px] truncate" title={ref.file.name}>{ref.file.name}</div>
+                    <button
+                      onClick={() => removeBackgroundRef(ref.id)}
+                      disabled={isProcessing}
+                      className="text-gray-500 hover:text-white disabled:opacity-50 leading-none"
+                    >
+                      ×
+                    </button>
+                  </div>
+                ))}
               </div>
             )}
           </div>
 
           <div>
             <label className="block text-sm font-medium mb-2 text-gray-300 flex items-center gap-2">
-              Порог ({threshold})
-              <span className="w-4 h-4 rounded-full border border-gray-600 text-gray-500 text-xs flex items-center justify-center cursor-help" title="Насколько похож пиксель на эталон чтобы удалиться. Больше = удаляет больше похожих.">i</span>
+              Порог ({threshold}{colorMetric ? ` ${COLOR_METRICS.find(m => m.id === colorMetric)?.unit}` : ''})
+              <span className="w-4 h-4 rounded-full border border-gray-600 text-gray-500 text-xs flex items-center justify-center cursor-help" title="Насколько похож пиксель на эталон чтобы удалиться. Больше = удаляет больше похожих. Единицы зависят от выбранной метрики цвета.">i</span>
+              <button
+                onClick={suggestThresholdAuto}
+                disabled={isSuggestingThreshold || isProcessing || referenceBackgrounds.length === 0 || files.length === 0}
+                className="ml-auto px-2 py-0.5 text-xs bg-gray-800 hover:bg-gray-700 border border-gray-700 rounded text-gray-300 disabled:opacity-50 disabled:cursor-not-allowed"
+                title="Подобрать порог и переходную зону по шуму эталона и нескольким загруженным иконкам"
+              >
+                {isSuggestingThreshold ? 'Анализ...' : 'Авто'}
+              </button>
             </label>
             <input
               type="range"
@@ -433,6 +937,35 @@ export function BatchProcessor({ files, setFiles, onSendToOverlay, onFilesChange
               <span>Мягко</span>
               <span>Агрессивно</span>
             </div>
+            {thresholdSuggestion && (
+              <div className="mt-2 flex items-center gap-2 text-xs text-gray-500">
+                <span
+                  className={`w-2 h-2 rounded-full ${
+                    thresholdSuggestion.confidence >= 0.7
+                      ? 'bg-green-500'
+                      : thresholdSuggestion.confidence >= 0.4
+                        ? 'bg-amber-500'
+                        : 'bg-red-500'
+                  }`}
+                />
+                <span>
+                  Авто: порог {thresholdSuggestion.threshold}, переход {Math.round(thresholdSuggestion.transitionWidth * 100)}%,
+                  уверенность {Math.round(thresholdSuggestion.confidence * 100)}%
+                  {thresholdSuggestion.jpegArtifacts > 0.2 && ', эталон с артефактами JPEG'}
+                </span>
+              </div>
+            )}
+            <select
+              value={colorMetric ?? ''}
+              onChange={(e) => setColorMetric((e.target.value || undefined) as ColorMetric | undefined)}
+              className="mt-3 w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded text-sm text-gray-300 focus:outline-none focus:border-blue-500"
+              title="Как измерять разницу цветов. CIE76 и CIEDE2000 учитывают восприятие и лучше сохраняют тёмные и насыщенные части иконки."
+            >
+              <option value="">Метрика цвета: стандартная</option>
+              {COLOR_METRICS.map(m => (
+                <option key={m.id} value={m.id}>Метрика цвета: {m.name}</option>
+              ))}
+            </select>
           </div>
 
           <div>
@@ -444,15 +977,43 @@ export function BatchProcessor({ files, setFiles, onSendToOverlay, onFilesChange
                 onChange={(e) => {
                   setBackgroundColor(e.target.value);
                   setUseColorMode(true);
-                  setReferenceBackground(null);
-                  setBgPreview('');
+                  setReferenceBackgrounds([]);
                 }}
                 className="w-10 h-10 rounded cursor-pointer bg-gray-800 border border-gray-700"
               />
               <div className="flex-1 px-3 py-2 bg-gray-800 border border-gray-700 rounded text-sm text-gray-400">
-                {backgroundColor}
+                {backgroundModel === 'flat' ? backgroundColor : 'по краям изображения'}
               </div>
             </div>
+            <select
+              value={backgroundModel}
+              onChange={(e) => setBackgroundModel(e.target.value as BackgroundModelType)}
+              className="mt-3 w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded text-sm text-gray-300 focus:outline-none focus:border-blue-500"
+              title="Для подложек с градиентом или виньеткой: модель фона подбирается по краям каждой иконки. Используется без эталона."
+            >
+              {BACKGROUND_MODELS.map(m => (
+                <option key={m.id} value={m.id}>Модель фона: {m.name}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium mb-2 text-gray-300">Нейросеть (офлайн)</label>
+            <select
+              value={mlMask}
+              onChange={(e) => setMlMask(e.target.value as MlMaskMode)}
+              className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded text-sm text-gray-300 focus:outline-none focus:border-blue-500"
+              title={ML_MASK_MODES.find(m => m.id === mlMask)?.description}
+            >
+              {ML_MASK_MODES.map(m => (
+                <option key={m.id} value={m.id}>{m.name}</option>
+              ))}
+            </select>
+            {mlMask !== 'off' && (
+              <div className="mt-1 text-xs text-gray-500">
+                {ML_MASK_MODES.find(m => m.id === mlMask)?.description}. Модель работает на CPU, первая иконка обрабатывается дольше.
+              </div>
+            )}
           </div>
 
           <div className="flex items-center gap-3">
@@ -542,18 +1103,394 @@ export function BatchProcessor({ files, setFiles, onSendToOverlay, onFilesChange
                 )}
               </div>
             </div>
+
+            <div>
+              <label className="block text-sm mb-1 text-gray-300 flex items-center gap-2">
+                Переходная зона ({Math.round(transitionWidth * 100)}%)
+                <span className="w-4 h-4 rounded-full border border-gray-600 text-gray-500 text-xs flex items-center justify-center cursor-help" title="Насколько выше порога пиксели удаляются частично (плавный край). В процентах от порога.">i</span>
+              </label>
+              <input
+                type="range"
+                min="10"
+                max="150"
+                step="5"
+                value={Math.round(transitionWidth * 100)}
+                onChange={(e) => setTransitionWidth(Number(e.target.value) / 100)}
+                className="w-full accent-blue-600"
+              />
+            </div>
+
+            <div className="flex items-center gap-3">
+              <input
+                type="checkbox"
+                id="autoAlign"
+                checked={autoAlign}
+                onChange={(e) => setAutoAlign(e.target.checked)}
+                className="w-4 h-4 accent-blue-600"
+              />
+              <label htmlFor="autoAlign" className="text-sm text-gray-300 flex items-center gap-2">
+                Совмещать эталон
+                <span className="w-4 h-4 rounded-full border border-gray-600 text-gray-500 text-xs flex items-center justify-center cursor-help" title="Находит сдвиг и масштаб эталона относительно каждой иконки. Нужно, если скриншоты смещены или другого размера.">i</span>
+              </label>
+            </div>
+
+            <div className="flex items-center gap-3">
+              <input
+                type="checkbox"
+                id="connectedOnly"
+                checked={connectedOnly}
+                onChange={(e) => setConnectedOnly(e.target.checked)}
+                className="w-4 h-4 accent-blue-600"
+              />
+              <label htmlFor="connectedOnly" className="text-sm text-gray-300 flex items-center gap-2">
+                Только фон от края
+                <span className="w-4 h-4 rounded-full border border-gray-600 text-gray-500 text-xs flex items-center justify-center cursor-help" title="Удаляет только области фона, связанные с краем изображения (или с точками, отмеченными в превью). Замкнутые области того же цвета внутри иконки сохраняются.">i</span>
+              </label>
+            </div>
+
+            <div className="flex items-center gap-3">
+              <input
+                type="checkbox"
+                id="alphaMatting"
+                checked={alphaMatting}
+                onChange={(e) => setAlphaMatting(e.target.checked)}
+                className="w-4 h-4 accent-blue-600"
+              />
+              <label htmlFor="alphaMatting" className="text-sm text-gray-300 flex items-center gap-2">
+                Альфа-матирование
+                <span className="w-4 h-4 rounded-full border border-gray-600 text-gray-500 text-xs flex items-center justify-center cursor-help" title="Восстанавливает настоящий цвет и прозрачность краёв по известному эталону. Убирает серые/белые ореолы без эрозии. Только для режима с эталоном.">i</span>
+              </label>
+            </div>
+
+          </div>
+
+          <div className="mt-6 pt-4 border-t border-gray-800">
+            <div className="flex items-center gap-3 mb-3">
+              <input
+                type="checkbox"
+                id="useCustomPipeline"
+                checked={useCustomPipeline}
+                onChange={(e) => toggleCustomPipeline(e.target.checked)}
+                disabled={isProcessing}
+                className="w-4 h-4 accent-blue-600"
+              />
+              <label htmlFor="useCustomPipeline" className="text-sm text-gray-300 flex items-center gap-2">
+                Свой конвейер постобработки
+                <span className="w-4 h-4 rounded-full border border-gray-600 text-gray-500 text-xs flex items-center justify-center cursor-help" title="Порядок шагов после удаления фона. Шаги можно переставлять и повторять, конвейер можно сохранить в JSON и передать коллегам. Пока включён, флаги сглаживания, эрозии, очистки, островов, каймы, supersampling и обрезки не действуют.">i</span>
+              </label>
+            </div>
+            {useCustomPipeline && (
+              <PipelineEditor steps={pipeline} onChange={setPipeline} disabled={isProcessing} />
+            )}
           </div>
         </details>
-      </div>
 
-      {isProcessing && (
-        <div className="bg-amber-500/10 border border-amber-500/50 rounded p-4 flex items-center gap-3">
-          <div className="text-amber-500 font-semibold text-sm">Обработка...</div>
-          <div className="flex-1 text-sm text-gray-400">
-            Осталось: {files.length - currentIndex} из {files.length}
+        <details className="mt-6 pt-6 border-t border-gray-800">
+          <summary className="cursor-pointer text-sm font-medium text-gray-400 hover:text-gray-300">
+            Острова и дыры
+            {componentCleanupEnabled && <span className="ml-2 text-xs text-gray-500">(включено)</span>}
+          </summary>
+          <div className="mt-4 grid md:grid-cols-4 gap-4">
+            <div className="flex items-center gap-3">
+              <input
+                type="checkbox"
+                id="componentCleanupEnabled"
+                checked={componentCleanupEnabled}
+                onChange={(e) => setComponentCleanupEnabled(e.target.checked)}
+                className="w-4 h-4 accent-blue-600"
+              />
+              <label htmlFor="componentCleanupEnabled" className="text-sm text-gray-300 flex items-center gap-2">
+                Чистить по областям
+                <span className="w-4 h-4 rounded-full border border-gray-600 text-gray-500 text-xs flex items-center justify-center cursor-help" title="Разбивает маску на связные области: убирает отдельные точки, оставшиеся на месте фона, и заполняет мелкие дырки внутри иконки цветом оригинала.">i</span>
+              </label>
+            </div>
+
+            {([
+              { key: 'minIsland', label: 'Мин. остров, px', hint: 'Области меньше этой площади удаляются. 0 - не удалять' },
+              { key: 'keepLargest', label: 'Оставить крупных', hint: 'Оставить только столько самых больших областей. 0 - все' },
+              { key: 'maxHole', label: 'Дыры до, px', hint: 'Замкнутые прозрачные области не больше этой площади заполняются. 0 - не заполнять' },
+            ] as const).map(field => (
+              <div key={field.key}>
+                <label className="block text-sm mb-1 text-gray-300 flex items-center gap-2">
+                  {field.label}
+                  <span className="w-4 h-4 rounded-full border border-gray-600 text-gray-500 text-xs flex items-center justify-center cursor-help" title={field.hint}>i</span>
+                </label>
+                <input
+                  type="number"
+                  min="0"
+                  value={componentCleanup[field.key]}
+                  onChange={(e) => setComponentCleanup(prev => ({ ...prev, [field.key]: Math.max(0, Math.round(Number(e.target.value))) }))}
+                  disabled={!componentCleanupEnabled}
+                  className="w-full px-3 py-1.5 bg-gray-800 border border-gray-700 rounded text-sm text-gray-300 focus:outline-none focus:border-blue-500 disabled:opacity-50"
+                />
+              </div>
+            ))}
           </div>
-          <div className="text-xs text-gray-500">Не закрывайте страницу</div>
-        </div>
+        </details>
+
+        <details className="mt-6 pt-6 border-t border-gray-800">
+          <summary className="cursor-pointer text-sm font-medium text-gray-400 hover:text-gray-300">
+            Подавление каймы
+            {defringeEnabled && <span className="ml-2 text-xs text-gray-500">(включено)</span>}
+          </summary>
+          <div className="mt-4 grid md:grid-cols-4 gap-4">
+            <div className="flex items-center gap-3">
+              <input
+                type="checkbox"
+                id="defringeEnabled"
+                checked={defringeEnabled}
+                onChange={(e) => setDefringeEnabled(e.target.checked)}
+                className="w-4 h-4 accent-blue-600"
+              />
+              <label htmlFor="defringeEnabled" className="text-sm text-gray-300 flex items-center gap-2">
+                Убрать цвет подложки с края
+                <span className="w-4 h-4 rounded-full border border-gray-600 text-gray-500 text-xs flex items-center justify-center cursor-help" title="Перекрашивает полупрозрачный край, в который просочился цвет подложки. В отличие от эрозии, край остаётся на месте и иконка не становится тоньше.">i</span>
+              </label>
+            </div>
+
+            <div>
+              <label className="block text-sm mb-1 text-gray-300 flex items-center gap-2">
+                Метод
+                <span className="w-4 h-4 rounded-full border border-gray-600 text-gray-500 text-xs flex items-center justify-center cursor-help" title={DEFRINGE_METHODS.find(m => m.id === defringeOptions.method)?.description}>i</span>
+              </label>
+              <select
+                value={defringeOptions.method}
+                onChange={(e) => setDefringeOptions(prev => ({ ...prev, method: e.target.value as DefringeMethod }))}
+                disabled={!defringeEnabled}
+                className="w-full px-3 py-1.5 bg-gray-800 border border-gray-700 rounded text-sm text-gray-300 focus:outline-none focus:border-blue-500 disabled:opacity-50"
+              >
+                {DEFRINGE_METHODS.map(method => (
+                  <option key={method.id} value={method.id}>{method.name}</option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-sm mb-1 text-gray-300">
+                Сила ({Math.round(defringeOptions.strength * 100)}%)
+              </label>
+              <input
+                type="range"
+                min="0"
+                max="100"
+                value={Math.round(defringeOptions.strength * 100)}
+                onChange={(e) => setDefringeOptions(prev => ({ ...prev, strength: Number(e.target.value) / 100 }))}
+                disabled={!defringeEnabled}
+                className="w-full accent-blue-600 disabled:opacity-50"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm mb-1 text-gray-300 flex items-center gap-2">
+                Ширина края ({defringeOptions.rimWidth}px)
+                <span className="w-4 h-4 rounded-full border border-gray-600 text-gray-500 text-xs flex items-center justify-center cursor-help" title="Сколько пикселей от прозрачной области считаются краем и перекрашиваются.">i</span>
+              </label>
+              <input
+                type="range"
+                min="1"
+                max="10"
+                value={defringeOptions.rimWidth}
+                onChange={(e) => setDefringeOptions(prev => ({ ...prev, rimWidth: Number(e.target.value) }))}
+                disabled={!defringeEnabled}
+                className="w-full accent-blue-600 disabled:opacity-50"
+              />
+            </div>
+          </div>
+        </details>
+
+        <details className="mt-6 pt-6 border-t border-gray-800">
+          <summary className="cursor-pointer text-sm font-medium text-gray-400 hover:text-gray-300">
+            Обрезка прозрачных полей
+            {trimEnabled && <span className="ml-2 text-xs text-gray-500">(включена)</span>}
+          </summary>
+          <div className="mt-4 grid md:grid-cols-4 gap-4">
+            <div className="flex items-center gap-3">
+              <input
+                type="checkbox"
+                id="trimEnabled"
+                checked={trimEnabled}
+                onChange={(e) => setTrimEnabled(e.target.checked)}
+                className="w-4 h-4 accent-blue-600"
+              />
+              <label htmlFor="trimEnabled" className="text-sm text-gray-300 flex items-center gap-2">
+                Обрезать по иконке
+                <span className="w-4 h-4 rounded-full border border-gray-600 text-gray-500 text-xs flex items-center justify-center cursor-help" title="Обрезает результат по рамке непрозрачных пикселей, чтобы иконка ровно центрировалась при наложении на новый фон. Смещение сохраняется в manifest.json.">i</span>
+              </label>
+            </div>
+
+            <div>
+              <label className="block text-sm mb-1 text-gray-300">Отступ</label>
+              <div className="flex gap-2">
+                <input
+                  type="number"
+                  min="0"
+                  max="512"
+                  value={trimOptions.padding}
+                  onChange={(e) => setTrimOptions(prev => ({ ...prev, padding: Math.min(512, Math.max(0, Number(e.target.value))) }))}
+                  disabled={!trimEnabled}
+                  className="w-full px-3 py-1.5 bg-gray-800 border border-gray-700 rounded text-sm text-gray-300 focus:outline-none focus:border-blue-500 disabled:opacity-50"
+                />
+                <select
+                  value={trimOptions.paddingUnit}
+                  onChange={(e) => setTrimOptions(prev => ({ ...prev, paddingUnit: e.target.value as TrimOptions['paddingUnit'] }))}
+                  disabled={!trimEnabled}
+                  className="px-2 py-1.5 bg-gray-800 border border-gray-700 rounded text-sm text-gray-300 focus:outline-none focus:border-blue-500 disabled:opacity-50"
+                >
+                  <option value="px">px</option>
+                  <option value="%">%</option>
+                </select>
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm mb-1 text-gray-300 flex items-center gap-2">
+                Порог альфы ({trimOptions.alphaCutoff})
+                <span className="w-4 h-4 rounded-full border border-gray-600 text-gray-500 text-xs flex items-center justify-center cursor-help" title="Пиксели с прозрачностью не выше порога не расширяют рамку - почти невидимые остатки по краям не мешают обрезке.">i</span>
+              </label>
+              <input
+                type="range"
+                min="0"
+                max="128"
+                value={trimOptions.alphaCutoff}
+                onChange={(e) => setTrimOptions(prev => ({ ...prev, alphaCutoff: Number(e.target.value) }))}
+                disabled={!trimEnabled}
+                className="w-full accent-blue-600 disabled:opacity-50"
+              />
+            </div>
+
+            <div className="flex items-center gap-3">
+              <input
+                type="checkbox"
+                id="trimSquare"
+                checked={trimOptions.square}
+                onChange={(e) => setTrimOptions(prev => ({ ...prev, square: e.target.checked }))}
+                disabled={!trimEnabled}
+                className="w-4 h-4 accent-blue-600"
+              />
+              <label htmlFor="trimSquare" className="text-sm text-gray-300">Квадратный результат</label>
+            </div>
+          </div>
+        </details>
+
+        <details className="mt-6 pt-6 border-t border-gray-800">
+          <summary className="cursor-pointer text-sm font-medium text-gray-400 hover:text-gray-300">
+            Liquid glass
+            {glassEstimate && glassEstimate.confidence > 0 && (
+              <span className="ml-2 text-xs text-gray-500">
+                (определено по эталону, уверенность {Math.round(glassEstimate.confidence * 100)}%)
+              </span>
+            )}
+          </summary>
+          <div className="mt-4 grid md:grid-cols-3 gap-4">
+            <div className="flex items-center gap-3">
+              <input
+                type="checkbox"
+                id="removeLiquidGlass"
+                checked={removeLiquidGlass}
+                onChange={(e) => setRemoveLiquidGlass(e.target.checked)}
+                className="w-4 h-4 accent-blue-600"
+              />
+              <label htmlFor="removeLiquidGlass" className="text-sm text-gray-300 flex items-center gap-2">
+                Удалять светлую обводку
+                <span className="w-4 h-4 rounded-full border border-gray-600 text-gray-500 text-xs flex items-center justify-center cursor-help" title="Убирает светлый ободок liquid glass по внешнему краю иконки. Ширина и яркость подбираются автоматически по ободку эталона.">i</span>
+              </label>
+            </div>
+
+            <div>
+              <label className="block text-sm mb-1 text-gray-300">
+                Ширина обводки ({glassOutlineWidth}px)
+              </label>
+              <input
+                type="range"
+                min="1"
+                max="5"
+                value={glassOutlineWidth}
+                onChange={(e) => setGlassOutlineWidth(Number(e.target.value))}
+                className="w-full accent-blue-600"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm mb-1 text-gray-300">
+                Яркость обводки ({glassBrightness})
+              </label>
+              <input
+                type="range"
+                min="0"
+                max="255"
+                value={glassBrightness}
+                onChange={(e) => setGlassBrightness(Number(e.target.value))}
+                className="w-full accent-blue-600"
+              />
+            </div>
+          </div>
+          {referenceBackgrounds.length > 0 && (
+            <div className="mt-3 flex items-center gap-3 text-xs text-gray-500">
+              <button
+                onClick={() => detectGlassOutline(referenceBackgrounds[0].file)}
+                disabled={isCalibratingGlass}
+                className="px-3 py-1.5 bg-gray-800 hover:bg-gray-700 border border-gray-700 rounded text-gray-300 disabled:opacity-50"
+              >
+                {isCalibratingGlass ? 'Анализ...' : 'Определить по эталону'}
+              </button>
+              {glassEstimate && glassEstimate.confidence === 0 && (
+                <span>Светлый ободок на эталоне не найден - используются значения по умолчанию</span>
+              )}
+            </div>
+          )}
+        </details>
+
+        <details className="mt-6 pt-6 border-t border-gray-800">
+          <summary className="cursor-pointer text-sm font-medium text-gray-400 hover:text-gray-300">
+            Контроль качества
+            {flaggedCount > 0 && (
+              <span className="ml-2 text-xs text-amber-500">(требуют проверки: {flaggedCount})</span>
+            )}
+          </summary>
+          <div className="mt-4 grid grid-cols-2 md:grid-cols-5 gap-4">
+            {METRIC_BOUND_FIELDS.map(field => (
+              <div key={field.key}>
+                <label className="block text-sm mb-1 text-gray-300 flex items-center gap-2">
+                  {field.name}, %
+                  <span className="w-4 h-4 rounded-full border border-gray-600 text-gray-500 text-xs flex items-center justify-center cursor-help" title={field.hint}>i</span>
+                </label>
+                <input
+                  type="number"
+                  min="0"
+                  max="100"
+                  value={Math.round(metricBounds[field.key] * 100)}
+                  onChange={(e) => setMetricBounds(prev => ({
+                    ...prev,
+                    [field.key]: Math.min(100, Math.max(0, Number(e.target.value))) / 100,
+                  }))}
+                  className="w-full px-3 py-1.5 bg-gray-800 border border-gray-700 rounded text-sm text-gray-300 focus:outline-none focus:border-blue-500"
+                />
+              </div>
+            ))}
+          </div>
+          <div className="mt-3 flex items-center gap-3 text-xs text-gray-500">
+            <span>Результаты за этими границами помечаются в списке как требующие проверки.</span>
+            <button
+              onClick={() => setMetricBounds(DEFAULT_METRIC_BOUNDS)}
+              className="px-3 py-1.5 bg-gray-800 hover:bg-gray-700 border border-gray-700 rounded text-gray-300"
+            >
+              По умолчанию
+            </button>
+          </div>
+        </details>
+      </div>
+
+      {files.length > 0 && (
+        <JobQueueControls
+          stats={isProcessing ? queueStats : null}
+          concurrency={workerCount}
+          maxConcurrency={16}
+          concurrencyHint="Сколько иконок обрабатывается параллельно в фоновых потоках. Больше = быстрее, но больше памяти."
+          onConcurrencyChange={changeWorkerCount}
+          onPause={() => queueRef.current?.pause()}
+          onResume={() => queueRef.current?.resume()}
+          onCancel={() => queueRef.current?.cancel()}
+        />
       )}
 
       <div className="bg-gray-900 border border-gray-800 rounded-lg p-6">
@@ -594,14 +1531,25 @@ export function BatchProcessor({ files, setFiles, onSendToOverlay, onFilesChange
         {files.length > 0 && (
           <div className="mt-4 flex flex-wrap gap-3">
             <button
-              onClick={startBatchProcessing}
+              onClick={() => startBatchProcessing()}
               disabled={isProcessing || pendingCount === 0}
               className="flex-1 min-w-[200px] px-5 py-2.5 bg-blue-600 hover:bg-blue-500 disabled:opacity-50 disabled:cursor-not-allowed rounded transition flex items-center justify-center gap-2 font-medium text-sm"
             >
               <Play size={16} />
-              {isProcessing ? `${currentIndex}/${files.length}` : `Запустить (${pendingCount})`}
+              {isProcessing && queueStats ? `${queueStats.completed}/${queueStats.total}` : `Запустить (${pendingCount})`}
             </button>
             
+            <select
+              value={outputKind}
+              onChange={(e) => setOutputKind(e.target.value as OutputKind)}
+              className="px-3 py-2.5 bg-gray-800 border border-gray-700 rounded text-sm text-gray-300 focus:outline-none focus:border-blue-500"
+              title="Что скачивать: вырезанные иконки, маски в оттенках серого или и то и другое в отдельных папках"
+            >
+              {OUTPUT_KINDS.map(k => (
+                <option key={k.id} value={k.id}>{k.name}</option>
+              ))}
+            </select>
+
             <button
               onClick={isProcessing ? downloadProgress : downloadAllAsZip}
               disabled={processedCount === 0}
@@ -671,7 +1619,17 @@ export function BatchProcessor({ files, setFiles, onSendToOverlay, onFilesChange
             onChange={(e) => setSearchQuery(e.target.value)}
             className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded text-sm text-gray-300 placeholder-gray-600 focus:outline-none focus:border-blue-500"
           />
-          {searchQuery && filteredFiles.length === 0 && (
+          <label className={`mt-3 flex items-center gap-2 text-sm ${flaggedCount > 0 || showFlaggedOnly ? 'text-gray-300 cursor-pointer' : 'text-gray-600'}`}>
+            <input
+              type="checkbox"
+              checked={showFlaggedOnly}
+              onChange={(e) => setShowFlaggedOnly(e.target.checked)}
+              disabled={flaggedCount === 0 && !showFlaggedOnly}
+              className="w-4 h-4 accent-amber-500"
+            />
+            Только требующие проверки ({flaggedCount})
+          </label>
+          {(searchQuery || showFlaggedOnly) && filteredFiles.length === 0 && (
             <div className="text-center text-gray-500 text-sm mt-2">Ничего не найдено</div>
           )}
         </div>
@@ -682,66 +1640,163 @@ export function BatchProcessor({ files, setFiles, onSendToOverlay, onFilesChange
           <div className="flex items-center gap-2 mb-4">
             <ImageIcon size={18} className="text-gray-500" />
             <h2 className="text-lg font-semibold text-white">Файлы ({filteredFiles.length}/{files.length})</h2>
+            <div className="ml-auto flex gap-2 text-xs">
+              <button
+                onClick={() => setSelectedNames(new Set(filteredFiles.map(f => f.original.name)))}
+                className="px-2 py-1 bg-gray-800 hover:bg-gray-700 rounded text-gray-400"
+              >
+                Выбрать показанные
+              </button>
+              {selectedCount > 0 && (
+                <button
+                  onClick={requeueSelected}
+                  className="px-2 py-1 bg-blue-600 hover:bg-blue-500 rounded text-white"
+                  title="Обработать выбранные файлы заново с текущими настройками"
+                >
+                  В очередь ({selectedCount})
+                </button>
+              )}
+              {selectedCount > 0 && (
+                <button
+                  onClick={() => setSelectedNames(new Set())}
+                  className="px-2 py-1 bg-gray-800 hover:bg-gray-700 rounded text-gray-400"
+                >
+                  Снять выбор
+                </button>
+              )}
+            </div>
           </div>
 
-          <div className="grid gap-2 max-h-[600px] overflow-y-auto" style={{gridTemplateColumns: 'repeat(auto-fill, minmax(100px, 1fr))'}}>
-            {[...filteredFiles].sort((a, b) => a.original.name.localeCompare(b.original.name)).map((file, index) => (
-              <div key={`${file.original.name}-${index}`} className="flex flex-col">
-                <div
-                  onClick={() => setModalFile(file)}
-                  className={`aspect-square bg-gray-800 rounded-t p-1.5 border cursor-pointer hover:opacity-80 transition ${
-                    file.status === 'done'
-                      ? 'border-green-600'
-                      : file.status === 'processing'
-                      ? 'border-blue-600 animate-pulse'
-                      : file.status === 'error'
-                      ? 'border-red-600'
-                      : 'border-gray-700'
-                  }`}
-                >
-                  <div className="relative w-full h-full group">
-                    <img
-                      src={file.preview || file.originalPreview}
-                      alt={file.original.name}
-                      className="w-full h-full object-contain rounded bg-gray-900"
-                    />
-                    {file.processed && (
-                      <button
-                        onClick={(e) => {
-                          e.stopPropagation();
-                          downloadSingle(file);
-                        }}
-                        className="absolute top-0 right-0 bg-blue-600 hover:bg-blue-500 p-1 rounded opacity-0 group-hover:opacity-100 transition"
-                      >
-                        <Download size={10} />
-                      </button>
-                    )}
+          {selectedCount > 0 && (
+            <details className="mb-4 bg-gray-800/50 border border-gray-700 rounded p-3">
+              <summary className="cursor-pointer text-sm text-gray-300">
+                Свои настройки для выбранных ({selectedCount})
+              </summary>
+              <div className="mt-3 max-w-md">
+                <OverridesEditor
+                  overrides={bulkOverrides}
+                  globals={globalOptions}
+                  onChange={setBulkOverrides}
+                  disabled={isProcessing}
+                  pipelineActive={useCustomPipeline}
+                />
+                {useCustomPipeline && (
+                  <div className="mt-2 text-xs text-gray-500">
+                    Включён свой конвейер: сглаживание, эрозия и очистка берутся из него
                   </div>
+                )}
+                <div className="mt-3 flex gap-2">
+                  <button
+                    onClick={() => setOverrides(selectedNames, bulkOverrides)}
+                    disabled={isProcessing || !bulkOverrides}
+                    className="px-3 py-1.5 bg-blue-600 hover:bg-blue-500 disabled:opacity-50 rounded text-sm"
+                  >
+                    Задать выбранным
+                  </button>
+                  <button
+                    onClick={() => setOverrides(selectedNames, undefined)}
+                    disabled={isProcessing}
+                    className="px-3 py-1.5 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 rounded text-sm"
+                  >
+                    Вернуть общие
+                  </button>
                 </div>
-                <div className="bg-gray-800 rounded-b border border-t-0 border-gray-700 px-1.5 py-1">
-                  <div className="text-xs text-gray-500 truncate hover:text-gray-400 cursor-help" title={file.original.name}>
-                    {file.original.name}
+              </div>
+            </details>
+          )}
+
+          <div className="grid gap-2 max-h-[600px] overflow-y-auto" style={{gridTemplateColumns: 'repeat(auto-fill, minmax(100px, 1fr))'}}>
+            {[...filteredFiles].sort((a, b) => a.original.name.localeCompare(b.original.name)).map((file, index) => {
+              const review = reviewByName.get(file.original.name);
+              return (
+                <div key={`${file.original.name}-${index}`} className="flex flex-col">
+                  <div
+                    onClick={() => setModalFile(file)}
+                    className={`aspect-square bg-gray-800 rounded-t p-1.5 border cursor-pointer hover:opacity-80 transition ${
+                      review
+                        ? 'border-amber-500'
+                        : file.status === 'done'
+                        ? 'border-green-600'
+                        : file.status === 'processing'
+                        ? 'border-blue-600 animate-pulse'
+                        : file.status === 'error'
+                        ? 'border-red-600'
+                        : 'border-gray-700'
+                    }`}
+                  >
+                    <div className="relative w-full h-full group">
+                      <img
+                        src={file.preview || file.originalPreview}
+                        alt={file.original.name}
+                        className="w-full h-full object-contain rounded bg-gray-900"
+                      />
+                      {file.processed && (
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            downloadSingle(file);
+                          }}
+                          className="absolute top-0 right-0 bg-blue-600 hover:bg-blue-500 p-1 rounded opacity-0 group-hover:opacity-100 transition"
+                        >
+                          <Download size={10} />
+                        </button>
+                      )}
+                      {review && (
+                        <div
+                          className="absolute top-0 left-0 bg-amber-500 text-gray-900 text-[10px] font-bold px-1 rounded cursor-help"
+                          title={`Проверить:\n${review.join('\n')}`}
+                        >
+                          !
+                        </div>
+                      )}
+                      {file.overrides && (
+                        <div
+                          className="absolute bottom-0 left-0 bg-blue-600 text-white text-[10px] font-bold px-1 rounded cursor-help"
+                          title={`Свои настройки:\n${describeOverrides(file.overrides).join('\n')}`}
+                        >
+                          ≠
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                  <div className="bg-gray-800 rounded-b border border-t-0 border-gray-700 px-1.5 py-1">
+                    <label className="flex items-center gap-1 min-w-0">
+                      <input
+                        type="checkbox"
+                        checked={selectedNames.has(file.original.name)}
+                        onChange={() => toggleSelected(file.original.name)}
+                        className="w-3 h-3 shrink-0 accent-blue-600"
+                      />
+                      <span className="text-xs text-gray-500 truncate hover:text-gray-400 cursor-help" title={file.original.name}>
+                        {file.original.name}
+                      </span>
+                    </label>
+                    {file.referenceName && (
+                      <div className="text-[10px] text-gray-600 truncate" title={`Эталон: ${file.referenceName}`}>
+                        ⧉ {file.referenceName}
+                      </div>
+                    )}
                   </div>
                 </div>
-              </div>
-            ))}
+              );
+            })}
           </div>
         </div>
       )}
 
-      {modalFile && (
+      {modalView && (
         <div 
           className="fixed inset-0 bg-black/80 z-50 flex items-center justify-center p-4"
-          onClick={() => setModalFile(null)}
+          onClick={closeModal}
         >
           <div 
             className="bg-gray-900 border border-gray-800 rounded-lg max-w-4xl w-full max-h-[90vh] overflow-auto"
             onClick={(e) => e.stopPropagation()}
           >
             <div className="flex items-center justify-between p-4 border-b border-gray-800">
-              <h3 className="text-lg font-semibold text-white truncate">{modalFile.original.name}</h3>
+              <h3 className="text-lg font-semibold text-white truncate">{modalView.original.name}</h3>
               <button
-                onClick={() => setModalFile(null)}
+                onClick={closeModal}
                 className="text-gray-400 hover:text-white text-2xl leading-none"
               >
                 ×
@@ -749,49 +1804,183 @@ export function BatchProcessor({ files, setFiles, onSendToOverlay, onFilesChange
             </div>
 
             <div className="p-6">
-              <div className="grid md:grid-cols-2 gap-6">
-                <div>
-                  <div className="text-sm font-medium mb-2 text-gray-400">Оригинал</div>
-                  <div className="bg-gray-800 rounded-lg p-4 flex items-center justify-center min-h-[300px]">
-                    {modalFile.originalPreview ? (
-                      <img src={modalFile.originalPreview} alt="Original" className="max-w-full max-h-[400px] object-contain" />
-                    ) : (
-                      <div className="text-gray-600">Загрузка...</div>
-                    )}
-                  </div>
-                </div>
-                <div>
-                  <div className="text-sm font-medium mb-2 text-gray-400">
-                    {modalFile.status === 'done' ? 'Результат' : modalFile.status === 'processing' ? 'Обработка...' : 'Не обработан'}
+              {isRefining && modalView.originalPreview ? (
+                <RefineEditor
+                  originalSrc={modalView.originalPreview}
+                  resultSrc={modalView.preview}
+                  resultCrop={modalView.crop}
+                  trimap={modalView.trimap}
+                  onApply={(trimap) => applyRefinement(modalView, trimap)}
+                  onCancel={() => setIsRefining(false)}
+                  disabled={modalView.status === 'processing'}
+                />
+              ) : isInspecting ? (
+                <PixelInspector
+                  original={modalView.original}
+                  result={modalView.processed}
+                  resultCrop={modalView.crop}
+                  reference={referenceBackgrounds.find(r => r.file.name === modalView.referenceName)?.file}
+                  alignment={modalView.alignment}
+                  onClose={() => setIsInspecting(false)}
+                />
+              ) : (
+                <>
+                  <div className="grid md:grid-cols-2 gap-6">
+                    <div>
+                      <div className="text-sm font-medium mb-2 text-gray-400 flex items-center justify-between">
+                        <span>Оригинал{connectedOnly && ' (клик - точка фона)'}</span>
+                        {modalView.seedPoints && modalView.seedPoints.length > 0 && (
+                          <button
+                            onClick={() => updateFile(modalView.original.name, { seedPoints: [], status: 'pending' })}
+                            className="text-xs text-gray-500 hover:text-gray-300"
+                          >
+                            Сбросить точки ({modalView.seedPoints.length})
+                          </button>
+                        )}
+                      </div>
+                      <div className="bg-gray-800 rounded-lg p-4 flex items-center justify-center min-h-[300px]">
+                        {modalView.originalPreview ? (
+                          <div className="relative inline-block">
+                            <img
+                              src={modalView.originalPreview}
+                              alt="Original"
+                              onLoad={(e) => setModalImageSize({
+                                width: e.currentTarget.naturalWidth,
+                                height: e.currentTarget.naturalHeight,
+                              })}
+                              onClick={connectedOnly ? (e) => addSeedPoint(modalView, e) : undefined}
+                              className={`max-w-full max-h-[400px] object-contain ${connectedOnly ? 'cursor-crosshair' : ''}`}
+                            />
+                            {modalImageSize && modalView.seedPoints?.map((point, idx) => (
+                              <div
+                                key={idx}
+                                className="absolute w-2.5 h-2.5 -ml-[5px] -mt-[5px] rounded-full bg-blue-500 border border-white pointer-events-none"
+                                style={{
+                                  left: `${(point.x / modalImageSize.width) * 100}%`,
+                                  top: `${(point.y / modalImageSize.height) * 100}%`,
+                                }}
+                              />
+                            ))}
+                          </div>
+                        ) : (
+                          <div className="text-gray-600">Загрузка...</div>
+                        )}
+                      </div>
+                    </div>
+                    <div>
+                      <div className="text-sm font-medium mb-2 text-gray-400">
+                        {modalView.status === 'done' ? 'Результат' : modalView.status === 'processing' ? 'Обработка...' : 'Не обработан'}
+                      </div>
+                      <div className="bg-gray-800 rounded-lg p-4 flex items-center justify-center min-h-[300px]">
+                        {modalView.preview ? (
+                          <img src={modalView.preview} alt="Processed" className="max-w-full max-h-[400px] object-contain" />
+                        ) : modalView.status === 'processing' ? (
+                          <div className="text-blue-500 animate-pulse">Обработка...</div>
+                        ) : (
+                          <div className="text-gray-600">Ожидает обработки</div>
+                        )}
+                      </div>
+                    </div>
                   </div>
-                  <div className="bg-gray-800 rounded-lg p-4 flex items-center justify-center min-h-[300px]">
-                    {modalFile.preview ? (
-                      <img src={modalFile.preview} alt="Processed" className="max-w-full max-h-[400px] object-contain" />
-                    ) : modalFile.status === 'processing' ? (
-                      <div className="text-blue-500 animate-pulse">Обработка...</div>
-                    ) : (
-                      <div className="text-gray-600">Ожидает обработки</div>
+
+                  {modalView.referenceName && (
+                    <div className="mt-4 text-xs text-gray-500">
+                      Эталон: {modalView.referenceName}
+                    </div>
+                  )}
+
+                  {modalView.alignment && (
+                    <div className="mt-1 text-xs text-gray-500">
+                      Совмещение эталона: сдвиг {modalView.alignment.offsetX}, {modalView.alignment.offsetY} px,
+                      масштаб {(modalView.alignment.scale * 100).toFixed(1)}%,
+                      остаток {modalView.alignment.residual.toFixed(1)}
+                    </div>
+                  )}
+
+                  {modalView.trimap && (
+                    <div className="mt-1 text-xs text-gray-500">
+                      Есть ручные правки кистью
+                    </div>
+                  )}
+
+                  {modalView.crop && (
+                    <div className="mt-1 text-xs text-gray-500">
+                      Обрезано до {modalView.crop.width}×{modalView.crop.height} из {modalView.crop.sourceWidth}×{modalView.crop.sourceHeight},
+                      смещение {modalView.crop.x}, {modalView.crop.y} px
+                    </div>
+                  )}
+
+                  {modalView.metrics && modalView.status === 'done' && (
+                    <div className="mt-1 text-xs text-gray-500">
+                      Иконка {Math.round(modalView.metrics.opaqueRatio * 100)}% площади,
+                      остатки фона {Math.round(modalView.metrics.residual * 100)}%,
+                      кайма {Math.round(modalView.metrics.halo * 100)}%,
+                      изменение рамки {Math.round(modalView.metrics.bboxChange * 100)}%
+                    </div>
+                  )}
+
+                  {reviewByName.has(modalView.original.name) && (
+                    <div className="mt-3 bg-amber-500/10 border border-amber-500/50 rounded p-3 text-xs text-amber-400 space-y-1">
+                      <div className="font-semibold">Требует проверки</div>
+                      {reviewByName.get(modalView.original.name)!.map(reason => (
+                        <div key={reason}>{reason}</div>
+                      ))}
+                    </div>
+                  )}
+
+                  <details className="mt-4 bg-gray-800/50 border border-gray-700 rounded p-3" open={Boolean(modalView.overrides)}>
+                    <summary className="cursor-pointer text-sm text-gray-300">
+                      Свои настройки файла
+                      {modalView.overrides && <span className="ml-2 text-xs text-gray-500">({Object.keys(modalView.overrides).length})</span>}
+                    </summary>
+                    <div className="mt-3 max-w-md">
+                      <OverridesEditor
+                        overrides={modalView.overrides}
+                        globals={globalOptions}
+                        onChange={(overrides) => updateFile(modalView.original.name, { overrides, status: staleStatus(modalView.status) })}
+                        disabled={isProcessing || modalView.status === 'processing'}
+                        pipelineActive={useCustomPipeline}
+                      />
+                      <div className="mt-2 text-xs text-gray-500">
+                        Применяются при следующей обработке поверх общих настроек
+                        {useCustomPipeline && '; сглаживание, эрозия и очистка берутся из своего конвейера'}
+                      </div>
+                    </div>
+                  </details>
+
+                  <div className="mt-6 flex gap-3">
+                    {modalView.processed && (
+                      <button
+                        onClick={() => downloadSingle(modalView)}
+                        className="flex-1 px-4 py-2.5 bg-blue-600 hover:bg-blue-500 rounded transition flex items-center justify-center gap-2 font-medium text-sm"
+                      >
+                        <Download size={16} />
+                        Скачать{outputKind !== 'cutout' && ` (${OUTPUT_KINDS.find(k => k.id === outputKind)?.name.toLowerCase()})`}
+                      </button>
                     )}
+                    <button
+                      onClick={() => setIsInspecting(true)}
+                      className="px-4 py-2.5 bg-gray-700 hover:bg-gray-600 rounded transition text-sm"
+                    >
+                      Сравнить попиксельно
+                    </button>
+                    {modalView.originalPreview && (
+                      <button
+                        onClick={() => setIsRefining(true)}
+                        disabled={modalView.status === 'processing'}
+                        className="px-4 py-2.5 bg-gray-700 hover:bg-gray-600 disabled:text-gray-500 rounded transition text-sm"
+                      >
+                        Уточнить кистью
+                      </button>
+                    )}
+                    <button
+                      onClick={closeModal}
+                      className="px-4 py-2.5 bg-gray-700 hover:bg-gray-600 rounded transition text-sm"
+                    >
+                      Закрыть
+                    </button>
                   </div>
-                </div>
-              </div>
-
-              {modalFile.processed && (
-                <div className="mt-6 flex gap-3">
-                  <button
-                    onClick={() => downloadSingle(modalFile)}
-                    className="flex-1 px-4 py-2.5 bg-blue-600 hover:bg-blue-500 rounded transition flex items-center justify-center gap-2 font-medium text-sm"
-                  >
-                    <Download size={16} />
-                    Скачать
-                  </button>
-                  <button
-                    onClick={() => setModalFile(null)}
-                    className="px-4 py-2.5 bg-gray-700 hover:bg-gray-600 rounded transition text-sm"
-                  >
-                    Закрыть
-                  </button>
-                </div>
+                </>
               )}
             </div>
           </div>
@@ -801,7 +1990,7 @@ export function BatchProcessor({ files, setFiles, onSendToOverlay, onFilesChange
       {files.length === 0 && (
         <div className="bg-gray-900 border border-gray-800 rounded-lg p-8 text-center">
           <div className="text-gray-500 space-y-2 text-sm">
-            <p>1. Загрузите эталонную подложку</p>
+            <p>1. Загрузите эталонные подложки</p>
             <p>2. Добавьте файлы для обработки</p>
             <p>3. Запустите обработку</p>
             <p>4. Скачайте результаты в ZIP</p>
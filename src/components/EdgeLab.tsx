@@ -1,4 +1,13 @@
 import { useState, useRef, useCallback, useEffect } from 'react';
+import {
+  blurSharpenEdges,
+  gaussianEdges,
+  morphologicalEdges,
+  subpixelEdges,
+  supersampleEdges,
+} from '@/core/edgeLab';
+import type { RgbaImage } from '@/core/image';
+import { resizeWithCanvas } from '@/utils/backgroundRemoval';
 
 interface EdgeLabProps {}
 
@@ -83,20 +92,20 @@ export function EdgeLab({}: EdgeLabProps) {
       img.src = originalImage;
       await new Promise(resolve => img.onload = resolve);
       
-      let result: ImageData;
+      let result: RgbaImage;
       
       switch (method) {
         case 'supersampling':
-          result = await supersamplingMethod(img, supersampleScale);
+          result = supersampleEdges(await noProcessing(img), supersampleScale, resizeWithCanvas);
           break;
         case 'gaussian':
-          result = await gaussianMethod(img, gaussianRadius, gaussianPasses);
+          result = gaussianEdges(await noProcessing(img), gaussianRadius, gaussianPasses);
           break;
         case 'morphological':
-          result = await morphologicalMethod(img, dilateRadius, erodeRadius);
+          result = morphologicalEdges(await noProcessing(img), dilateRadius, erodeRadius);
           break;
         case 'subpixel':
-          result = await subpixelMethod(img, subpixelThreshold, subpixelSmooth, subpixelSharpness);
+          result = subpixelEdges(await noProcessing(img), subpixelSmooth, subpixelSharpness);
           break;
         case 'vector':
           result = await vectorMethod(img, vectorColors, vectorBlur);
@@ -105,7 +114,7 @@ export function EdgeLab({}: EdgeLabProps) {
           result = await edgeBezierMethod(img, edgeBezierRadius, edgeBezierStrength);
           break;
         case 'blur-sharpen':
-          result = await blurSharpenMethod(img, blurRadius, sharpenStrength, sharpenThreshold);
+          result = blurSharpenEdges(await noProcessing(img), blurRadius, sharpenStrength, sharpenThreshold);
           break;
         default:
           result = await noProcessing(img);
@@ -116,7 +125,7 @@ export function EdgeLab({}: EdgeLabProps) {
       canvas.width = result.width;
       canvas.height = result.height;
       const ctx = canvas.getContext('2d')!;
-      ctx.putImageData(result, 0, 0);
+      ctx.putImageData(new ImageData(new Uint8ClampedArray(result.data), result.width, result.height), 0, 0);
       
       setProcessedImage(canvas.toDataURL('image/png'));
     } catch (err) {
@@ -631,268 +640,6 @@ async function noProcessing(img: HTMLImageElement): Promise<ImageData> {
   return ctx.getImageData(0, 0, canvas.width, canvas.height);
 }
 
-async function supersamplingMethod(img: HTMLImageElement, scale: number): Promise<ImageData> {
-  const originalWidth = img.width;
-  const originalHeight = img.height;
-  
-  // 1. Увеличиваем с bicubic интерполяцией
-  const largeCanvas = document.createElement('canvas');
-  largeCanvas.width = originalWidth * scale;
-  largeCanvas.height = originalHeight * scale;
-  const largeCtx = largeCanvas.getContext('2d')!;
-  largeCtx.imageSmoothingEnabled = true;
-  largeCtx.imageSmoothingQuality = 'high';
-  largeCtx.drawImage(img, 0, 0, largeCanvas.width, largeCanvas.height);
-  
-  // 2. Обрабатываем на большом размере - делаем края чётче
-  const largeData = largeCtx.getImageData(0, 0, largeCanvas.width, largeCanvas.height);
-  
-  // Убираем полупрозрачные пиксели на краях (делаем чётче)
-  const threshold = 128;
-  for (let i = 0; i < largeData.data.length; i += 4) {
-    const alpha = largeData.data[i + 3];
-    // Но оставляем градиент для антиалиасинга
-    if (alpha > 0 && alpha < 255) {
-      // Мягкий порог - усиливаем контраст, но сохраняем плавность
-      const newAlpha = alpha < threshold 
-        ? Math.floor(alpha * 0.5) 
-        : Math.floor(alpha + (255 - alpha) * 0.5);
-      largeData.data[i + 3] = newAlpha;
-    }
-  }
-  largeCtx.putImageData(largeData, 0, 0);
-  
-  // 3. Уменьшаем обратно - браузер автоматически делает антиалиасинг
-  const finalCanvas = document.createElement('canvas');
-  finalCanvas.width = originalWidth;
-  finalCanvas.height = originalHeight;
-  const finalCtx = finalCanvas.getContext('2d')!;
-  finalCtx.imageSmoothingEnabled = true;
-  finalCtx.imageSmoothingQuality = 'high';
-  finalCtx.drawImage(largeCanvas, 0, 0, originalWidth, originalHeight);
-  
-  return finalCtx.getImageData(0, 0, originalWidth, originalHeight);
-}
-
-async function gaussianMethod(img: HTMLImageElement, radius: number, passes: number): Promise<ImageData> {
-  const canvas = document.createElement('canvas');
-  canvas.width = img.width;
-  canvas.height = img.height;
-  const ctx = canvas.getContext('2d')!;
-  ctx.drawImage(img, 0, 0);
-  
-  const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-  const data = imageData.data;
-  const width = imageData.width;
-  const height = imageData.height;
-  
-  // Gaussian kernel
-  const kernel = generateGaussianKernel(radius);
-  const kernelSize = radius * 2 + 1;
-  
-  for (let pass = 0; pass < passes; pass++) {
-    const tempAlpha = new Uint8ClampedArray(width * height);
-    
-    // Копируем альфа
-    for (let i = 0; i < width * height; i++) {
-      tempAlpha[i] = data[i * 4 + 3];
-    }
-    
-    // Размываем только альфа-канал
-    for (let y = 0; y < height; y++) {
-      for (let x = 0; x < width; x++) {
-        const idx = y * width + x;
-        const alpha = tempAlpha[idx];
-        
-        // Обрабатываем только краевые пиксели
-        if (alpha > 10 && alpha < 245) {
-          let sum = 0;
-          let weightSum = 0;
-          
-          for (let ky = -radius; ky <= radius; ky++) {
-            for (let kx = -radius; kx <= radius; kx++) {
-              const nx = x + kx;
-              const ny = y + ky;
-              
-              if (nx >= 0 && nx < width && ny >= 0 && ny < height) {
-                const nidx = ny * width + nx;
-                const weight = kernel[(ky + radius) * kernelSize + (kx + radius)];
-                sum += tempAlpha[nidx] * weight;
-                weightSum += weight;
-              }
-            }
-          }
-          
-          data[idx * 4 + 3] = Math.round(sum / weightSum);
-        }
-      }
-    }
-  }
-  
-  return imageData;
-}
-
-function generateGaussianKernel(radius: number): number[] {
-  const size = radius * 2 + 1;
-  const kernel = new Array(size * size);
-  const sigma = radius / 2;
-  let sum = 0;
-  
-  for (let y = -radius; y <= radius; y++) {
-    for (let x = -radius; x <= radius; x++) {
-      const value = Math.exp(-(x * x + y * y) / (2 * sigma * sigma));
-      kernel[(y + radius) * size + (x + radius)] = value;
-      sum += value;
-    }
-  }
-  
-  // Нормализуем
-  for (let i = 0; i < kernel.length; i++) {
-    kernel[i] /= sum;
-  }
-  
-  return kernel;
-}
-
-async function morphologicalMethod(img: HTMLImageElement, dilateR: number, erodeR: number): Promise<ImageData> {
-  const canvas = document.createElement('canvas');
-  canvas.width = img.width;
-  canvas.height = img.height;
-  const ctx = canvas.getContext('2d')!;
-  ctx.drawImage(img, 0, 0);
-  
-  let imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-  
-  // Dilate (расширение)
-  if (dilateR > 0) {
-    imageData = morphOp(imageData, dilateR, 'dilate');
-  }
-  
-  // Erode (сужение)
-  if (erodeR > 0) {
-    imageData = morphOp(imageData, erodeR, 'erode');
-  }
-  
-  return imageData;
-}
-
-function morphOp(imageData: ImageData, radius: number, op: 'dilate' | 'erode'): ImageData {
-  const data = imageData.data;
-  const width = imageData.width;
-  const height = imageData.height;
-  const result = new Uint8ClampedArray(data);
-  
-  for (let y = 0; y < height; y++) {
-    for (let x = 0; x < width; x++) {
-      const idx = (y * width + x) * 4;
-      
-      let extremeAlpha = op === 'dilate' ? 0 : 255;
-      
-      for (let ky = -radius; ky <= radius; ky++) {
-        for (let kx = -radius; kx <= radius; kx++) {
-          const nx = x + kx;
-          const ny = y + ky;
-          
-          if (nx >= 0 && nx < width && ny >= 0 && ny < height) {
-            const nidx = (ny * width + nx) * 4;
-            const alpha = data[nidx + 3];
-            
-            if (op === 'dilate') {
-              extremeAlpha = Math.max(extremeAlpha, alpha);
-            } else {
-              extremeAlpha = Math.min(extremeAlpha, alpha);
-            }
-          }
-        }
-      }
-      
-      result[idx + 3] = extremeAlpha;
-    }
-  }
-  
-  return new ImageData(result, width, height);
-}
-
-async function subpixelMethod(img: HTMLImageElement, _threshold: number, smooth: number, sharpness: number): Promise<ImageData> {
-  const canvas = document.createElement('canvas');
-  canvas.width = img.width;
-  canvas.height = img.height;
-  const ctx = canvas.getContext('2d')!;
-  ctx.drawImage(img, 0, 0);
-  
-  const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-  const data = imageData.data;
-  const width = imageData.width;
-  const height = imageData.height;
-  
-  // Работаем с копией альфа-канала
-  const alpha = new Float32Array(width * height);
-  for (let i = 0; i < width * height; i++) {
-    alpha[i] = data[i * 4 + 3];
-  }
-  
-  // Субпиксельное сглаживание - интерполяция между соседними значениями
-  for (let y = 1; y < height - 1; y++) {
-    for (let x = 1; x < width - 1; x++) {
-      const idx = y * width + x;
-      const a = alpha[idx];
-      
-      // Только для полупрозрачных пикселей
-      if (a > 10 && a < 245) {
-        // Среднее соседей
-        const neighbors = [
-          alpha[idx - 1], alpha[idx + 1],
-          alpha[idx - width], alpha[idx + width]
-        ];
-        const avg = neighbors.reduce((s, v) => s + v, 0) / 4;
-        
-        // Интерполируем между текущим и средним
-        const newAlpha = a * (1 - smooth) + avg * smooth;
-        
-        // Применяем мягкий порог
-        data[idx * 4 + 3] = Math.round(newAlpha);
-      }
-    }
-  }
-  
-  // Применяем резкость (Unsharp Mask) если sharpness != 100
-  if (sharpness !== 100) {
-    const sharpenFactor = (sharpness - 100) / 100; // -1 до +1
-    
-    for (let y = 1; y < height - 1; y++) {
-      for (let x = 1; x < width - 1; x++) {
-        const idx = (y * width + x) * 4;
-        const a = data[idx + 3];
-        
-        // Только для полупрозрачных/краевых пикселей
-        if (a > 10 && a < 245) {
-          // Вычисляем среднее соседей
-          let sum = 0;
-          let count = 0;
-          
-          for (let dy = -1; dy <= 1; dy++) {
-            for (let dx = -1; dx <= 1; dx++) {
-              if (dx === 0 && dy === 0) continue;
-              const nidx = ((y + dy) * width + (x + dx)) * 4;
-              sum += data[nidx + 3];
-              count++;
-            }
-          }
-          
-          const blurred = sum / count;
-          const diff = a - blurred;
-          
-          // Усиливаем контраст
-          const sharpened = a + diff * sharpenFactor;
-          data[idx + 3] = Math.max(0, Math.min(255, Math.round(sharpened)));
-        }
-      }
-    }
-  }
-  
-  return imageData;
-}
-
 // Векторизация с использованием Canvas Path2D
 async function vectorMethod(img: HTMLImageElement, numColors: number, blur: number): Promise<ImageData> {
   const canvas = document.createElement('canvas');
@@ -1319,183 +1066,4 @@ function getAverageEdgeColor(data: Uint8ClampedArray, contour: { x: number; y: n
   };
 }
 
-// Blur + Sharpen method
-async function blurSharpenMethod(
-  img: HTMLImageElement,
-  blurRadius: number,
-  sharpenStrength: number,
-  threshold: number
-): Promise<ImageData> {
-  const canvas = document.createElement('canvas');
-  canvas.width = img.width;
-  canvas.height = img.height;
-  const ctx = canvas.getContext('2d')!;
-  ctx.drawImage(img, 0, 0);
-  
-  let imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-  
-  // Blur edges first
-  imageData = blurEdgesPass(imageData, blurRadius);
-  
-  // Then sharpen
-  imageData = sharpenEdgesPass(imageData, sharpenStrength, threshold);
-  
-  return imageData;
-}
-
-function blurEdgesPass(imageData: ImageData, radius: number): ImageData {
-  const data = imageData.data;
-  const width = imageData.width;
-  const height = imageData.height;
-  
-  const isEdge = new Uint8Array(width * height);
-  
-  for (let y = 1; y < height - 1; y++) {
-    for (let x = 1; x < width - 1; x++) {
-      const idx = y * width + x;
-      const pixelIdx = idx * 4;
-      const alpha = data[pixelIdx + 3];
-      
-      if (alpha > 0) {
-        let hasTransparent = false;
-        for (let dy = -1; dy <= 1; dy++) {
-          for (let dx = -1; dx <= 1; dx++) {
-            if (dx === 0 && dy === 0) continue;
-            const nidx = ((y + dy) * width + (x + dx)) * 4;
-            if (data[nidx + 3] === 0) {
-              hasTransparent = true;
-              break;
-            }
-          }
-          if (hasTransparent) break;
-        }
-        if (hasTransparent) isEdge[idx] = 1;
-      }
-    }
-  }
-  
-  const kernel = gaussianKernel(radius);
-  const kernelSize = radius * 2 + 1;
-  const newAlpha = new Uint8ClampedArray(width * height);
-  
-  for (let i = 0; i < width * height; i++) {
-    newAlpha[i] = data[i * 4 + 3];
-  }
-  
-  for (let y = radius; y < height - radius; y++) {
-    for (let x = radius; x < width - radius; x++) {
-      const idx = y * width + x;
-      if (isEdge[idx] === 1) {
-        let sum = 0;
-        let weightSum = 0;
-        for (let ky = -radius; ky <= radius; ky++) {
-          for (let kx = -radius; kx <= radius; kx++) {
-            const nidx = (y + ky) * width + (x + kx);
-            const weight = kernel[(ky + radius) * kernelSize + (kx + radius)];
-            sum += data[nidx * 4 + 3] * weight;
-            weightSum += weight;
-          }
-        }
-        newAlpha[idx] = Math.round(sum / weightSum);
-      }
-    }
-  }
-  
-  for (let i = 0; i < width * height; i++) {
-    data[i * 4 + 3] = newAlpha[i];
-  }
-  
-  return imageData;
-}
-
-function sharpenEdgesPass(imageData: ImageData, strength: number, threshold: number): ImageData {
-  const data = imageData.data;
-  const width = imageData.width;
-  const height = imageData.height;
-  
-  const isEdge = new Uint8Array(width * height);
-  
-  for (let y = 1; y < height - 1; y++) {
-    for (let x = 1; x < width - 1; x++) {
-      const idx = y * width + x;
-      const pixelIdx = idx * 4;
-      const alpha = data[pixelIdx + 3];
-      
-      if (alpha > 0 && alpha < 255) {
-        let hasMoreTransparent = false;
-        let hasMoreOpaque = false;
-        
-        for (let dy = -1; dy <= 1; dy++) {
-          for (let dx = -1; dx <= 1; dx++) {
-            if (dx === 0 && dy === 0) continue;
-            const nidx = ((y + dy) * width + (x + dx)) * 4;
-            const nalpha = data[nidx + 3];
-            if (nalpha < alpha - 20) hasMoreTransparent = true;
-            if (nalpha > alpha + 20) hasMoreOpaque = true;
-          }
-        }
-        
-        if (hasMoreTransparent && hasMoreOpaque) {
-          isEdge[idx] = 1;
-        }
-      }
-    }
-  }
-  
-  const radius = 1;
-  
-  for (let y = 1; y < height - 1; y++) {
-    for (let x = 1; x < width - 1; x++) {
-      const idx = y * width + x;
-      if (isEdge[idx] !== 1) continue;
-      
-      const pixelIdx = idx * 4;
-      const origAlpha = data[pixelIdx + 3];
-      
-      let sum = 0;
-      let count = 0;
-      
-      for (let dy = -radius; dy <= radius; dy++) {
-        for (let dx = -radius; dx <= radius; dx++) {
-          if (dx === 0 && dy === 0) continue;
-          const nidx = ((y + dy) * width + (x + dx)) * 4;
-          sum += data[nidx + 3];
-          count++;
-        }
-      }
-      
-      const blurredAlpha = sum / count;
-      const diff = origAlpha - blurredAlpha;
-      
-      if (Math.abs(diff) > threshold) {
-        const sharpened = origAlpha + diff * (strength / 100);
-        data[pixelIdx + 3] = Math.max(0, Math.min(255, sharpened));
-      }
-    }
-  }
-  
-  return imageData;
-}
-
-function gaussianKernel(radius: number): number[] {
-  const size = radius * 2 + 1;
-  const kernel = new Array(size * size);
-  const sigma = radius / 2;
-  let sum = 0;
-  
-  for (let y = -radius; y <= radius; y++) {
-    for (let x = -radius; x <= radius; x++) {
-      const value = Math.exp(-(x * x + y * y) / (2 * sigma * sigma));
-      kernel[(y + radius) * size + (x + radius)] = value;
-      sum += value;
-    }
-  }
-  
-  for (let i = 0; i < kernel.length; i++) {
-    kernel[i] /= sum;
-  }
-  
-  return kernel;
-}
-
 export default EdgeLab;
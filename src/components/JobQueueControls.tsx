@@ -0,0 +1,95 @@
+import type { JobQueueStats } from '@/utils/jobQueue';
+
+interface JobQueueControlsProps {
+  stats: JobQueueStats | null; // null - очередь не запущена
+  concurrency: number;
+  maxConcurrency: number;
+  concurrencyHint: string;
+  onConcurrencyChange: (concurrency: number) => void; // Вызывается и во время обработки
+  onPause: () => void;
+  onResume: () => void;
+  onCancel: () => void;
+}
+
+function formatThroughput(perSecond: number): string {
+  return perSecond >= 1 ? `${perSecond.toFixed(1)} шт/с` : `${Math.round(perSecond * 60)} шт/мин`;
+}
+
+function formatEta(seconds: number): string {
+  const total = Math.ceil(seconds);
+  const minutes = Math.floor(total / 60);
+  return minutes > 0 ? `${minutes} мин ${total % 60} с` : `${total} с`;
+}
+
+export function JobQueueControls({
+  stats,
+  concurrency,
+  maxConcurrency,
+  concurrencyHint,
+  onConcurrencyChange,
+  onPause,
+  onResume,
+  onCancel,
+}: JobQueueControlsProps) {
+  const isActive = stats !== null && (stats.state === 'running' || stats.state === 'paused');
+  const progress = stats && stats.total > 0 ? stats.completed / stats.total : 0;
+
+  return (
+    <div className={`rounded p-4 border ${
+      stats?.state === 'running' ? 'bg-amber-500/10 border-amber-500/50' : 'bg-gray-900 border-gray-800'
+    }`}>
+      {isActive && stats && (
+        <div className="mb-3">
+          <div className="flex flex-wrap items-center gap-3 text-sm">
+            <div className={`font-semibold ${stats.state === 'paused' ? 'text-gray-300' : 'text-amber-500'}`}>
+              {stats.state === 'paused' ? (stats.active > 0 ? 'Пауза после текущих...' : 'Пауза') : 'Обработка...'}
+            </div>
+            <div className="flex-1 text-gray-400">
+              {stats.completed} из {stats.total}
+              {stats.failed > 0 && <span className="text-red-400">, ошибок: {stats.failed}</span>}
+            </div>
+            {stats.throughput > 0 && (
+              <div className="text-xs text-gray-500">
+                {formatThroughput(stats.throughput)}
+                {stats.etaSeconds !== null && stats.state === 'running' && `, осталось ~${formatEta(stats.etaSeconds)}`}
+              </div>
+            )}
+            <div className="flex gap-2">
+              {stats.state === 'running' ? (
+                <button onClick={onPause} className="px-3 py-1.5 bg-gray-700 hover:bg-gray-600 rounded text-xs">
+                  Пауза
+                </button>
+              ) : (
+                <button onClick={onResume} className="px-3 py-1.5 bg-blue-600 hover:bg-blue-500 rounded text-xs">
+                  Продолжить
+                </button>
+              )}
+              <button onClick={onCancel} className="px-3 py-1.5 bg-gray-700 hover:bg-red-600 rounded text-xs">
+                Отменить
+              </button>
+            </div>
+          </div>
+          <div className="mt-2 h-1.5 bg-gray-800 rounded overflow-hidden">
+            <div className="h-full bg-blue-600 transition-all" style={{ width: `${Math.round(progress * 100)}%` }} />
+          </div>
+        </div>
+      )}
+
+      <label className="flex items-center gap-3 text-sm text-gray-300">
+        <span className="flex items-center gap-2 whitespace-nowrap">
+          Параллельно: {concurrency}
+          <span className="w-4 h-4 rounded-full border border-gray-600 text-gray-500 text-xs flex items-center justify-center cursor-help" title={concurrencyHint}>i</span>
+        </span>
+        <input
+          type="range"
+          min="1"
+          max={maxConcurrency}
+          value={concurrency}
+          onChange={(e) => onConcurrencyChange(Number(e.target.value))}
+          className="flex-1 accent-blue-600"
+        />
+      </label>
+      {isActive && <div className="mt-1 text-xs text-gray-500">Не закрывайте страницу - прерванные файлы вернутся в очередь после перезагрузки</div>}
+    </div>
+  );
+}
@@ -0,0 +1,124 @@
+import type { ProcessingOptions } from '@/core/process';
+
+export type ProcessingOverrides = Partial<ProcessingOptions>;
+
+// postprocess - флаг постобработки: при своём конвейере он не действует, шаги задаёт конвейер
+type OverrideField = { postprocess?: boolean } & (
+  | { key: 'threshold' | 'transitionWidth' | 'erodePixels'; label: string; kind: 'number'; min: number; max: number; step: number }
+  | { key: 'edgeSmoothing' | 'removeLightEdges' | 'edgeCleanup' | 'alphaMatting'; label: string; kind: 'boolean' }
+  | { key: 'removalScope'; label: string; kind: 'scope' }
+);
+
+// Настройки, которые чаще всего приходится менять для отдельных «упрямых» иконок
+export const OVERRIDE_FIELDS: OverrideField[] = [
+  { key: 'threshold', label: 'Порог', kind: 'number', min: 1, max: 100, step: 1 },
+  { key: 'transitionWidth', label: 'Переходная зона', kind: 'number', min: 0, max: 3, step: 0.1 },
+  { key: 'erodePixels', label: 'Эрозия, px', kind: 'number', min: 0, max: 10, step: 1, postprocess: true },
+  { key: 'edgeSmoothing', label: 'Сглаживание краёв', kind: 'boolean', postprocess: true },
+  { key: 'removeLightEdges', label: 'Удаление светлых краёв', kind: 'boolean', postprocess: true },
+  { key: 'edgeCleanup', label: 'Агрессивная очистка', kind: 'boolean', postprocess: true },
+  { key: 'alphaMatting', label: 'Альфа-матирование', kind: 'boolean' },
+  { key: 'removalScope', label: 'Только связанный фон', kind: 'scope' },
+];
+
+/**
+ * Краткое описание переопределений для подсказки в сетке
+ */
+export function describeOverrides(overrides: ProcessingOverrides): string[] {
+  return OVERRIDE_FIELDS
+    .filter(field => field.key in overrides)
+    .map(field => {
+      const value = overrides[field.key];
+      if (field.kind === 'number') return `${field.label}: ${value}`;
+      if (field.kind === 'scope') return `${field.label}: ${value === 'connected' ? 'да' : 'нет'}`;
+      return `${field.label}: ${value ? 'да' : 'нет'}`;
+    });
+}
+
+interface OverridesEditorProps {
+  overrides?: ProcessingOverrides;
+  globals: ProcessingOptions; // Общие настройки - значения по умолчанию для новых переопределений
+  onChange: (overrides: ProcessingOverrides | undefined) => void;
+  disabled?: boolean;
+  pipelineActive?: boolean; // Включён свой конвейер - флаги постобработки недоступны
+}
+
+export function OverridesEditor({ overrides = {}, globals, onChange, disabled, pipelineActive }: OverridesEditorProps) {
+  // Пустой набор переопределений храним как undefined, чтобы файл не считался особым
+  const update = (next: ProcessingOverrides) => {
+    onChange(Object.keys(next).length > 0 ? next : undefined);
+  };
+
+  const toggle = (field: OverrideField, enabled: boolean) => {
+    const next = { ...overrides };
+    if (enabled) {
+      (next as Record<string, unknown>)[field.key] = globals[field.key] ?? (field.kind === 'number' ? field.min : field.kind === 'scope' ? 'global' : false);
+    } else {
+      delete next[field.key];
+    }
+    update(next);
+  };
+
+  const setValue = (key: OverrideField['key'], value: unknown) => {
+    update({ ...overrides, [key]: value });
+  };
+
+  return (
+    <div className="space-y-2">
+      {OVERRIDE_FIELDS.map(field => {
+        const enabled = field.key in overrides;
+        const value = enabled ? overrides[field.key] : globals[field.key];
+        const byPipeline = Boolean(field.postprocess && pipelineActive);
+        const locked = disabled || byPipeline;
+        return (
+          <div
+            key={field.key}
+            className={`flex items-center gap-3 text-sm ${byPipeline ? 'opacity-50' : ''}`}
+            title={byPipeline ? 'Не действует: шаги постобработки задаёт свой конвейер' : undefined}
+          >
+            <input
+              type="checkbox"
+              id={`override-${field.key}`}
+              checked={enabled}
+              onChange={(e) => toggle(field, e.target.checked)}
+              disabled={locked}
+              className="w-4 h-4 accent-blue-600"
+              title={byPipeline ? undefined : 'Своё значение для этого файла'}
+            />
+            <label htmlFor={`override-${field.key}`} className={`flex-1 ${enabled ? 'text-gray-300' : 'text-gray-500'}`}>
+              {field.label}
+            </label>
+            {field.kind === 'number' ? (
+              <input
+                type="number"
+                min={field.min}
+                max={field.max}
+                step={field.step}
+                value={Number(value ?? field.min)}
+                onChange={(e) => setValue(field.key, Math.min(field.max, Math.max(field.min, Number(e.target.value))))}
+                disabled={locked || !enabled}
+                className="w-20 px-2 py-1 bg-gray-800 border border-gray-700 rounded text-sm text-gray-300 disabled:opacity-50"
+              />
+            ) : field.kind === 'scope' ? (
+              <input
+                type="checkbox"
+                checked={value === 'connected'}
+                onChange={(e) => setValue(field.key, e.target.checked ? 'connected' : 'global')}
+                disabled={locked || !enabled}
+                className="w-4 h-4 accent-blue-600 disabled:opacity-50"
+              />
+            ) : (
+              <input
+                type="checkbox"
+                checked={Boolean(value)}
+                onChange={(e) => setValue(field.key, e.target.checked)}
+                disabled={locked || !enabled}
+                className="w-4 h-4 accent-blue-600 disabled:opacity-50"
+              />
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
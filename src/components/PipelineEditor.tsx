@@ -0,0 +1,181 @@
+import { useRef, useState } from 'react';
+import {
+  PIPELINE_STEPS,
+  createStep,
+  parsePipeline,
+  serializePipeline,
+  type PipelineStep,
+  type PipelineStepType,
+} from '@/core/pipeline';
+import { downloadBlob } from '@/utils/imageProcessor';
+import { Download, Upload, Trash2 } from './Icons';
+
+interface PipelineEditorProps {
+  steps: PipelineStep[];
+  onChange: (steps: PipelineStep[]) => void;
+  disabled?: boolean;
+}
+
+export function PipelineEditor({ steps, onChange, disabled }: PipelineEditorProps) {
+  const [importError, setImportError] = useState('');
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const moveStep = (index: number, delta: number) => {
+    const target = index + delta;
+    if (target < 0 || target >= steps.length) return;
+    const updated = [...steps];
+    [updated[index], updated[target]] = [updated[target], updated[index]];
+    onChange(updated);
+  };
+
+  const updateParam = (index: number, key: string, value: number | string | boolean) => {
+    const updated = [...steps];
+    updated[index] = { ...updated[index], [key]: value } as PipelineStep;
+    onChange(updated);
+  };
+
+  const exportPipeline = () => {
+    const blob = new Blob([serializePipeline(steps)], { type: 'application/json' });
+    downloadBlob(blob, 'pipeline.json');
+  };
+
+  const importPipeline = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      onChange(parsePipeline(await file.text()));
+      setImportError('');
+    } catch (error) {
+      setImportError(error instanceof Error ? error.message : 'Не удалось импортировать конвейер');
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      {steps.length === 0 && (
+        <div className="text-xs text-gray-500">Нет шагов - после удаления фона ничего не применяется</div>
+      )}
+
+      {steps.map((step, index) => {
+        const spec = PIPELINE_STEPS[step.type];
+        const values = step as Record<string, unknown>;
+        return (
+          <div key={index} className="flex flex-wrap items-center gap-3 bg-gray-800 border border-gray-700 rounded px-3 py-2">
+            <span className="text-xs text-gray-500 w-5">{index + 1}.</span>
+            <span className="text-sm text-gray-300 flex-1 min-w-[140px]">{spec.name}</span>
+
+            {spec.params.map(param => (
+              <label key={param.key} className="flex items-center gap-1 text-xs text-gray-400">
+                {param.label}
+                {param.kind === 'choice' ? (
+                  <select
+                    value={values[param.key] as string}
+                    onChange={(e) => updateParam(index, param.key, e.target.value)}
+                    disabled={disabled}
+                    className="px-2 py-1 bg-gray-900 border border-gray-700 rounded text-sm"
+                  >
+                    {param.choices.map(choice => (
+                      <option key={choice.value} value={choice.value}>{choice.label}</option>
+                    ))}
+                  </select>
+                ) : param.kind === 'flag' ? (
+                  <input
+                    type="checkbox"
+                    checked={values[param.key] as boolean}
+                    onChange={(e) => updateParam(index, param.key, e.target.checked)}
+                    disabled={disabled}
+                    className="w-4 h-4 accent-blue-600"
+                  />
+                ) : (
+                  <input
+                    type="number"
+                    min={param.min}
+                    max={param.max}
+                    value={values[param.key] as number}
+                    onChange={(e) => updateParam(
+                      index,
+                      param.key,
+                      Math.min(param.max, Math.max(param.min, Number(e.target.value)))
+                    )}
+                    disabled={disabled}
+                    className="w-16 px-2 py-1 bg-gray-900 border border-gray-700 rounded text-sm"
+                  />
+                )}
+              </label>
+            ))}
+
+            <div className="flex gap-1">
+              <button
+                onClick={() => moveStep(index, -1)}
+                disabled={disabled || index === 0}
+                className="px-2 py-1 text-xs bg-gray-700 hover:bg-gray-600 disabled:opacity-40 rounded"
+                title="Выше"
+              >
+                ↑
+              </button>
+              <button
+                onClick={() => moveStep(index, 1)}
+                disabled={disabled || index === steps.length - 1}
+                className="px-2 py-1 text-xs bg-gray-700 hover:bg-gray-600 disabled:opacity-40 rounded"
+                title="Ниже"
+              >
+                ↓
+              </button>
+              <button
+                onClick={() => onChange(steps.filter((_, i) => i !== index))}
+                disabled={disabled}
+                className="px-2 py-1 text-xs bg-gray-700 hover:bg-gray-600 disabled:opacity-40 rounded"
+                title="Удалить шаг"
+              >
+                <Trash2 size={12} />
+              </button>
+            </div>
+          </div>
+        );
+      })}
+
+      <div className="flex flex-wrap gap-2 pt-1">
+        <select
+          value=""
+          onChange={(e) => {
+            if (e.target.value) onChange([...steps, createStep(e.target.value as PipelineStepType)]);
+          }}
+          disabled={disabled}
+          className="flex-1 min-w-[180px] px-3 py-2 bg-gray-800 border border-gray-700 rounded text-sm text-gray-300 focus:outline-none focus:border-blue-500"
+        >
+          <option value="">+ Добавить шаг</option>
+          {(Object.keys(PIPELINE_STEPS) as PipelineStepType[]).map(type => (
+            <option key={type} value={type}>{PIPELINE_STEPS[type].name}</option>
+          ))}
+        </select>
+
+        <input
+          type="file"
+          ref={importInputRef}
+          accept="application/json,.json"
+          onChange={importPipeline}
+          className="hidden"
+        />
+        <button
+          onClick={() => importInputRef.current?.click()}
+          disabled={disabled}
+          className="px-3 py-2 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 rounded text-sm flex items-center gap-2"
+        >
+          <Upload size={14} />
+          Импорт
+        </button>
+        <button
+          onClick={exportPipeline}
+          className="px-3 py-2 bg-gray-700 hover:bg-gray-600 rounded text-sm flex items-center gap-2"
+        >
+          <Download size={14} />
+          Экспорт
+        </button>
+      </div>
+
+      {importError && <div className="text-xs text-red-500">{importError}</div>}
+    </div>
+  );
+}
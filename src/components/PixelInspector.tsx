@@ -0,0 +1,248 @@
+import { useEffect, useRef, useState } from 'react';
+import { warpReference, type ReferenceAlignment } from '@/core/alignment';
+import type { CropRect } from '@/core/trim';
+import { loadImageData } from '@/utils/backgroundRemoval';
+
+const ZOOM_LEVELS = [1, 2, 4, 8, 16, 32];
+
+const CHECKERBOARD = 'repeating-conic-gradient(#374151 0% 25%, #1f2937 0% 50%) 0 0 / 16px 16px';
+
+type Backdrop = 'checkerboard' | 'black' | 'white' | 'custom';
+
+const BACKDROPS: Array<{ id: Backdrop; name: string }> = [
+  { id: 'checkerboard', name: 'Шахматка' },
+  { id: 'black', name: 'Чёрный' },
+  { id: 'white', name: 'Белый' },
+  { id: 'custom', name: 'Свой' },
+];
+
+interface PixelInspectorProps {
+  original: Blob;
+  result?: Blob;
+  resultCrop?: CropRect; // Если результат обрезан - где он стоит на холсте оригинала
+  reference?: Blob; // Эталон, который вычитался из этой иконки
+  alignment?: ReferenceAlignment;
+  onClose: () => void;
+}
+
+interface InspectorImages {
+  original: ImageData;
+  result: ImageData | null;
+  reference: ImageData | null; // Уже совмещённый с иконкой, в её координатах
+}
+
+type Rgba = [number, number, number, number];
+
+function pixelAt(image: ImageData, x: number, y: number): Rgba | null {
+  if (x < 0 || y < 0 || x >= image.width || y >= image.height) return null;
+  const i = (y * image.width + x) * 4;
+  return [image.data[i], image.data[i + 1], image.data[i + 2], image.data[i + 3]];
+}
+
+/**
+ * Сравнение «до/после» с перетаскиваемой границей, увеличением без сглаживания
+ * и значениями RGBA оригинала, эталона и результата под курсором
+ */
+export function PixelInspector({ original, result, resultCrop, reference, alignment, onClose }: PixelInspectorProps) {
+  const [images, setImages] = useState<InspectorImages | null>(null);
+  const [loadError, setLoadError] = useState('');
+  const [zoom, setZoom] = useState(1);
+  const [split, setSplit] = useState(50); // Граница в процентах ширины: слева оригинал, справа результат
+  const [backdrop, setBackdrop] = useState<Backdrop>('checkerboard');
+  const [customColor, setCustomColor] = useState('#ff00ff');
+  const [hover, setHover] = useState<{ x: number; y: number } | null>(null);
+
+  const stageRef = useRef<HTMLDivElement>(null);
+  const originalCanvasRef = useRef<HTMLCanvasElement>(null);
+  const resultCanvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      const originalData = await loadImageData(original);
+      const resultData = result ? await loadImageData(result) : null;
+      let referenceData: ImageData | null = null;
+      if (reference) {
+        const raw = await loadImageData(reference);
+        const warped = warpReference(
+          raw,
+          alignment ?? { offsetX: 0, offsetY: 0, scale: 1, residual: 0 },
+          originalData.width,
+          originalData.height
+        );
+        referenceData = new ImageData(new Uint8ClampedArray(warped.data), warped.width, warped.height);
+      }
+      if (!cancelled) setImages({ original: originalData, result: resultData, reference: referenceData });
+    })().catch(error => {
+      if (!cancelled) setLoadError(error instanceof Error ? error.message : 'Не удалось загрузить изображения');
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [original, result, reference, alignment]);
+
+  useEffect(() => {
+    if (!images) return;
+    originalCanvasRef.current?.getContext('2d')?.putImageData(images.original, 0, 0);
+    if (images.result) resultCanvasRef.current?.getContext('2d')?.putImageData(images.result, 0, 0);
+  }, [images]);
+
+  if (loadError) {
+    return (
+      <div className="py-12 text-center space-y-3">
+        <div className="text-red-400 text-sm">{loadError}</div>
+        <button onClick={onClose} className="px-3 py-1 bg-gray-700 hover:bg-gray-600 rounded text-xs">Назад</button>
+      </div>
+    );
+  }
+  if (!images) return <div className="text-gray-600 text-center py-12">Загрузка...</div>;
+
+  const { width, height } = images.original;
+  const crop = resultCrop ?? { x: 0, y: 0, width: images.result?.width ?? width, height: images.result?.height ?? height };
+
+  const stagePoint = (clientX: number, clientY: number) => {
+    const rect = stageRef.current!.getBoundingClientRect();
+    return { x: (clientX - rect.left) / rect.width, y: (clientY - rect.top) / rect.height };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const point = stagePoint(e.clientX, e.clientY);
+    if (e.currentTarget.hasPointerCapture(e.pointerId)) {
+      setSplit(Math.min(100, Math.max(0, point.x * 100)));
+    }
+    setHover({ x: Math.floor(point.x * width), y: Math.floor(point.y * height) });
+  };
+
+  // Граница перетаскивается за любую точку изображения - так удобнее при сильном увеличении
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setSplit(Math.min(100, Math.max(0, stagePoint(e.clientX, e.clientY).x * 100)));
+  };
+
+  const backdropStyle = backdrop === 'checkerboard'
+    ? CHECKERBOARD
+    : backdrop === 'black' ? '#000000' : backdrop === 'white' ? '#ffffff' : customColor;
+
+  const readouts: Array<{ label: string; value: Rgba | null }> = hover
+    ? [
+        { label: 'Оригинал', value: pixelAt(images.original, hover.x, hover.y) },
+        ...(images.reference ? [{ label: 'Эталон', value: pixelAt(images.reference, hover.x, hover.y) }] : []),
+        // За рамкой обрезки результат прозрачный
+        ...(images.result
+          ? [{ label: 'Результат', value: pixelAt(images.result, hover.x - crop.x, hover.y - crop.y) ?? [0, 0, 0, 0] as Rgba }]
+          : []),
+      ]
+    : [];
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="flex items-center gap-1">
+          {ZOOM_LEVELS.map(level => (
+            <button
+              key={level}
+              onClick={() => setZoom(level)}
+              className={`px-2 py-1 rounded text-xs transition ${zoom === level ? 'bg-blue-600 text-white' : 'bg-gray-800 hover:bg-gray-700 text-gray-400'}`}
+            >
+              {level}×
+            </button>
+          ))}
+        </div>
+
+        <div className="flex items-center gap-1 ml-2">
+          {BACKDROPS.map(item => (
+            <button
+              key={item.id}
+              onClick={() => setBackdrop(item.id)}
+              className={`px-2 py-1 rounded text-xs transition ${backdrop === item.id ? 'bg-blue-600 text-white' : 'bg-gray-800 hover:bg-gray-700 text-gray-400'}`}
+            >
+              {item.name}
+            </button>
+          ))}
+          {backdrop === 'custom' && (
+            <input
+              type="color"
+              value={customColor}
+              onChange={(e) => setCustomColor(e.target.value)}
+              className="w-7 h-7 bg-transparent border border-gray-700 rounded cursor-pointer"
+            />
+          )}
+        </div>
+
+        <div className="ml-auto flex items-center gap-3">
+          {images.result && <span className="text-xs text-gray-500">Слева оригинал, справа результат - тяните границу</span>}
+          <button onClick={onClose} className="px-3 py-1 bg-gray-700 hover:bg-gray-600 rounded text-xs">
+            Назад
+          </button>
+        </div>
+      </div>
+
+      <div className="bg-gray-800 rounded-lg p-4 overflow-auto max-h-[60vh]">
+        <div
+          ref={stageRef}
+          onPointerDown={images.result ? handlePointerDown : undefined}
+          onPointerMove={handlePointerMove}
+          onPointerUp={(e) => e.currentTarget.releasePointerCapture(e.pointerId)}
+          onPointerLeave={() => setHover(null)}
+          className="relative mx-auto overflow-hidden touch-none cursor-crosshair"
+          style={{ width: width * zoom, height: height * zoom, background: backdropStyle }}
+        >
+          <canvas
+            ref={originalCanvasRef}
+            width={width}
+            height={height}
+            className="absolute inset-0 w-full h-full"
+            style={{ imageRendering: 'pixelated' }}
+          />
+          {images.result && (
+            <>
+              {/* Результат рисуем поверх своего фона, чтобы оригинал не просвечивал сквозь прозрачные пиксели */}
+              <div
+                className="absolute inset-0"
+                style={{ background: backdropStyle, clipPath: `inset(0 0 0 ${split}%)` }}
+              >
+                <canvas
+                  ref={resultCanvasRef}
+                  width={images.result.width}
+                  height={images.result.height}
+                  className="absolute"
+                  style={{
+                    imageRendering: 'pixelated',
+                    left: `${(crop.x / width) * 100}%`,
+                    top: `${(crop.y / height) * 100}%`,
+                    width: `${(crop.width / width) * 100}%`,
+                    height: `${(crop.height / height) * 100}%`,
+                  }}
+                />
+              </div>
+              <div
+                className="absolute top-0 bottom-0 w-0.5 bg-blue-500 pointer-events-none"
+                style={{ left: `${split}%` }}
+              />
+            </>
+          )}
+        </div>
+      </div>
+
+      <div className="min-h-[3.5rem] text-xs text-gray-400 font-mono">
+        {hover && readouts.length > 0 ? (
+          <div className="flex flex-wrap gap-x-6 gap-y-1">
+            <div className="text-gray-500">x {hover.x}, y {hover.y}</div>
+            {readouts.map(({ label, value }) => (
+              <div key={label} className="flex items-center gap-2">
+                <span
+                  className="inline-block w-3 h-3 border border-gray-600 rounded-sm"
+                  style={{ background: value ? `rgba(${value[0]}, ${value[1]}, ${value[2]}, ${value[3] / 255})` : 'transparent' }}
+                />
+                <span className="text-gray-500">{label}</span>
+                {value ? `${value[0]} ${value[1]} ${value[2]} α${value[3]}` : '—'}
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="text-gray-600">Наведите курсор, чтобы увидеть RGBA пикселя</div>
+        )}
+      </div>
+    </div>
+  );
+}
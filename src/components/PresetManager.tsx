@@ -0,0 +1,180 @@
+import { useRef, useState } from 'react';
+import { parsePresets, serializePresets, type UserPreset } from '@/core/presets';
+import { downloadBlob } from '@/utils/imageProcessor';
+import { Download, Upload, Trash2 } from './Icons';
+
+interface PresetManagerProps {
+  presets: UserPreset[];
+  onChange: (presets: UserPreset[]) => void;
+  onApply: (preset: UserPreset) => void;
+  onSaveCurrent: (name: string) => void;
+  disabled?: boolean;
+}
+
+export function PresetManager({ presets, onChange, onApply, onSaveCurrent, disabled }: PresetManagerProps) {
+  const [newName, setNewName] = useState('');
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const [importError, setImportError] = useState('');
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const movePreset = (index: number, delta: number) => {
+    const target = index + delta;
+    if (target < 0 || target >= presets.length) return;
+    const updated = [...presets];
+    [updated[index], updated[target]] = [updated[target], updated[index]];
+    onChange(updated);
+  };
+
+  const saveCurrent = () => {
+    const name = newName.trim();
+    if (!name) return;
+    onSaveCurrent(name);
+    setNewName('');
+  };
+
+  const finishRename = () => {
+    const name = renameValue.trim();
+    if (renamingId && name) {
+      onChange(presets.map(p => (p.id === renamingId ? { ...p, name } : p)));
+    }
+    setRenamingId(null);
+  };
+
+  const exportPresets = () => {
+    const blob = new Blob([serializePresets(presets)], { type: 'application/json' });
+    downloadBlob(blob, 'presets.json');
+  };
+
+  // Пресет с тем же именем заменяется, новые добавляются в конец
+  const importPresets = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const imported = parsePresets(await file.text(), () => crypto.randomUUID());
+      const byName = new Map(imported.map(p => [p.name, p]));
+      const updated = presets.map(p => {
+        const replacement = byName.get(p.name);
+        if (!replacement) return p;
+        byName.delete(p.name);
+        return { ...p, settings: replacement.settings };
+      });
+      onChange([...updated, ...byName.values()]);
+      setImportError('');
+    } catch (error) {
+      setImportError(error instanceof Error ? error.message : 'Не удалось импортировать пресеты');
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      {presets.map((preset, index) => (
+        <div key={preset.id} className="flex items-center gap-2 bg-gray-800 border border-gray-700 rounded px-3 py-2">
+          {renamingId === preset.id ? (
+            <input
+              type="text"
+              value={renameValue}
+              onChange={(e) => setRenameValue(e.target.value)}
+              onBlur={finishRename}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') finishRename();
+                if (e.key === 'Escape') setRenamingId(null);
+              }}
+              autoFocus
+              className="flex-1 px-2 py-1 bg-gray-900 border border-gray-700 rounded text-sm text-gray-300 focus:outline-none focus:border-blue-500"
+            />
+          ) : (
+            <button
+              onClick={() => onApply(preset)}
+              disabled={disabled}
+              className="flex-1 text-left text-sm text-gray-300 hover:text-white disabled:opacity-50 truncate"
+              title="Применить пресет"
+            >
+              {preset.name}
+            </button>
+          )}
+
+          <div className="flex gap-1">
+            <button
+              onClick={() => {
+                setRenamingId(preset.id);
+                setRenameValue(preset.name);
+              }}
+              className="px-2 py-1 text-xs bg-gray-700 hover:bg-gray-600 rounded"
+              title="Переименовать"
+            >
+              ✎
+            </button>
+            <button
+              onClick={() => movePreset(index, -1)}
+              disabled={index === 0}
+              className="px-2 py-1 text-xs bg-gray-700 hover:bg-gray-600 disabled:opacity-40 rounded"
+              title="Выше"
+            >
+              ↑
+            </button>
+            <button
+              onClick={() => movePreset(index, 1)}
+              disabled={index === presets.length - 1}
+              className="px-2 py-1 text-xs bg-gray-700 hover:bg-gray-600 disabled:opacity-40 rounded"
+              title="Ниже"
+            >
+              ↓
+            </button>
+            <button
+              onClick={() => onChange(presets.filter(p => p.id !== preset.id))}
+              className="px-2 py-1 text-xs bg-gray-700 hover:bg-gray-600 rounded"
+              title="Удалить пресет"
+            >
+              <Trash2 size={12} />
+            </button>
+          </div>
+        </div>
+      ))}
+
+      <div className="flex flex-wrap gap-2 pt-1">
+        <input
+          type="text"
+          placeholder="Название пресета"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && saveCurrent()}
+          className="flex-1 min-w-[180px] px-3 py-2 bg-gray-800 border border-gray-700 rounded text-sm text-gray-300 placeholder-gray-600 focus:outline-none focus:border-blue-500"
+        />
+        <button
+          onClick={saveCurrent}
+          disabled={!newName.trim()}
+          className="px-3 py-2 bg-blue-600 hover:bg-blue-500 disabled:opacity-50 rounded text-sm"
+        >
+          Сохранить текущие
+        </button>
+        <button
+          onClick={exportPresets}
+          disabled={presets.length === 0}
+          className="px-3 py-2 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 rounded text-sm flex items-center gap-1.5"
+        >
+          <Download size={14} />
+          Экспорт
+        </button>
+        <input
+          type="file"
+          ref={importInputRef}
+          accept="application/json,.json"
+          onChange={importPresets}
+          className="hidden"
+        />
+        <button
+          onClick={() => importInputRef.current?.click()}
+          className="px-3 py-2 bg-gray-700 hover:bg-gray-600 rounded text-sm flex items-center gap-1.5"
+        >
+          <Upload size={14} />
+          Импорт
+        </button>
+      </div>
+
+      {importError && <div className="text-xs text-red-400">{importError}</div>}
+    </div>
+  );
+}
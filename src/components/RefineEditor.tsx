@@ -0,0 +1,296 @@
+import { useEffect, useRef, useState } from 'react';
+import type { CropRect } from '@/core/trim';
+import {
+  TRIMAP_KEEP,
+  TRIMAP_REMOVE,
+  TRIMAP_UNKNOWN,
+  cloneTrimap,
+  createTrimap,
+  isTrimapEmpty,
+  paintTrimap,
+  type Trimap,
+  type TrimapValue,
+} from '@/core/trimap';
+
+type BrushMode = 'keep' | 'remove' | 'erase';
+
+const BRUSH_VALUES: Record<BrushMode, TrimapValue> = {
+  keep: TRIMAP_KEEP,
+  remove: TRIMAP_REMOVE,
+  erase: TRIMAP_UNKNOWN,
+};
+
+const ZOOM_LEVELS = [0.5, 1, 2, 4, 8];
+
+const CHECKERBOARD = 'repeating-conic-gradient(#374151 0% 25%, #1f2937 0% 50%) 0 0 / 16px 16px';
+
+interface RefineEditorProps {
+  originalSrc: string;
+  resultSrc?: string;
+  resultCrop?: CropRect; // Если результат обрезан - где он стоит на холсте оригинала
+  trimap?: Trimap;
+  onApply: (trimap: Trimap | undefined) => void;
+  onCancel: () => void;
+  disabled?: boolean;
+}
+
+/**
+ * Перерисовывает прямоугольник слоя мазков по данным тримапа
+ */
+function renderOverlay(ctx: CanvasRenderingContext2D, trimap: Trimap, x0: number, y0: number, x1: number, y1: number) {
+  const left = Math.max(0, Math.floor(x0));
+  const top = Math.max(0, Math.floor(y0));
+  const right = Math.min(trimap.width, Math.ceil(x1));
+  const bottom = Math.min(trimap.height, Math.ceil(y1));
+  if (right <= left || bottom <= top) return;
+
+  const patch = ctx.createImageData(right - left, bottom - top);
+  for (let y = top; y < bottom; y++) {
+    for (let x = left; x < right; x++) {
+      const value = trimap.data[y * trimap.width + x];
+      const i = ((y - top) * patch.width + (x - left)) * 4;
+      if (value === TRIMAP_KEEP) {
+        patch.data[i] = 34;
+        patch.data[i + 1] = 197;
+        patch.data[i + 2] = 94;
+        patch.data[i + 3] = 140;
+      } else if (value === TRIMAP_REMOVE) {
+        patch.data[i] = 239;
+        patch.data[i + 1] = 68;
+        patch.data[i + 2] = 68;
+        patch.data[i + 3] = 140;
+      }
+    }
+  }
+  ctx.putImageData(patch, left, top);
+}
+
+export function RefineEditor({ originalSrc, resultSrc, resultCrop, trimap, onApply, onCancel, disabled }: RefineEditorProps) {
+  const [size, setSize] = useState<{ width: number; height: number } | null>(null);
+  const [brush, setBrush] = useState<BrushMode>('keep');
+  const [brushSize, setBrushSize] = useState(12);
+  const [zoom, setZoom] = useState(1);
+  const [showOriginal, setShowOriginal] = useState(!resultSrc);
+  const [isDirty, setIsDirty] = useState(false);
+
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const trimapRef = useRef<Trimap | null>(null);
+  const lastPointRef = useRef<{ x: number; y: number } | null>(null);
+
+  // Размер берём из оригинала: тримап должен совпадать с ним попиксельно
+  useEffect(() => {
+    const img = new Image();
+    img.onload = () => setSize({ width: img.naturalWidth, height: img.naturalHeight });
+    img.src = originalSrc;
+  }, [originalSrc]);
+
+  useEffect(() => {
+    if (!size) return;
+    trimapRef.current = trimap && trimap.width === size.width && trimap.height === size.height
+      ? cloneTrimap(trimap)
+      : createTrimap(size.width, size.height);
+
+    const ctx = canvasRef.current?.getContext('2d');
+    if (ctx) {
+      ctx.clearRect(0, 0, size.width, size.height);
+      renderOverlay(ctx, trimapRef.current, 0, 0, size.width, size.height);
+    }
+    setIsDirty(false);
+  }, [size, trimap]);
+
+  const toImagePoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * e.currentTarget.width,
+      y: ((e.clientY - rect.top) / rect.height) * e.currentTarget.height,
+    };
+  };
+
+  // Штампуем кисть вдоль отрезка, чтобы при быстром движении не было разрывов
+  const strokeTo = (to: { x: number; y: number }) => {
+    const current = trimapRef.current;
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!current || !ctx) return;
+
+    const from = lastPointRef.current ?? to;
+    const radius = brushSize / 2;
+    const distance = Math.hypot(to.x - from.x, to.y - from.y);
+    const steps = Math.max(1, Math.ceil(distance / Math.max(1, radius / 2)));
+
+    for (let s = 0; s <= steps; s++) {
+      const t = s / steps;
+      paintTrimap(current, from.x + (to.x - from.x) * t, from.y + (to.y - from.y) * t, radius, BRUSH_VALUES[brush]);
+    }
+
+    ctx.clearRect(
+      Math.min(from.x, to.x) - radius - 1,
+      Math.min(from.y, to.y) - radius - 1,
+      Math.abs(to.x - from.x) + brushSize + 2,
+      Math.abs(to.y - from.y) + brushSize + 2
+    );
+    renderOverlay(
+      ctx,
+      current,
+      Math.min(from.x, to.x) - radius - 1,
+      Math.min(from.y, to.y) - radius - 1,
+      Math.max(from.x, to.x) + radius + 1,
+      Math.max(from.y, to.y) + radius + 1
+    );
+
+    lastPointRef.current = to;
+    setIsDirty(true);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (disabled) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    lastPointRef.current = null;
+    strokeTo(toImagePoint(e));
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!e.currentTarget.hasPointerCapture(e.pointerId)) return;
+    strokeTo(toImagePoint(e));
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.releasePointerCapture(e.pointerId);
+    lastPointRef.current = null;
+  };
+
+  const clearStrokes = () => {
+    const current = trimapRef.current;
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!current || !ctx) return;
+    current.data.fill(TRIMAP_UNKNOWN);
+    ctx.clearRect(0, 0, current.width, current.height);
+    setIsDirty(true);
+  };
+
+  // Обрезанный результат ставим на его место поверх холста оригинала
+  const showResult = !showOriginal && !!resultSrc;
+  const resultPlacement = showResult && resultCrop && size
+    ? {
+        left: `${(resultCrop.x / size.width) * 100}%`,
+        top: `${(resultCrop.y / size.height) * 100}%`,
+        width: `${(resultCrop.width / size.width) * 100}%`,
+        height: `${(resultCrop.height / size.height) * 100}%`,
+      }
+    : null;
+
+  const applyStrokes = () => {
+    const current = trimapRef.current;
+    if (!current) return;
+    onApply(isTrimapEmpty(current) ? undefined : cloneTrimap(current));
+  };
+
+  const brushButton = (mode: BrushMode, label: string, activeClass: string) => (
+    <button
+      onClick={() => setBrush(mode)}
+      className={`px-3 py-1.5 rounded text-sm transition ${brush === mode ? activeClass : 'bg-gray-800 hover:bg-gray-700 text-gray-300'}`}
+    >
+      {label}
+    </button>
+  );
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        {brushButton('keep', 'Оставить', 'bg-green-600 text-white')}
+        {brushButton('remove', 'Удалить', 'bg-red-600 text-white')}
+        {brushButton('erase', 'Ластик', 'bg-gray-600 text-white')}
+
+        <label className="flex items-center gap-2 text-xs text-gray-400 ml-2">
+          Кисть: {brushSize}px
+          <input
+            type="range"
+            min="1"
+            max="64"
+            value={brushSize}
+            onChange={(e) => setBrushSize(Number(e.target.value))}
+            className="w-24"
+          />
+        </label>
+
+        <div className="flex items-center gap-1 ml-2">
+          {ZOOM_LEVELS.map(level => (
+            <button
+              key={level}
+              onClick={() => setZoom(level)}
+              className={`px-2 py-1 rounded text-xs transition ${zoom === level ? 'bg-blue-600 text-white' : 'bg-gray-800 hover:bg-gray-700 text-gray-400'}`}
+            >
+              {level}×
+            </button>
+          ))}
+        </div>
+
+        {resultSrc && (
+          <label className="flex items-center gap-2 text-xs text-gray-400 ml-auto cursor-pointer">
+            <input
+              type="checkbox"
+              checked={showOriginal}
+              onChange={(e) => setShowOriginal(e.target.checked)}
+            />
+            Показать оригинал
+          </label>
+        )}
+      </div>
+
+      <div className="bg-gray-800 rounded-lg p-4 overflow-auto max-h-[60vh]">
+        {size ? (
+          <div
+            className="relative mx-auto overflow-hidden"
+            style={{ width: size.width * zoom, height: size.height * zoom, background: CHECKERBOARD }}
+          >
+            <img
+              src={showResult ? resultSrc : originalSrc}
+              alt="Refine"
+              draggable={false}
+              className={`absolute select-none ${resultPlacement ? '' : 'inset-0 w-full h-full'}`}
+              style={{ imageRendering: 'pixelated', ...resultPlacement }}
+            />
+            <canvas
+              ref={canvasRef}
+              width={size.width}
+              height={size.height}
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              className="absolute inset-0 w-full h-full cursor-crosshair touch-none"
+              style={{ imageRendering: 'pixelated' }}
+            />
+          </div>
+        ) : (
+          <div className="text-gray-600 text-center py-12">Загрузка...</div>
+        )}
+      </div>
+
+      <div className="text-xs text-gray-500">
+        Зелёные мазки всегда остаются в иконке, красные всегда удаляются. Постобработка идёт уже по исправленной маске.
+      </div>
+
+      <div className="flex gap-3">
+        <button
+          onClick={applyStrokes}
+          disabled={disabled || !size}
+          className="flex-1 px-4 py-2.5 bg-blue-600 hover:bg-blue-500 disabled:bg-gray-700 disabled:text-gray-500 rounded transition font-medium text-sm"
+        >
+          {isDirty ? 'Применить и переобработать' : 'Переобработать'}
+        </button>
+        <button
+          onClick={clearStrokes}
+          disabled={disabled}
+          className="px-4 py-2.5 bg-gray-700 hover:bg-gray-600 disabled:text-gray-500 rounded transition text-sm"
+        >
+          Очистить
+        </button>
+        <button
+          onClick={onCancel}
+          className="px-4 py-2.5 bg-gray-700 hover:bg-gray-600 rounded transition text-sm"
+        >
+          Назад
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { alignReference } from '@/core/alignment';
+import { createImage, type RgbaImage } from '@/core/image';
+
+const SIZE = 48;
+
+// Подложка с плавным градиентом и рамкой - как у типичной плашки
+function plate(): RgbaImage {
+  const image = createImage(SIZE, SIZE);
+  for (let y = 0; y < SIZE; y++) {
+    for (let x = 0; x < SIZE; x++) {
+      const frame = x === 6 || y === 6 || x === SIZE - 7 || y === SIZE - 7;
+      const shade = frame ? 230 : 40 + x * 2 + y;
+      image.data.set([shade, shade, shade, 255], (y * SIZE + x) * 4);
+    }
+  }
+  return image;
+}
+
+// Иконка на той же подложке, сдвинутой на (dx, dy)
+function iconOn(background: RgbaImage, dx: number, dy: number): RgbaImage {
+  const image = createImage(SIZE, SIZE);
+  for (let y = 0; y < SIZE; y++) {
+    for (let x = 0; x < SIZE; x++) {
+      const sx = Math.min(SIZE - 1, Math.max(0, x - dx));
+      const sy = Math.min(SIZE - 1, Math.max(0, y - dy));
+      const src = (sy * SIZE + sx) * 4;
+      image.data.set(background.data.subarray(src, src + 4), (y * SIZE + x) * 4);
+    }
+  }
+  for (let y = 18; y < 30; y++) {
+    for (let x = 18; x < 30; x++) image.data.set([250, 200, 20, 255], (y * SIZE + x) * 4);
+  }
+  return image;
+}
+
+describe('совмещение эталона', () => {
+  it('уже совмещённая подложка остаётся без сдвига', () => {
+    const reference = plate();
+    const alignment = alignReference(iconOn(reference, 0, 0), reference);
+
+    expect(alignment).toMatchObject({ offsetX: 0, offsetY: 0, scale: 1 });
+  });
+
+  it('небольшой сдвиг по-прежнему находится перебором', () => {
+    const reference = plate();
+
+    expect(alignReference(iconOn(reference, 1, 0), reference)).toMatchObject({ offsetX: 1, offsetY: 0 });
+    expect(alignReference(iconOn(reference, -3, 2), reference)).toMatchObject({ offsetX: -3, offsetY: 2 });
+  });
+});
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { fitBackgroundModel, predictBackground } from '@/core/backgroundModel';
+import { createImage, type RgbaImage } from '@/core/image';
+
+const SIZE = 32;
+
+const ramp = (x: number, y: number): [number, number, number] => [40 + 4 * x, 100 + 2 * y, 80];
+
+// Линейный градиент с иконкой в центре и её краем, заходящим на верхнюю рамку
+function gradientIcon(): RgbaImage {
+  const image = createImage(SIZE, SIZE);
+  for (let y = 0; y < SIZE; y++) {
+    for (let x = 0; x < SIZE; x++) {
+      const icon = (x >= 10 && x < 22 && y >= 10 && y < 22) || (x >= 14 && x < 18 && y < 10);
+      image.data.set([...(icon ? [255, 0, 0] : ramp(x, y)), 255], (y * SIZE + x) * 4);
+    }
+  }
+  return image;
+}
+
+describe('модель фона', () => {
+  it('линейная модель восстанавливает градиент по рамке, не считая иконку фоном', () => {
+    const model = fitBackgroundModel(gradientIcon(), 'linear');
+
+    for (const [x, y] of [[0, 0], [31, 31], [16, 16], [15, 0], [5, 27]]) {
+      const { r, g, b } = predictBackground(model, x, y);
+      const [er, eg, eb] = ramp(x, y);
+      expect(r).toBeCloseTo(er, 0);
+      expect(g).toBeCloseTo(eg, 0);
+      expect(b).toBeCloseTo(eb, 0);
+    }
+  });
+
+  it('однотонная модель градиент не описывает', () => {
+    const model = fitBackgroundModel(gradientIcon(), 'flat');
+
+    expect(Math.abs(predictBackground(model, 0, 0).r - ramp(0, 0)[0])).toBeGreaterThan(20);
+  });
+});
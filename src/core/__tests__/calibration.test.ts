@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { suggestThreshold } from '@/core/calibration';
+import { colorDistance, type ColorMetric } from '@/core/colorDistance';
+import { createImage, type RgbaImage } from '@/core/image';
+
+const SIZE = 32;
+
+// Подложка с мелкой текстурой, чтобы совмещение было однозначным
+function plate(base: [number, number, number]): RgbaImage {
+  const image = createImage(SIZE, SIZE);
+  for (let p = 0; p < SIZE * SIZE; p++) {
+    const shade = ((p % SIZE) * 7 + Math.floor(p / SIZE) * 13) % 9;
+    image.data.set([base[0] + shade, base[1] + shade, base[2] + shade, 255], p * 4);
+  }
+  return image;
+}
+
+function iconOn(background: RgbaImage): RgbaImage {
+  const image = createImage(SIZE, SIZE, new Uint8ClampedArray(background.data));
+  for (let y = 10; y < 22; y++) {
+    for (let x = 10; x < 22; x++) image.data.set([250, 200, 20, 255], (y * SIZE + x) * 4);
+  }
+  return image;
+}
+
+describe('подбор порога', () => {
+  it('каждая иконка сравнивается с лучше всего совпавшим эталоном', () => {
+    const blue = plate([30, 60, 160]);
+    const gray = plate([120, 120, 120]);
+    const icons = [iconOn(blue), iconOn(blue)];
+
+    const alone = suggestThreshold([blue], icons);
+    // Неподходящий эталон первым в списке не должен влиять на подбор
+    expect(suggestThreshold([gray, blue], icons)).toEqual(alone);
+    expect(suggestThreshold([gray], icons).threshold).not.toBe(alone.threshold);
+  });
+
+  it('уровень шума переводится в единицы выбранной метрики', () => {
+    // Столбцы чередуют два тёмных цвета: разница соседей везде одинаковая
+    const a = [20, 20, 40] as const;
+    const b = [30, 30, 40] as const;
+    const striped = createImage(SIZE, SIZE);
+    for (let p = 0; p < SIZE * SIZE; p++) striped.data.set([...(p % 2 ? b : a), 255], p * 4);
+
+    for (const [metric, scale] of [['rgb-max', 2.55], ['cie76', 1], ['ciede2000', 1]] as Array<[ColorMetric, number]>) {
+      const sigma = (colorDistance(metric, ...a, ...b) * 1.4826) / Math.SQRT2;
+      // Без иконок порог - это уровень шума эталона (3σ)
+      expect(suggestThreshold([striped], [], metric).threshold).toBe(Math.max(1, Math.ceil((3 * sigma) / scale)));
+    }
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import {
+  colorDistance,
+  deltaE2000,
+  deltaE76,
+  metricThresholdScale,
+  rgbToLab,
+  type ColorMetric,
+  type Lab,
+} from '@/core/colorDistance';
+import { createImage } from '@/core/image';
+import { removeByColor } from '@/core/removal';
+
+const lab = (l: number, a: number, b: number): Lab => ({ l, a, b });
+
+// Пары и ΔE00 из таблицы Sharma, Wu, Dalal (2005), «The CIEDE2000 color-difference formula»
+const SHARMA_PAIRS: Array<[Lab, Lab, number]> = [
+  [lab(50, 2.6772, -79.7751), lab(50, 0, -82.7485), 2.0425],
+  [lab(50, 3.1571, -77.2803), lab(50, 0, -82.7485), 2.8615],
+  [lab(50, 2.8361, -74.02), lab(50, 0, -82.7485), 3.4412],
+  [lab(50, -1.3802, -84.2814), lab(50, 0, -82.7485), 1.0],
+  [lab(50, -1.1848, -84.8006), lab(50, 0, -82.7485), 1.0],
+  [lab(50, -0.9009, -85.5211), lab(50, 0, -82.7485), 1.0],
+  [lab(50, 0, 0), lab(50, -1, 2), 2.3669],
+  [lab(50, -1, 2), lab(50, 0, 0), 2.3669],
+  [lab(50, 2.49, -0.001), lab(50, -2.49, 0.0009), 7.1792],
+  [lab(50, 2.49, -0.001), lab(50, -2.49, 0.001), 7.1792],
+  [lab(50, 2.49, -0.001), lab(50, -2.49, 0.0011), 7.2195],
+  [lab(50, 2.49, -0.001), lab(50, -2.49, 0.0012), 7.2195],
+  [lab(50, -0.001, 2.49), lab(50, 0.0009, -2.49), 4.8045],
+  [lab(50, -0.001, 2.49), lab(50, 0.001, -2.49), 4.8045],
+  [lab(50, -0.001, 2.49), lab(50, 0.0011, -2.49), 4.7461],
+  [lab(50, 2.5, 0), lab(50, 0, -2.5), 4.3065],
+  [lab(50, 2.5, 0), lab(73, 25, -18), 27.1492],
+  [lab(50, 2.5, 0), lab(61, -5, 29), 22.8977],
+  [lab(50, 2.5, 0), lab(56, -27, -3), 31.903],
+  [lab(50, 2.5, 0), lab(58, 24, 15), 19.4535],
+  [lab(50, 2.5, 0), lab(50, 3.1736, 0.5854), 1.0],
+  [lab(50, 2.5, 0), lab(50, 3.2972, 0), 1.0],
+  [lab(50, 2.5, 0), lab(50, 1.8634, 0.5757), 1.0],
+  [lab(50, 2.5, 0), lab(50, 3.2592, 0.335), 1.0],
+  [lab(60.2574, -34.0099, 36.2677), lab(60.4626, -34.1751, 39.4387), 1.2644],
+  [lab(63.0109, -31.0961, -5.8663), lab(62.8187, -29.7946, -4.0864), 1.263],
+  [lab(61.2901, 3.7196, -5.3901), lab(61.4292, 2.248, -4.962), 1.8731],
+  [lab(35.0831, -44.1164, 3.7933), lab(35.0232, -40.0716, 1.5901), 1.8645],
+  [lab(22.7233, 20.0904, -46.694), lab(23.0331, 14.973, -42.5619), 2.0373],
+  [lab(36.4612, 47.858, 18.3852), lab(36.2715, 50.5065, 21.2231), 1.4146],
+  [lab(90.8027, -2.0831, 1.441), lab(91.1528, -1.6435, 0.0447), 1.4441],
+  [lab(90.9257, -0.5406, -0.9208), lab(88.6381, -0.8985, -0.7239), 1.5381],
+  [lab(6.7747, -0.2908, -2.4247), lab(5.8714, -0.0985, -2.2286), 0.6377],
+  [lab(2.0776, 0.0795, -1.135), lab(0.9033, -0.0636, -0.5514), 0.9082],
+];
+
+describe('цветовые метрики', () => {
+  it('CIEDE2000 совпадает с эталонными парами Sharma и симметрична', () => {
+    for (const [first, second, expected] of SHARMA_PAIRS) {
+      expect(deltaE2000(first, second)).toBeCloseTo(expected, 3);
+      expect(deltaE2000(second, first)).toBeCloseTo(expected, 3);
+    }
+  });
+
+  it('sRGB переводится в CIELAB с белой точкой D65', () => {
+    const white = rgbToLab(255, 255, 255);
+    expect(white.l).toBeCloseTo(100, 2);
+    expect(white.a).toBeCloseTo(0, 1);
+    expect(white.b).toBeCloseTo(0, 1);
+
+    expect(rgbToLab(0, 0, 0)).toEqual({ l: 0, a: 0, b: 0 });
+
+    const red = rgbToLab(255, 0, 0);
+    expect(red.l).toBeCloseTo(53.24, 1);
+    expect(red.a).toBeCloseTo(80.09, 1);
+    expect(red.b).toBeCloseTo(67.2, 1);
+  });
+
+  it('CIE76 - евклидово расстояние в Lab', () => {
+    expect(deltaE76(lab(50, 0, 0), lab(53, 4, 0))).toBe(5);
+    expect(colorDistance('cie76', 10, 20, 30, 10, 20, 30)).toBe(0);
+  });
+
+  it('порог слайдера: для RGB 100 - это 255, для ΔE порог равен ΔE', () => {
+    expect(metricThresholdScale('rgb-max')).toBe(2.55);
+    expect(metricThresholdScale('rgb-euclidean')).toBe(2.55);
+    expect(metricThresholdScale('cie76')).toBe(1);
+    expect(metricThresholdScale('ciede2000')).toBe(1);
+  });
+});
+
+describe('удаление по цвету', () => {
+  const background = { r: 100, g: 100, b: 100 };
+  const pixel = [130, 110, 100] as const;
+
+  const alphaAfter = (threshold: number, metric?: ColorMetric): number => {
+    const image = createImage(1, 1, new Uint8ClampedArray([...pixel, 255]));
+    removeByColor(image, background, threshold, metric);
+    return image.data[3];
+  };
+
+  it('порог переводится в единицы выбранной метрики', () => {
+    for (const metric of ['rgb-max', 'rgb-euclidean', 'cie76', 'ciede2000'] as ColorMetric[]) {
+      const distance = colorDistance(metric, ...pixel, 100, 100, 100) / metricThresholdScale(metric);
+      // Чуть выше расстояния - пиксель удалён, чуть ниже - остаётся
+      expect(alphaAfter(distance + 0.1, metric)).toBe(0);
+      expect(alphaAfter(distance - 0.1, metric)).toBe(255);
+    }
+  });
+
+  it('без метрики сравнивается средняя разница каналов, как раньше', () => {
+    // (30 + 10 + 0) / 3 = 13.33 в единицах 0-255, без перевода в единицы слайдера
+    expect(alphaAfter(14)).toBe(0);
+    expect(alphaAfter(13)).toBe(255);
+    // Явная RGB-метрика даёт другой результат: макс. канал 30 → 11.76 единиц слайдера
+    expect(alphaAfter(12)).toBe(255);
+    expect(alphaAfter(12, 'rgb-max')).toBe(0);
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { cleanupComponents, labelComponents } from '@/core/components';
+import { createImage, type RgbaImage } from '@/core/image';
+import { processImage } from '@/core/process';
+import { hardEdges } from './fixtures';
+
+const alphaAt = (image: RgbaImage, x: number, y: number) => image.data[(y * image.width + x) * 4 + 3];
+
+// Иконка с дыркой 2×2 внутри и точкой-мусором в углу
+function speckled(): RgbaImage {
+  const image = hardEdges();
+  for (const [x, y] of [[10, 18], [11, 18], [10, 19], [11, 19]]) image.data[(y * 32 + x) * 4 + 3] = 0;
+  image.data.set([250, 250, 250, 180], (2 * 32 + 2) * 4);
+  return image;
+}
+
+describe('связные области', () => {
+  it('разметка: 8-связность для иконки, 4-связность для дырок', () => {
+    // Две диагонально соседние точки
+    const mask = new Uint8Array([1, 0, 0, 1]);
+    expect(labelComponents(mask, 2, 2, 8).sizes).toEqual([2]);
+    expect(labelComponents(mask, 2, 2, 4).sizes).toEqual([1, 1]);
+  });
+
+  it('удаляет мелкие острова и не трогает крупные', () => {
+    const image = speckled();
+    cleanupComponents(image, { minIsland: 4, keepLargest: 0, maxHole: 0 });
+
+    expect(alphaAt(image, 2, 2)).toBe(0);
+    // Засечка из 3 пикселей тоже меньше порога
+    expect(alphaAt(image, 27, 14)).toBe(0);
+    expect(alphaAt(image, 8, 8)).toBe(255);
+  });
+
+  it('оставляет только K крупнейших областей', () => {
+    const image = speckled();
+    cleanupComponents(image, { minIsland: 0, keepLargest: 2, maxHole: 0 });
+
+    expect(alphaAt(image, 8, 8)).toBe(255);
+    expect(alphaAt(image, 27, 14)).toBe(255);
+    expect(alphaAt(image, 2, 2)).toBe(0);
+  });
+
+  it('заполняет замкнутые дырки цветом оригинала, фон у края не трогает', () => {
+    const original = hardEdges();
+    const image = speckled();
+    cleanupComponents(image, { minIsland: 0, keepLargest: 0, maxHole: 4 }, original);
+
+    expect(Array.from(image.data.subarray((18 * 32 + 10) * 4, (18 * 32 + 10) * 4 + 4))).toEqual([40, 90, 200, 255]);
+    expect(alphaAt(image, 0, 0)).toBe(0);
+    // Вырез сверху открыт наружу - это не дырка
+    expect(alphaAt(image, 15, 7)).toBe(0);
+  });
+
+  it('дырки больше лимита остаются', () => {
+    const image = speckled();
+    cleanupComponents(image, { minIsland: 0, keepLargest: 0, maxHole: 3 });
+    expect(alphaAt(image, 10, 18)).toBe(0);
+  });
+
+  it('без оригинала дырка берёт цвет соседей', () => {
+    const image = speckled();
+    cleanupComponents(image, { minIsland: 0, keepLargest: 0, maxHole: 4 });
+    expect(Array.from(image.data.subarray((19 * 32 + 11) * 4, (19 * 32 + 11) * 4 + 4))).toEqual([40, 90, 200, 255]);
+  });
+
+  it('processImage заполняет дырки из изображения до удаления фона', () => {
+    // Дырка цвета фона внутри иконки на чёрной подложке
+    const source = createImage(16, 16);
+    for (let i = 0; i < source.data.length; i += 4) source.data.set([0, 0, 0, 255], i);
+    for (let y = 4; y < 12; y++) {
+      for (let x = 4; x < 12; x++) source.data.set(x === 8 && y === 8 ? [0, 0, 0, 255] : [200, 50, 50, 255], (y * 16 + x) * 4);
+    }
+
+    const { image } = processImage(source, [], {
+      targetBackgroundColor: '#000000',
+      edgeSmoothing: false,
+      componentCleanup: { minIsland: 0, keepLargest: 0, maxHole: 1 },
+    });
+    expect(Array.from(image.data.subarray((8 * 16 + 8) * 4, (8 * 16 + 8) * 4 + 4))).toEqual([0, 0, 0, 255]);
+    expect(alphaAt(image, 0, 0)).toBe(0);
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { defringeEdges } from '@/core/defringe';
+import { createImage, type RgbaImage } from '@/core/image';
+import { defringeStep } from '@/core/pipeline';
+import { runPipeline } from '@/core/process';
+
+const ICON = [40, 90, 200];
+const PLATE = { r: 255, g: 255, b: 255 };
+
+const pixelAt = (image: RgbaImage, x: number, y: number) =>
+  Array.from(image.data.subarray((y * image.width + x) * 4, (y * image.width + x) * 4 + 4));
+
+// Синий квадрат 8×8 и полупрозрачный край в 1 px, наполовину смешанный с белой подложкой
+function fringed(): RgbaImage {
+  const image = createImage(16, 16);
+  for (let y = 3; y < 13; y++) {
+    for (let x = 3; x < 13; x++) {
+      const rim = x === 3 || y === 3 || x === 12 || y === 12;
+      const color = rim ? ICON.map(c => Math.round((c + 255) / 2)) : ICON;
+      image.data.set([...color, rim ? 128 : 255], (y * 16 + x) * 4);
+    }
+  }
+  return image;
+}
+
+describe('подавление каймы', () => {
+  it('interior: край получает цвет иконки, альфа не меняется', () => {
+    const image = fringed();
+    defringeEdges(image, { method: 'interior', strength: 1, rimWidth: 1 });
+
+    expect(pixelAt(image, 3, 8)).toEqual([...ICON, 128]);
+    expect(pixelAt(image, 3, 3)).toEqual([...ICON, 128]);
+    expect(pixelAt(image, 8, 8)).toEqual([...ICON, 255]);
+  });
+
+  it('plate: вычитает вклад подложки с учётом альфы', () => {
+    const image = fringed();
+    defringeEdges(image, { method: 'plate', strength: 1, rimWidth: 1 }, PLATE);
+
+    const [r, g, b, a] = pixelAt(image, 12, 8);
+    expect(a).toBe(128);
+    expect(Math.abs(r - ICON[0])).toBeLessThanOrEqual(2);
+    expect(Math.abs(g - ICON[1])).toBeLessThanOrEqual(2);
+    expect(Math.abs(b - ICON[2])).toBeLessThanOrEqual(2);
+  });
+
+  it('сила 0 ничего не меняет, 0.5 - половина пути', () => {
+    const untouched = fringed();
+    defringeEdges(untouched, { method: 'interior', strength: 0, rimWidth: 2 });
+    expect(Array.from(untouched.data)).toEqual(Array.from(fringed().data));
+
+    const half = fringed();
+    defringeEdges(half, { method: 'interior', strength: 0.5, rimWidth: 1 });
+    const before = pixelAt(fringed(), 3, 8);
+    const expected = ICON.map((c, i) => Math.round(before[i] + (c - before[i]) / 2));
+    expect(pixelAt(half, 3, 8)).toEqual([...expected, 128]);
+  });
+
+  it('plate без подложки работает как interior', () => {
+    const image = fringed();
+    defringeEdges(image, { method: 'plate', strength: 1, rimWidth: 1 });
+    expect(pixelAt(image, 3, 8)).toEqual([...ICON, 128]);
+  });
+
+  it('шаг конвейера берёт подложку из контекста', () => {
+    const step = defringeStep({ method: 'plate', strength: 1, rimWidth: 1 });
+    expect(step).toEqual({ type: 'defringe', method: 'plate', strength: 100, rimWidth: 1 });
+
+    const { image } = runPipeline(fringed(), [step], { background: { r: 0, g: 0, b: 0 } });
+    // С чёрной подложкой вычитать нечего - белёсый край только усиливается
+    expect(pixelAt(image, 3, 8)[0]).toBeGreaterThan(pixelAt(fringed(), 3, 8)[0]);
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import {
+  blurSharpenEdges,
+  gaussianEdges,
+  morphologicalEdges,
+  subpixelEdges,
+  supersampleEdges,
+} from '@/core/edgeLab';
+import type { RgbaImage } from '@/core/image';
+import { resizeImage } from '@/core/resample';
+import { FIXTURES } from './fixtures';
+import { expectGolden } from './golden';
+
+const CASES: Array<{ name: string; fixture: string; apply: (image: RgbaImage) => RgbaImage }> = [
+  { name: 'lab-supersample-4', fixture: 'hard-edges', apply: image => supersampleEdges(image, 4) },
+  { name: 'lab-supersample-4', fixture: 'aa-circle', apply: image => supersampleEdges(image, 4) },
+  { name: 'lab-gaussian-2x2', fixture: 'aa-circle', apply: image => gaussianEdges(image, 2, 2) },
+  { name: 'lab-gaussian-2x2', fixture: 'glass-rim', apply: image => gaussianEdges(image, 2, 2) },
+  { name: 'lab-morph-1-1', fixture: 'hard-edges', apply: image => morphologicalEdges(image, 1, 1) },
+  { name: 'lab-morph-2-1', fixture: 'aa-circle', apply: image => morphologicalEdges(image, 2, 1) },
+  { name: 'lab-subpixel-0.5-100', fixture: 'aa-circle', apply: image => subpixelEdges(image, 0.5, 100) },
+  { name: 'lab-subpixel-0.5-160', fixture: 'glass-rim', apply: image => subpixelEdges(image, 0.5, 160) },
+  { name: 'lab-blur-sharpen-2-150-10', fixture: 'hard-edges', apply: image => blurSharpenEdges(image, 2, 150, 10) },
+  { name: 'lab-blur-sharpen-2-150-10', fixture: 'aa-circle', apply: image => blurSharpenEdges(image, 2, 150, 10) },
+];
+
+describe('методы EdgeLab', () => {
+  it.each(CASES)('$name на $fixture', ({ name, fixture, apply }) => {
+    const source = FIXTURES[fixture]();
+    const before = new Uint8ClampedArray(source.data);
+    const result = apply(source);
+
+    expect(source.data).toEqual(before);
+    expectGolden(`${name}.${fixture}`, result);
+  });
+
+  it('supersampling масштабирует переданной функцией (в браузере - canvas)', () => {
+    const source = FIXTURES['hard-edges']();
+    const sizes: string[] = [];
+    const result = supersampleEdges(source, 3, (image, width, height) => {
+      sizes.push(`${image.width}x${image.height}->${width}x${height}`);
+      return resizeImage(image, width, height);
+    });
+
+    expect(sizes).toEqual(['32x32->96x96', '96x96->32x32']);
+    expect(result.data).toEqual(supersampleEdges(source, 3).data);
+  });
+});
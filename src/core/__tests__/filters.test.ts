@@ -0,0 +1,39 @@
+import { describe, it } from 'vitest';
+import {
+  aggressiveEdgeCleanup,
+  erodeEdges,
+  removeLightEdgeArtifacts,
+  removeLiquidGlassOutline,
+  smoothEdges,
+} from '@/core/filters';
+import type { RgbaImage } from '@/core/image';
+import { FIXTURES } from './fixtures';
+import { expectGolden } from './golden';
+
+// Фильтры меняют изображение на месте, каждому случаю - свежая фикстура
+const CASES: Array<{ name: string; fixture: string; apply: (image: RgbaImage) => void }> = [
+  { name: 'smooth-edges', fixture: 'hard-edges', apply: smoothEdges },
+  { name: 'smooth-edges', fixture: 'aa-circle', apply: smoothEdges },
+  { name: 'light-edge-artifacts', fixture: 'glass-rim', apply: removeLightEdgeArtifacts },
+  { name: 'light-edge-artifacts', fixture: 'aa-circle', apply: removeLightEdgeArtifacts },
+  { name: 'erode-1', fixture: 'hard-edges', apply: image => erodeEdges(image, 1) },
+  { name: 'erode-2', fixture: 'aa-circle', apply: image => erodeEdges(image, 2) },
+  { name: 'edge-cleanup', fixture: 'glass-rim', apply: aggressiveEdgeCleanup },
+  { name: 'edge-cleanup', fixture: 'aa-circle', apply: aggressiveEdgeCleanup },
+  { name: 'liquid-glass-2-200', fixture: 'glass-rim', apply: image => removeLiquidGlassOutline(image, 2, 200) },
+  { name: 'liquid-glass-3-150', fixture: 'glass-rim', apply: image => removeLiquidGlassOutline(image, 3, 150) },
+];
+
+describe('фикстуры', () => {
+  it.each(Object.keys(FIXTURES))('%s', fixture => {
+    expectGolden(`fixture-${fixture}`, FIXTURES[fixture]());
+  });
+});
+
+describe('фильтры краёв', () => {
+  it.each(CASES)('$name на $fixture', ({ name, fixture, apply }) => {
+    const image = FIXTURES[fixture]();
+    apply(image);
+    expectGolden(`${name}.${fixture}`, image);
+  });
+});
@@ -0,0 +1,86 @@
+/**
+ * Синтетические иконки для golden-тестов фильтров: маленькие, детерминированные,
+ * каждая проверяет свой тип края
+ */
+import { createImage, type RgbaImage } from '@/core/image';
+
+const SIZE = 32;
+
+type Rgba = [number, number, number, number];
+
+function fill(width: number, height: number, pixel: (x: number, y: number) => Rgba | null): RgbaImage {
+  const image = createImage(width, height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const color = pixel(x, y);
+      if (color) image.data.set(color, (y * width + x) * 4);
+    }
+  }
+  return image;
+}
+
+/**
+ * Доля пикселя внутри круга, по сетке 4×4 подвыборок
+ */
+function circleCoverage(x: number, y: number, cx: number, cy: number, radius: number): number {
+  let inside = 0;
+  for (let sy = 0; sy < 4; sy++) {
+    for (let sx = 0; sx < 4; sx++) {
+      const dx = x + (sx + 0.5) / 4 - cx;
+      const dy = y + (sy + 0.5) / 4 - cy;
+      if (dx * dx + dy * dy <= radius * radius) inside++;
+    }
+  }
+  return inside / 16;
+}
+
+/**
+ * Жёсткие края без антиалиасинга: квадрат с вырезом и отдельная тонкая засечка
+ */
+export function hardEdges(): RgbaImage {
+  return fill(SIZE, SIZE, (x, y) => {
+    const inSquare = x >= 6 && x < 24 && y >= 6 && y < 24;
+    const inNotch = x >= 14 && x < 18 && y >= 6 && y < 12;
+    if (inSquare && !inNotch) return [40, 90, 200, 255];
+    // Засечка толщиной в пиксель - её не должны съедать сглаживающие фильтры
+    if (x >= 26 && x < 29 && y === 14) return [200, 60, 40, 255];
+    return null;
+  });
+}
+
+/**
+ * Круг с антиалиасингом: альфа края равна покрытию пикселя
+ */
+export function antialiasedCircle(): RgbaImage {
+  return fill(SIZE, SIZE, (x, y) => {
+    const coverage = circleCoverage(x, y, 16, 16, 10.5);
+    if (coverage === 0) return null;
+    return [220, 120, 30, Math.round(coverage * 255)];
+  });
+}
+
+/**
+ * Тёмная иконка со светлым полупрозрачным ободком (как liquid glass)
+ * и одиночными светлыми пикселями рядом - следами плохо вычтенной подложки
+ */
+export function glassRim(): RgbaImage {
+  return fill(SIZE, SIZE, (x, y) => {
+    const outer = circleCoverage(x, y, 16, 16, 12);
+    if (outer === 0) {
+      if ((x === 2 && y === 3) || (x === 29 && y === 27)) return [235, 235, 240, 90];
+      return null;
+    }
+    const inner = circleCoverage(x, y, 16, 16, 10);
+    if (inner === 1) return [30, 70, 60, 255];
+    // Ободок: светлый и полупрозрачный снаружи, плотнее ближе к иконке
+    const alpha = Math.round(outer * (120 + inner * 135));
+    const shade = Math.round(240 - inner * 180);
+    return [shade, shade, Math.min(255, shade + 10), alpha];
+  });
+}
+
+export const FIXTURES: Record<string, () => RgbaImage> = {
+  'hard-edges': hardEdges,
+  'aa-circle': antialiasedCircle,
+  'glass-rim': glassRim,
+};
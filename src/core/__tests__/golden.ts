@@ -0,0 +1,119 @@
+/**
+ * Сравнение результата фильтра с эталонным PNG в goldens/.
+ *
+ * UPDATE_GOLDENS=1 npm test - перезаписать эталоны текущими результатами (после
+ * намеренного изменения фильтра). При расхождении в __review__/ пишутся
+ * <name>.actual.png, <name>.expected.png и <name>.diff.png (красным - отличия)
+ */
+import { existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { createImage, type RgbaImage } from '@/core/image';
+import { decodePng, encodePng } from '@/node/png';
+
+const HERE = path.dirname(fileURLToPath(import.meta.url));
+const GOLDENS_DIR = path.join(HERE, 'goldens');
+const REVIEW_DIR = path.join(HERE, '__review__');
+
+export interface GoldenTolerance {
+  channel: number; // Допустимая разница по каждому каналу RGBA, 0-255
+  mismatchedRatio: number; // Доля пикселей, которым можно выйти за channel
+}
+
+export const DEFAULT_TOLERANCE: GoldenTolerance = { channel: 2, mismatchedRatio: 0 };
+
+interface GoldenComparison {
+  mismatched: number;
+  maxDifference: number;
+  diff: RgbaImage;
+}
+
+/**
+ * Попиксельное сравнение. Цвет полностью прозрачных пикселей не важен и не сравнивается
+ */
+function compareImages(actual: RgbaImage, expected: RgbaImage, channel: number): GoldenComparison {
+  const diff = createImage(actual.width, actual.height);
+  let mismatched = 0;
+  let maxDifference = 0;
+
+  for (let i = 0; i < actual.data.length; i += 4) {
+    const bothTransparent = actual.data[i + 3] === 0 && expected.data[i + 3] === 0;
+    let difference = 0;
+    if (!bothTransparent) {
+      for (let c = 0; c < 4; c++) {
+        difference = Math.max(difference, Math.abs(actual.data[i + c] - expected.data[i + c]));
+      }
+    }
+    maxDifference = Math.max(maxDifference, difference);
+
+    if (difference > channel) {
+      mismatched++;
+      diff.data.set([255, 0, 0, 255], i);
+    } else {
+      // Совпавшие пиксели - бледная альфа эталона, чтобы было видно форму
+      const shade = 255 - Math.round(expected.data[i + 3] * 0.3);
+      diff.data.set([shade, shade, shade, 255], i);
+    }
+  }
+
+  return { mismatched, maxDifference, diff };
+}
+
+/**
+ * Проверяет изображение против goldens/<name>.png и бросает ошибку,
+ * если результат выходит за допуск
+ */
+export function expectGolden(
+  name: string,
+  actual: RgbaImage,
+  tolerance: GoldenTolerance = DEFAULT_TOLERANCE
+): void {
+  const problem = matchGolden(name, actual, tolerance);
+  if (problem) throw new Error(problem);
+}
+
+function matchGolden(name: string, actual: RgbaImage, tolerance: GoldenTolerance): string | null {
+  const goldenFile = path.join(GOLDENS_DIR, `${name}.png`);
+
+  if (process.env.UPDATE_GOLDENS === '1') {
+    mkdirSync(GOLDENS_DIR, { recursive: true });
+    writeFileSync(goldenFile, encodePng(actual));
+    clearReview(name);
+    return null;
+  }
+
+  if (!existsSync(goldenFile)) {
+    writeReview(name, actual);
+    return `Нет эталона ${path.relative(process.cwd(), goldenFile)}. Проверьте результат в __review__ и запустите UPDATE_GOLDENS=1 npm test`;
+  }
+
+  const expected = decodePng(readFileSync(goldenFile));
+  if (expected.width !== actual.width || expected.height !== actual.height) {
+    writeReview(name, actual, expected);
+    return `${name}: размер ${actual.width}×${actual.height}, в эталоне ${expected.width}×${expected.height}`;
+  }
+
+  const { mismatched, maxDifference, diff } = compareImages(actual, expected, tolerance.channel);
+  const allowed = Math.floor(actual.width * actual.height * tolerance.mismatchedRatio);
+  if (mismatched > allowed) {
+    writeReview(name, actual, expected, diff);
+    return `${name}: ${mismatched} пикс. отличаются больше чем на ${tolerance.channel} (макс. ${maxDifference}), ` +
+      `допустимо ${allowed}. Сравнение - в __review__/${name}.diff.png`;
+  }
+
+  clearReview(name);
+  return null;
+}
+
+function writeReview(name: string, actual: RgbaImage, expected?: RgbaImage, diff?: RgbaImage): void {
+  mkdirSync(REVIEW_DIR, { recursive: true });
+  writeFileSync(path.join(REVIEW_DIR, `${name}.actual.png`), encodePng(actual));
+  if (expected) writeFileSync(path.join(REVIEW_DIR, `${name}.expected.png`), encodePng(expected));
+  if (diff) writeFileSync(path.join(REVIEW_DIR, `${name}.diff.png`), encodePng(diff));
+}
+
+function clearReview(name: string): void {
+  for (const suffix of ['actual', 'expected', 'diff']) {
+    rmSync(path.join(REVIEW_DIR, `${name}.${suffix}.png`), { force: true });
+  }
+}
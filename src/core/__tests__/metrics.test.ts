@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { createImage, type RgbaImage } from '@/core/image';
+import { computeResultMetrics, DEFAULT_METRIC_BOUNDS, reviewReasons } from '@/core/metrics';
+import { processImage } from '@/core/process';
+import { antialiasedCircle } from './fixtures';
+
+const PLATE = { r: 40, g: 40, b: 40 };
+
+// Иконка поверх ровной подложки - то, что приходит на вход удалению фона
+function onPlate(icon: RgbaImage): RgbaImage {
+  const image = createImage(icon.width, icon.height);
+  for (let i = 0; i < icon.data.length; i += 4) {
+    const a = icon.data[i + 3] / 255;
+    image.data[i] = Math.round(icon.data[i] * a + PLATE.r * (1 - a));
+    image.data[i + 1] = Math.round(icon.data[i + 1] * a + PLATE.g * (1 - a));
+    image.data[i + 2] = Math.round(icon.data[i + 2] * a + PLATE.b * (1 - a));
+    image.data[i + 3] = 255;
+  }
+  return image;
+}
+
+describe('метрики качества', () => {
+  const icon = antialiasedCircle();
+  const original = onPlate(icon);
+
+  it('чистый вырез не помечается', () => {
+    const metrics = computeResultMetrics(original, icon, PLATE);
+
+    expect(metrics.opaqueRatio).toBeGreaterThan(0.3);
+    expect(metrics.opaqueRatio).toBeLessThan(0.4);
+    expect(metrics.residual).toBe(0);
+    expect(metrics.halo).toBeLessThan(0.1);
+    expect(metrics.bboxChange).toBeLessThan(0.1);
+    expect(reviewReasons(metrics)).toEqual([]);
+  });
+
+  it('оставленная подложка даёт остатки и почти полную непрозрачность', () => {
+    const metrics = computeResultMetrics(original, original, PLATE);
+
+    expect(metrics.opaqueRatio).toBe(1);
+    expect(metrics.residual).toBeGreaterThan(0.5);
+    expect(metrics.bboxChange).toBeGreaterThan(0.25);
+    expect(reviewReasons(metrics)).toHaveLength(3);
+  });
+
+  it('пустой результат помечается как съеденная иконка', () => {
+    const empty = createImage(icon.width, icon.height);
+    const metrics = computeResultMetrics(original, empty, PLATE);
+
+    expect(metrics.opaqueRatio).toBe(0);
+    expect(metrics.bboxChange).toBe(1);
+    expect(reviewReasons(metrics)[0]).toMatch(/мало иконки/);
+  });
+
+  it('кайма цвета подложки по контуру', () => {
+    const fringed = createImage(icon.width, icon.height, new Uint8ClampedArray(icon.data));
+    for (let i = 0; i < fringed.data.length; i += 4) {
+      if (fringed.data[i + 3] > 0 && fringed.data[i + 3] < 255) fringed.data.set([PLATE.r, PLATE.g, PLATE.b, 255], i);
+    }
+    const metrics = computeResultMetrics(original, fringed, PLATE);
+
+    expect(metrics.halo).toBeGreaterThan(DEFAULT_METRIC_BOUNDS.maxHalo);
+  });
+
+  it('processImage считает метрики относительно эталона', () => {
+    const plate = onPlate(createImage(icon.width, icon.height));
+    const { metrics } = processImage(original, [plate], { threshold: 20 });
+
+    expect(metrics.residual).toBe(0);
+    expect(reviewReasons(metrics)).toEqual([]);
+  });
+
+  it('границы задают, что считать подозрительным', () => {
+    const metrics = computeResultMetrics(original, icon, PLATE);
+    expect(reviewReasons(metrics, { ...DEFAULT_METRIC_BOUNDS, minOpaqueRatio: 0.5 })).toHaveLength(1);
+  });
+});
@@ -0,0 +1,17 @@
+import { describe, expect, it } from 'vitest';
+import { parsePipeline } from '@/core/pipeline';
+
+describe('разбор конвейера', () => {
+  it('ключи прототипа не считаются типами шагов', () => {
+    for (const type of ['constructor', 'toString', '__proto__', 'hasOwnProperty']) {
+      expect(() => parsePipeline(JSON.stringify([{ type }]))).toThrow(/неизвестный тип/);
+    }
+  });
+
+  it('известный тип без параметров берёт значения по умолчанию', () => {
+    expect(parsePipeline('[{"type":"erode"},{"type":"smoothEdges"}]')).toEqual([
+      { type: 'erode', pixels: 1 },
+      { type: 'smoothEdges' },
+    ]);
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_BATCH_SETTINGS, parsePresets, serializePresets, type UserPreset } from '@/core/presets';
+
+let counter = 0;
+const nextId = () => `id-${++counter}`;
+
+const preset = (name: string, patch: Partial<UserPreset['settings']> = {}): UserPreset => ({
+  id: nextId(),
+  name,
+  settings: { ...DEFAULT_BATCH_SETTINGS, ...patch },
+});
+
+describe('пользовательские пресеты', () => {
+  it('экспорт и импорт сохраняют порядок и все настройки', () => {
+    const presets = [
+      preset('Тёмная подложка', { useColorMode: true, backgroundColor: '#202020', colorMetric: 'ciede2000' }),
+      preset('Стекло', {
+        removeLiquidGlass: true,
+        glassOutlineWidth: 3,
+        useSupersampling: true,
+        supersampleScale: 6,
+        trimEnabled: true,
+        trimOptions: { alphaCutoff: 4, padding: 10, paddingUnit: '%', square: true },
+        pipeline: [{ type: 'erode', pixels: 2 }],
+      }),
+    ];
+
+    const parsed = parsePresets(serializePresets(presets), nextId);
+    expect(parsed.map(p => p.name)).toEqual(['Тёмная подложка', 'Стекло']);
+    expect(parsed.map(p => p.settings)).toEqual(presets.map(p => p.settings));
+  });
+
+  it('недостающие настройки берутся по умолчанию, лишние игнорируются', () => {
+    const json = JSON.stringify([{ name: ' Старый ', settings: { threshold: 35, unknown: 1, trimOptions: { padding: 4 } } }]);
+    const [parsed] = parsePresets(json, nextId);
+
+    expect(parsed.name).toBe('Старый');
+    expect(parsed.settings.threshold).toBe(35);
+    expect(parsed.settings.erodePixels).toBe(DEFAULT_BATCH_SETTINGS.erodePixels);
+    expect(parsed.settings.trimOptions).toEqual({ ...DEFAULT_BATCH_SETTINGS.trimOptions, padding: 4 });
+    expect('unknown' in parsed.settings).toBe(false);
+  });
+
+  it('понятные ошибки на некорректные данные', () => {
+    expect(() => parsePresets('{', nextId)).toThrow('Некорректный JSON');
+    expect(() => parsePresets('{"version":2,"presets":[]}', nextId)).toThrow('версия');
+    expect(() => parsePresets('[{"settings":{}}]', nextId)).toThrow('имя');
+    expect(() => parsePresets('[{"name":"A","settings":{"threshold":"20"}}]', nextId)).toThrow('«A»: "threshold" должен быть числом');
+    expect(() => parsePresets('[{"name":"A","settings":{"mlMask":"magic"}}]', nextId)).toThrow('mlMask');
+    expect(() => parsePresets('[{"name":"A","settings":{"defringeOptions":{"method":"x"}}}]', nextId)).toThrow('defringeOptions.method');
+    expect(() => parsePresets('[{"name":"A","settings":{"pipeline":[{"type":"nope"}]}}]', nextId)).toThrow('неизвестный тип');
+  });
+
+  it('числа вне допустимого диапазона отклоняются', () => {
+    const rejected: Array<[Record<string, unknown>, string]> = [
+      [{ threshold: 0 }, 'threshold'],
+      [{ threshold: 101 }, 'threshold'],
+      [{ supersampleScale: 1e6 }, 'supersampleScale'],
+      [{ erodePixels: -1 }, 'erodePixels'],
+      [{ glassOutlineWidth: 0 }, 'glassOutlineWidth'],
+      [{ glassBrightness: 300 }, 'glassBrightness'],
+      [{ metricBounds: { maxHalo: 2 } }, 'metricBounds.maxHalo'],
+      [{ trimOptions: { padding: -4 } }, 'trimOptions.padding'],
+      [{ defringeOptions: { strength: 100 } }, 'defringeOptions.strength'],
+      [{ componentCleanup: { minIsland: -1 } }, 'componentCleanup.minIsland'],
+    ];
+    for (const [settings, key] of rejected) {
+      const json = JSON.stringify([{ name: 'A', settings }]);
+      expect(() => parsePresets(json, nextId)).toThrow(`"${key}" вне диапазона`);
+    }
+  });
+
+  it('границы диапазона допустимы', () => {
+    const json = JSON.stringify([{ name: 'A', settings: { threshold: 100, erodePixels: 0, supersampleScale: 8 } }]);
+    expect(parsePresets(json, nextId)[0].settings).toMatchObject({ threshold: 100, erodePixels: 0, supersampleScale: 8 });
+  });
+});
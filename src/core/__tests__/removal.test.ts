@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { createImage, type RgbaImage } from '@/core/image';
+import { matteAgainstReference, removeByColor, restoreUnconnected } from '@/core/removal';
+
+const SIZE = 16;
+
+function filled(color: [number, number, number]): RgbaImage {
+  const image = createImage(SIZE, SIZE);
+  for (let p = 0; p < SIZE * SIZE; p++) image.data.set([...color, 255], p * 4);
+  return image;
+}
+
+function pixel(image: RgbaImage, x: number, y: number): number[] {
+  const i = (y * image.width + x) * 4;
+  return Array.from(image.data.subarray(i, i + 4));
+}
+
+describe('альфа-матирование по эталону', () => {
+  it('восстанавливает частичную прозрачность и чистый цвет края', () => {
+    const plate = filled([0, 0, 255]);
+    // Красный квадрат 6×6, вокруг - кольцо пополам смешанных с подложкой пикселей
+    const icon = filled([0, 0, 255]);
+    for (let y = 4; y < 12; y++) {
+      for (let x = 4; x < 12; x++) {
+        const inside = x >= 5 && x < 11 && y >= 5 && y < 11;
+        icon.data.set(inside ? [255, 0, 0, 255] : [128, 0, 128, 255], (y * SIZE + x) * 4);
+      }
+    }
+
+    matteAgainstReference(icon, plate, 20);
+
+    expect(pixel(icon, 0, 0)[3]).toBe(0);
+    expect(pixel(icon, 7, 7)).toEqual([255, 0, 0, 255]);
+
+    const [r, g, b, a] = pixel(icon, 4, 7);
+    expect(Math.abs(a - 128)).toBeLessThanOrEqual(1);
+    // Примесь подложки убрана: цвет края - снова красный
+    expect(r).toBeGreaterThanOrEqual(250);
+    expect(g).toBe(0);
+    expect(b).toBeLessThanOrEqual(5);
+  });
+});
+
+describe('удаление только связанного фона', () => {
+  // Чёрная рамка 10×10 толщиной 2, внутри неё - область цвета фона
+  function framedIcon(): RgbaImage {
+    const image = filled([200, 200, 200]);
+    for (let y = 3; y < 13; y++) {
+      for (let x = 3; x < 13; x++) {
+        const frame = x < 5 || x >= 11 || y < 5 || y >= 11;
+        if (frame) image.data.set([0, 0, 0, 255], (y * SIZE + x) * 4);
+      }
+    }
+    return image;
+  }
+
+  const removeConnected = (seedPoints: Array<{ x: number; y: number }>) => {
+    const image = framedIcon();
+    const original = new Uint8ClampedArray(image.data);
+    removeByColor(image, { r: 200, g: 200, b: 200 }, 20);
+    restoreUnconnected(image, original, seedPoints);
+    return image;
+  };
+
+  it('фон, замкнутый внутри иконки, остаётся', () => {
+    const image = removeConnected([]);
+
+    expect(pixel(image, 0, 0)[3]).toBe(0);
+    expect(pixel(image, 8, 8)).toEqual([200, 200, 200, 255]);
+    expect(pixel(image, 3, 3)).toEqual([0, 0, 0, 255]);
+  });
+
+  it('точка-затравка удаляет и замкнутую область', () => {
+    const image = removeConnected([{ x: 7.6, y: 8.2 }]);
+
+    expect(pixel(image, 8, 8)[3]).toBe(0);
+    expect(pixel(image, 3, 3)).toEqual([0, 0, 0, 255]);
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { createImage } from '@/core/image';
+import { parsePipeline } from '@/core/pipeline';
+import { processImage, runPipeline } from '@/core/process';
+import { alphaBounds, trimImage, uncropImage, DEFAULT_TRIM_OPTIONS } from '@/core/trim';
+import { hardEdges } from './fixtures';
+
+describe('обрезка полей', () => {
+  it('обрезает по рамке непрозрачных пикселей', () => {
+    const { image, crop } = trimImage(hardEdges(), DEFAULT_TRIM_OPTIONS);
+
+    // Квадрат 6..24 и засечка до x = 29
+    expect(crop).toEqual({ x: 6, y: 6, width: 23, height: 18, sourceWidth: 32, sourceHeight: 32 });
+    expect(image.width).toBe(23);
+    expect(image.height).toBe(18);
+  });
+
+  it('порог альфы не даёт почти прозрачным пикселям расширять рамку', () => {
+    const source = hardEdges();
+    source.data.set([255, 255, 255, 20], 0);
+
+    expect(alphaBounds(source, 0)?.left).toBe(0);
+    expect(alphaBounds(source, 32)).toEqual({ left: 6, top: 6, right: 29, bottom: 24 });
+  });
+
+  it('отступ в px и % и квадрат', () => {
+    const px = trimImage(hardEdges(), { ...DEFAULT_TRIM_OPTIONS, padding: 10 }).crop;
+    expect(px).toMatchObject({ x: -4, y: -4, width: 43, height: 38 });
+
+    const percent = trimImage(hardEdges(), { ...DEFAULT_TRIM_OPTIONS, padding: 10, paddingUnit: '%' }).crop;
+    expect(percent).toMatchObject({ x: 4, y: 4, width: 27, height: 22 });
+
+    const square = trimImage(hardEdges(), { ...DEFAULT_TRIM_OPTIONS, square: true }).crop;
+    expect(square).toMatchObject({ x: 6, y: 4, width: 23, height: 23 });
+  });
+
+  it('uncropImage возвращает иконку на исходный холст', () => {
+    const source = hardEdges();
+    const { image, crop } = trimImage(source, { ...DEFAULT_TRIM_OPTIONS, padding: 12, square: true });
+
+    expect(uncropImage(image, crop).data).toEqual(source.data);
+  });
+
+  it('пустое изображение не обрезается', () => {
+    const { image, crop } = trimImage(createImage(32, 32), DEFAULT_TRIM_OPTIONS);
+    expect(image.width).toBe(32);
+    expect(crop).toMatchObject({ x: 0, y: 0, width: 32, height: 32 });
+  });
+
+  it('смещения нескольких обрезок в конвейере складываются', () => {
+    const steps = parsePipeline(JSON.stringify([
+      { type: 'trim', padding: 4 },
+      { type: 'trim', padding: 1 },
+    ]));
+    const { image, crop } = runPipeline(hardEdges(), steps);
+
+    expect(crop).toMatchObject({ x: 5, y: 5, width: 25, height: 20, sourceWidth: 32 });
+    expect(uncropImage(image, crop!).data).toEqual(hardEdges().data);
+  });
+
+  it('конвейер хранит единицы и флаги обрезки как в TrimOptions и проверяет их', () => {
+    const [step] = parsePipeline(JSON.stringify([{ type: 'trim', padding: 10, paddingUnit: '%', square: true }]));
+    expect(step).toEqual({ type: 'trim', alphaCutoff: 0, padding: 10, paddingUnit: '%', square: true });
+
+    expect(() => parsePipeline(JSON.stringify([{ type: 'trim', square: 1 }]))).toThrow(/square/);
+    expect(() => parsePipeline(JSON.stringify([{ type: 'trim', paddingUnit: 'em' }]))).toThrow(/paddingUnit/);
+    expect(() => parsePipeline(JSON.stringify([{ type: 'defringe', method: 1 }]))).toThrow(/method/);
+  });
+
+  it('processImage считает метрики по необрезанному результату', () => {
+    const { image, crop, metrics } = processImage(hardEdges(), [], {
+      targetBackgroundColor: '#000000',
+      edgeSmoothing: false,
+      trim: DEFAULT_TRIM_OPTIONS,
+    });
+
+    expect(image.width).toBe(23);
+    expect(crop).toMatchObject({ x: 6, y: 6 });
+    expect(metrics.bboxChange).toBe(0);
+  });
+});
@@ -0,0 +1,250 @@
+/**
+ * Совмещение эталонной подложки с иконкой (регистрация изображений)
+ */
+import { createImage, type RgbaImage } from './image';
+
+export interface ReferenceAlignment {
+  offsetX: number; // Сдвиг эталона по X в пикселях иконки
+  offsetY: number; // Сдвиг эталона по Y в пикселях иконки
+  scale: number; // Масштаб эталона относительно иконки
+  residual: number; // Средняя остаточная разница яркости (0-255) на подложке
+}
+
+export interface AlignmentOptions {
+  maxOffset?: number; // Максимальный сдвиг в пикселях
+  maxScaleDeviation?: number; // Максимальное отклонение масштаба (0.03 = ±3%)
+  search?: boolean; // false - только подгонка размера без поиска сдвига
+}
+
+// Разница выше этого значения считается иконкой, а не подложкой
+const TRUNCATE_DIFF = 48;
+// Сколько точек эталона используется для сравнения
+const MAX_SAMPLES = 4096;
+const SCALE_STEP = 0.01;
+// Подложка считается уже совмещённой, если совпала на этой доле точек
+// со средней разницей не больше ALIGNED_DIFF и соседние положения не лучше
+const ALIGNED_COVERAGE = 0.5;
+const ALIGNED_DIFF = 2;
+
+/**
+ * Ищет сдвиг и масштаб эталона, при которых он лучше всего совпадает с иконкой.
+ * Сравнение идёт только по непрозрачной области эталона, различие усечено,
+ * поэтому сама иконка в центре не мешает совмещению.
+ */
+export function alignReference(
+  image: RgbaImage,
+  reference: RgbaImage,
+  options: AlignmentOptions = {}
+): ReferenceAlignment {
+  const { maxOffset = 8, maxScaleDeviation = 0.03, search = true } = options;
+
+  const imageLuma = toLuma(image);
+  const refLuma = toLuma(reference);
+  const samples = collectSamples(reference);
+
+  const baseScale = (image.width / reference.width + image.height / reference.height) / 2;
+
+  const evaluate = (scale: number, offsetX: number, offsetY: number): number => {
+    let total = 0;
+    for (const s of samples) {
+      const x = Math.round((s % reference.width) * scale + offsetX);
+      const y = Math.round(Math.floor(s / reference.width) * scale + offsetY);
+      if (x < 0 || y < 0 || x >= image.width || y >= image.height) {
+        total += TRUNCATE_DIFF;
+        continue;
+      }
+      total += Math.min(TRUNCATE_DIFF, Math.abs(imageLuma[y * image.width + x] - refLuma[s]));
+    }
+    return samples.length > 0 ? total / samples.length : 0;
+  };
+
+  // Средняя разница только по точкам подложки (без иконки); Infinity - если их мало
+  const backgroundDiff = (scale: number, offsetX: number, offsetY: number): number => {
+    let total = 0;
+    let matched = 0;
+    for (const s of samples) {
+      const x = Math.round((s % reference.width) * scale + offsetX);
+      const y = Math.round(Math.floor(s / reference.width) * scale + offsetY);
+      if (x < 0 || y < 0 || x >= image.width || y >= image.height) continue;
+      const diff = Math.abs(imageLuma[y * image.width + x] - refLuma[s]);
+      if (diff < TRUNCATE_DIFF) {
+        total += diff;
+        matched++;
+      }
+    }
+    return matched > 0 && matched >= samples.length * ALIGNED_COVERAGE ? total / matched : Infinity;
+  };
+
+  const centered = (scale: number) => ({
+    x: Math.round((image.width - reference.width * scale) / 2),
+    y: Math.round((image.height - reference.height * scale) / 2),
+  });
+
+  // Начинаем с простой подгонки размера - при равенстве оценок она выигрывает
+  const start = centered(baseScale);
+  let best: ReferenceAlignment = {
+    offsetX: start.x,
+    offsetY: start.y,
+    scale: baseScale,
+    residual: evaluate(baseScale, start.x, start.y),
+  };
+
+  if (!search || samples.length === 0) return best;
+
+  // Дешёвая проверка для уже выровненных партий, чтобы не платить за полный перебор:
+  // подложка без сдвига совпала с точностью до шума, и ни сдвиг на пиксель,
+  // ни соседний шаг масштаба совпадение не улучшают
+  const scaleSteps = Math.round(maxScaleDeviation / SCALE_STEP);
+  if (backgroundDiff(baseScale, start.x, start.y) <= ALIGNED_DIFF) {
+    const neighbours: Array<[number, number, number]> = maxOffset > 0
+      ? [
+          [baseScale, start.x - 1, start.y],
+          [baseScale, start.x + 1, start.y],
+          [baseScale, start.x, start.y - 1],
+          [baseScale, start.x, start.y + 1],
+        ]
+      : [];
+    for (const k of scaleSteps > 0 ? [-1, 1] : []) {
+      const scale = baseScale * (1 + k * SCALE_STEP);
+      const center = centered(scale);
+      neighbours.push([scale, center.x, center.y]);
+    }
+    if (neighbours.every(([scale, x, y]) => evaluate(scale, x, y) >= best.residual)) return best;
+  }
+
+  for (let k = -scaleSteps; k <= scaleSteps; k++) {
+    const scale = baseScale * (1 + k * SCALE_STEP);
+    const center = centered(scale);
+
+    for (let dy = -maxOffset; dy <= maxOffset; dy++) {
+      for (let dx = -maxOffset; dx <= maxOffset; dx++) {
+        const residual = evaluate(scale, center.x + dx, center.y + dy);
+        if (residual < best.residual) {
+          best = { offsetX: center.x + dx, offsetY: center.y + dy, scale, residual };
+        }
+      }
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Выбирает эталон, который лучше всего совпал с иконкой после совмещения
+ * (наименьший остаток). При равенстве побеждает первый. undefined - эталонов нет
+ */
+export function selectReference(
+  image: RgbaImage,
+  references: RgbaImage[],
+  options: AlignmentOptions = {}
+): { index: number; alignment: ReferenceAlignment } | undefined {
+  let best: { index: number; alignment: ReferenceAlignment } | undefined;
+
+  for (let index = 0; index < references.length; index++) {
+    const alignment = alignReference(image, references[index], options);
+    if (!best || alignment.residual < best.alignment.residual) {
+      best = { index, alignment };
+    }
+  }
+  return best;
+}
+
+/**
+ * Проверяет, что совмещение ничего не меняет (тот же размер, без сдвига)
+ */
+export function isIdentityAlignment(
+  alignment: ReferenceAlignment,
+  image: RgbaImage,
+  reference: RgbaImage
+): boolean {
+  return (
+    alignment.scale === 1 &&
+    alignment.offsetX === 0 &&
+    alignment.offsetY === 0 &&
+    image.width === reference.width &&
+    image.height === reference.height
+  );
+}
+
+/**
+ * Пересэмплирует эталон в систему координат иконки (билинейная интерполяция).
+ * Точки за пределами эталона берутся с его ближайшего края.
+ */
+export function warpReference(
+  reference: RgbaImage,
+  alignment: ReferenceAlignment,
+  width: number,
+  height: number
+): RgbaImage {
+  const result = createImage(width, height);
+  const out = result.data;
+  const src = reference.data;
+  const refW = reference.width;
+  const refH = reference.height;
+
+  for (let y = 0; y < height; y++) {
+    const v = clamp((y - alignment.offsetY) / alignment.scale, 0, refH - 1);
+    const y0 = Math.floor(v);
+    const y1 = Math.min(refH - 1, y0 + 1);
+    const fy = v - y0;
+
+    for (let x = 0; x < width; x++) {
+      const u = clamp((x - alignment.offsetX) / alignment.scale, 0, refW - 1);
+      const x0 = Math.floor(u);
+      const x1 = Math.min(refW - 1, x0 + 1);
+      const fx = u - x0;
+
+      const i00 = (y0 * refW + x0) * 4;
+      const i10 = (y0 * refW + x1) * 4;
+      const i01 = (y1 * refW + x0) * 4;
+      const i11 = (y1 * refW + x1) * 4;
+      const o = (y * width + x) * 4;
+
+      for (let c = 0; c < 4; c++) {
+        const top = src[i00 + c] + (src[i10 + c] - src[i00 + c]) * fx;
+        const bottom = src[i01 + c] + (src[i11 + c] - src[i01 + c]) * fx;
+        out[o + c] = Math.round(top + (bottom - top) * fy);
+      }
+    }
+  }
+
+  return result;
+}
+
+function toLuma(imageData: RgbaImage): Float32Array {
+  const data = imageData.data;
+  const luma = new Float32Array(imageData.width * imageData.height);
+  for (let i = 0; i < luma.length; i++) {
+    luma[i] = data[i * 4] * 0.299 + data[i * 4 + 1] * 0.587 + data[i * 4 + 2] * 0.114;
+  }
+  return luma;
+}
+
+/**
+ * Равномерная выборка непрозрачных пикселей эталона
+ */
+function collectSamples(reference: RgbaImage): number[] {
+  const data = reference.data;
+  const total = reference.width * reference.height;
+
+  let opaque = 0;
+  for (let i = 0; i < total; i++) {
+    if (data[i * 4 + 3] > 128) opaque++;
+  }
+
+  const step = Math.max(1, Math.floor(Math.sqrt(opaque / MAX_SAMPLES)));
+  const samples: number[] = [];
+
+  for (let y = 0; y < reference.height; y += step) {
+    for (let x = 0; x < reference.width; x += step) {
+      const idx = y * reference.width + x;
+      if (data[idx * 4 + 3] > 128) samples.push(idx);
+    }
+  }
+
+  return samples;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return value < min ? min : value > max ? max : value;
+}
@@ -0,0 +1,190 @@
+/**
+ * Гладкая модель фона для режима удаления по цвету:
+ * градиент, виньетка или полиномиальная поверхность, подобранные по краям изображения
+ */
+import { createImage, type RgbaImage } from './image';
+
+export type BackgroundModelType = 'flat' | 'linear' | 'radial' | 'polynomial';
+
+export const BACKGROUND_MODELS: Array<{ id: BackgroundModelType; name: string }> = [
+  { id: 'flat', name: 'Однотонный' },
+  { id: 'linear', name: 'Линейный градиент' },
+  { id: 'radial', name: 'Радиальный (виньетка)' },
+  { id: 'polynomial', name: 'Полином 2-й степени' },
+];
+
+export interface BackgroundModel {
+  type: BackgroundModelType;
+  coefficients: [number[], number[], number[]]; // По одному набору на канал R, G, B
+  width: number;
+  height: number;
+}
+
+// Доля стороны изображения, которая считается рамкой для подбора
+const BORDER_FRACTION = 0.04;
+const MAX_SAMPLES = 4000;
+
+/**
+ * Базисные функции модели в нормированных координатах (-1..1, центр изображения - 0)
+ */
+function basis(type: BackgroundModelType, u: number, v: number): number[] {
+  switch (type) {
+    case 'flat':
+      return [1];
+    case 'linear':
+      return [1, u, v];
+    case 'radial':
+      return [1, u * u + v * v];
+    case 'polynomial':
+      return [1, u, v, u * u, u * v, v * v];
+  }
+}
+
+function normalized(x: number, size: number): number {
+  return size > 1 ? (x / (size - 1)) * 2 - 1 : 0;
+}
+
+/**
+ * Подбирает модель фона по пикселям рамки изображения (МНК в два прохода:
+ * второй проход без выбросов - частей иконки, заходящих на край)
+ */
+export function fitBackgroundModel(
+  imageData: RgbaImage,
+  type: BackgroundModelType
+): BackgroundModel {
+  const { width, height, data } = imageData;
+  const border = Math.max(1, Math.round(Math.min(width, height) * BORDER_FRACTION));
+
+  const samples: number[] = [];
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const onBorder = x < border || y < border || x >= width - border || y >= height - border;
+      if (onBorder && data[(y * width + x) * 4 + 3] > 0) samples.push(y * width + x);
+    }
+  }
+
+  const step = Math.max(1, Math.floor(samples.length / MAX_SAMPLES));
+  let points = samples.filter((_, idx) => idx % step === 0);
+
+  let model = solveModel(imageData, type, points);
+
+  if (points.length > 0) {
+    const residuals = points.map(p => pixelResidual(imageData, model, p));
+    const sorted = [...residuals].sort((a, b) => a - b);
+    const median = sorted[Math.floor(sorted.length / 2)];
+    const limit = Math.max(10, median * 1.4826 * 2.5);
+    const inliers = points.filter((_, idx) => residuals[idx] <= limit);
+
+    if (inliers.length >= basis(type, 0, 0).length) {
+      points = inliers;
+      model = solveModel(imageData, type, points);
+    }
+  }
+
+  return model;
+}
+
+/**
+ * Предсказанный цвет фона в точке (x, y)
+ */
+export function predictBackground(
+  model: BackgroundModel,
+  x: number,
+  y: number
+): { r: number; g: number; b: number } {
+  const f = basis(model.type, normalized(x, model.width), normalized(y, model.height));
+  const channel = (c: number[]) => {
+    let sum = 0;
+    for (let k = 0; k < f.length; k++) sum += c[k] * f[k];
+    return Math.max(0, Math.min(255, sum));
+  };
+  return {
+    r: channel(model.coefficients[0]),
+    g: channel(model.coefficients[1]),
+    b: channel(model.coefficients[2]),
+  };
+}
+
+/**
+ * Рисует модель фона как непрозрачное изображение того же размера
+ */
+export function renderBackgroundModel(model: BackgroundModel): RgbaImage {
+  const result = createImage(model.width, model.height);
+  const out = result.data;
+
+  for (let y = 0; y < model.height; y++) {
+    for (let x = 0; x < model.width; x++) {
+      const { r, g, b } = predictBackground(model, x, y);
+      const i = (y * model.width + x) * 4;
+      out[i] = r;
+      out[i + 1] = g;
+      out[i + 2] = b;
+      out[i + 3] = 255;
+    }
+  }
+
+  return result;
+}
+
+function pixelResidual(imageData: RgbaImage, model: BackgroundModel, p: number): number {
+  const x = p % imageData.width;
+  const y = Math.floor(p / imageData.width);
+  const predicted = predictBackground(model, x, y);
+  const i = p * 4;
+  return Math.max(
+    Math.abs(imageData.data[i] - predicted.r),
+    Math.abs(imageData.data[i + 1] - predicted.g),
+    Math.abs(imageData.data[i + 2] - predicted.b)
+  );
+}
+
+/**
+ * МНК через нормальные уравнения для каждого канала
+ */
+function solveModel(imageData: RgbaImage, type: BackgroundModelType, points: number[]): BackgroundModel {
+  const { width, height, data } = imageData;
+  const n = basis(type, 0, 0).length;
+
+  const ata = Array.from({ length: n }, () => new Array<number>(n).fill(0));
+  const atb = [0, 1, 2].map(() => new Array<number>(n).fill(0));
+
+  for (const p of points) {
+    const x = p % width;
+    const y = Math.floor(p / width);
+    const f = basis(type, normalized(x, width), normalized(y, height));
+
+    for (let r = 0; r < n; r++) {
+      for (let c = 0; c < n; c++) ata[r][c] += f[r] * f[c];
+      for (let ch = 0; ch < 3; ch++) atb[ch][r] += f[r] * data[p * 4 + ch];
+    }
+  }
+
+  const coefficients = atb.map(b => solveLinear(ata, b, n)) as [number[], number[], number[]];
+
+  return { type, coefficients, width, height };
+}
+
+/**
+ * Метод Гаусса с выбором главного элемента. Вырожденные направления обнуляются
+ */
+function solveLinear(matrix: number[][], rhs: number[], n: number): number[] {
+  const a = matrix.map((row, idx) => [...row, rhs[idx]]);
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < n; r++) {
+      if (Math.abs(a[r][col]) > Math.abs(a[pivot][col])) pivot = r;
+    }
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+
+    if (Math.abs(a[col][col]) < 1e-9) continue;
+
+    for (let r = 0; r < n; r++) {
+      if (r === col) continue;
+      const factor = a[r][col] / a[col][col];
+      for (let c = col; c <= n; c++) a[r][c] -= factor * a[col][c];
+    }
+  }
+
+  return a.map((row, idx) => (Math.abs(row[idx]) < 1e-9 ? 0 : row[n] / row[idx]));
+}
@@ -0,0 +1,342 @@
+/**
+ * Автоматический подбор параметров обработки по эталонной подложке
+ */
+import type { RgbaImage } from './image';
+import { isIdentityAlignment, selectReference, warpReference, type AlignmentOptions } from './alignment';
+import { colorDistance, metricThresholdScale, type ColorMetric } from './colorDistance';
+
+export interface GlassOutlineEstimate {
+  outlineWidth: number; // Ширина светлого ободка (1-5 px)
+  brightness: number; // Порог яркости для удаления обводки (0-255)
+  confidence: number; // Уверенность 0-1 (0 - ободок не найден, значения по умолчанию)
+}
+
+const DEFAULT_GLASS: GlassOutlineEstimate = { outlineWidth: 2, brightness: 200, confidence: 0 };
+const MAX_RIM_DEPTH = 12;
+const MAX_OUTLINE_WIDTH = 5;
+
+/**
+ * Оценивает светлую обводку liquid glass по эталону.
+ * Считаем среднюю яркость подложки на каждом расстоянии от её внешнего края:
+ * ободок - это подряд идущие от края слои, заметно светлее внутренней части.
+ */
+export function estimateGlassOutline(reference: RgbaImage): GlassOutlineEstimate {
+  const { width, height, data } = reference;
+  const depth = distanceFromEdge(reference);
+
+  const layerSum = new Float64Array(MAX_RIM_DEPTH + 1);
+  const layerCount = new Uint32Array(MAX_RIM_DEPTH + 1);
+  const interior: number[] = [];
+
+  for (let p = 0; p < width * height; p++) {
+    const d = depth[p];
+    if (d === 0) continue;
+    const i = p * 4;
+    const brightness = (data[i] + data[i + 1] + data[i + 2]) / 3;
+
+    if (d <= MAX_RIM_DEPTH) {
+      layerSum[d] += brightness;
+      layerCount[d]++;
+    } else if (d <= MAX_RIM_DEPTH * 3) {
+      interior.push(brightness);
+    }
+  }
+
+  if (interior.length < 16 || layerCount[1] === 0) return DEFAULT_GLASS;
+
+  interior.sort((a, b) => a - b);
+  const interiorMedian = interior[Math.floor(interior.length / 2)];
+  const deviation = interior[Math.floor(interior.length * 0.84)] - interiorMedian;
+  const minContrast = Math.max(12, deviation * 2);
+
+  let rimWidth = 0;
+  let rimSum = 0;
+  for (let d = 1; d <= MAX_RIM_DEPTH; d++) {
+    if (layerCount[d] === 0) break;
+    const mean = layerSum[d] / layerCount[d];
+    if (mean - interiorMedian < minContrast) break;
+    rimWidth++;
+    rimSum += mean;
+  }
+
+  if (rimWidth === 0) return DEFAULT_GLASS;
+
+  const rimBrightness = rimSum / rimWidth;
+  const contrast = rimBrightness - interiorMedian;
+
+  return {
+    outlineWidth: Math.min(MAX_OUTLINE_WIDTH, rimWidth),
+    // Середина между ободком и внутренней частью - светлее считается обводкой
+    brightness: Math.round(Math.min(255, Math.max(0, interiorMedian + contrast / 2))),
+    confidence: Math.min(1, contrast / 60) * (rimWidth <= MAX_OUTLINE_WIDTH ? 1 : 0.5),
+  };
+}
+
+export interface ThresholdSuggestion {
+  threshold: number; // Порог 1-100 в единицах метрики
+  transitionWidth: number; // Ширина переходной зоны (доля порога)
+  confidence: number; // Уверенность 0-1
+  noise: number; // Шум эталона (σ яркости, 0-255)
+  jpegArtifacts: number; // Выраженность блоков JPEG (0 - нет)
+}
+
+const HISTOGRAM_BINS = 101; // Значения 0-100 в единицах слайдера порога
+const MAX_DISTANCE_SAMPLES = 20000;
+
+/**
+ * Предлагает порог и ширину переходной зоны.
+ * Для выборки иконок строим гистограмму расстояний до совмещённого эталона:
+ * подложка даёт пик около нуля, иконка - далеко справа. Разделяем их методом Оцу,
+ * порог ставим чуть выше «хвоста» подложки, но не ниже уровня шума эталона.
+ * Каждая иконка сравнивается с тем эталоном, который выбрала бы обработка (selectReference),
+ * шум берётся по самому шумному из выбранных.
+ */
+export function suggestThreshold(
+  references: RgbaImage[],
+  icons: RgbaImage[],
+  metric: ColorMetric = 'rgb-max',
+  alignment: AlignmentOptions = {}
+): ThresholdSuggestion {
+  const scale = metricThresholdScale(metric);
+
+  const histogram = new Float64Array(HISTOGRAM_BINS);
+  let total = 0;
+  const used = new Set<RgbaImage>();
+
+  for (const icon of icons) {
+    const selected = selectReference(icon, references, alignment);
+    if (!selected) break;
+    const reference = references[selected.index];
+    used.add(reference);
+
+    const bg = isIdentityAlignment(selected.alignment, icon, reference)
+      ? reference
+      : warpReference(reference, selected.alignment, icon.width, icon.height);
+
+    const pixels = icon.width * icon.height;
+    const step = Math.max(1, Math.floor(pixels / (MAX_DISTANCE_SAMPLES / Math.max(1, icons.length))));
+
+    for (let p = 0; p < pixels; p += step) {
+      const i = p * 4;
+      if (bg.data[i + 3] <= 128) continue;
+      const d = colorDistance(
+        metric,
+        icon.data[i], icon.data[i + 1], icon.data[i + 2],
+        bg.data[i], bg.data[i + 1], bg.data[i + 2]
+      ) / scale;
+      histogram[Math.min(HISTOGRAM_BINS - 1, Math.floor(d))]++;
+      total++;
+    }
+  }
+
+  // Без иконок шум оцениваем по первому эталону
+  const noiseSources = used.size > 0 ? [...used] : references.slice(0, 1);
+  const noise = Math.max(0, ...noiseSources.map(reference => estimateNoise(reference)));
+  const jpegArtifacts = Math.max(0, ...noiseSources.map(estimateBlockiness));
+
+  // Уровень шума в единицах слайдера: ниже него порог ставить бессмысленно.
+  // Шум для порога меряется той же метрикой, что и расстояния (ΔE не переводится из яркости)
+  const metricNoise = Math.max(0, ...noiseSources.map(reference => estimateNoise(reference, metric)));
+  const noiseFloor = Math.min(100, Math.ceil((3 * metricNoise * (1 + jpegArtifacts)) / scale));
+
+  if (total === 0) {
+    return {
+      threshold: Math.max(1, noiseFloor),
+      transitionWidth: 0.5,
+      confidence: 0,
+      noise,
+      jpegArtifacts,
+    };
+  }
+
+  const { split, separability } = otsu(histogram, total);
+
+  // 99-й перцентиль «подложечного» кластера и 5-й перцентиль кластера иконки
+  const backgroundTail = percentile(histogram, 0, split, 0.99);
+  const foregroundHead = percentile(histogram, split + 1, HISTOGRAM_BINS - 1, 0.05);
+
+  const threshold = Math.round(Math.min(
+    Math.max(split, 1),
+    Math.max(1, noiseFloor, backgroundTail * 1.1)
+  ));
+  const transitionWidth = Math.min(1, Math.max(0.1, (foregroundHead - threshold) / threshold));
+
+  // Уверенность: насколько чётко разделены кластеры, сколько иконок в выборке,
+  // и не перекрывает ли шум эталона сам разделитель
+  const sampleFactor = Math.min(1, icons.length / 3);
+  const noisePenalty = noiseFloor > split ? 0.5 : 1;
+
+  return {
+    threshold: Math.min(100, threshold),
+    transitionWidth: Math.round(transitionWidth * 100) / 100,
+    confidence: separability * sampleFactor * noisePenalty,
+    noise,
+    jpegArtifacts,
+  };
+}
+
+/**
+ * Шум эталона: робастная σ разницы соседних пикселей - по яркости
+ * или, если задана метрика, в её единицах
+ */
+function estimateNoise(reference: RgbaImage, metric?: ColorMetric): number {
+  const { width, height, data } = reference;
+  const diffs: number[] = [];
+  const step = Math.max(1, Math.floor((width * height) / MAX_DISTANCE_SAMPLES));
+
+  for (let p = 0; p < width * height; p += step) {
+    const x = p % width;
+    if (x === width - 1) continue;
+    const i = p * 4;
+    if (data[i + 3] <= 128 || data[i + 7] <= 128) continue;
+    diffs.push(metric
+      ? colorDistance(metric, data[i], data[i + 1], data[i + 2], data[i + 4], data[i + 5], data[i + 6])
+      : Math.abs(luma(data, i) - luma(data, i + 4)));
+  }
+
+  if (diffs.length === 0) return 0;
+
+  diffs.sort((a, b) => a - b);
+  // MAD → σ, и делим на √2, так как это разница двух шумных пикселей
+  return (diffs[Math.floor(diffs.length / 2)] * 1.4826) / Math.SQRT2;
+}
+
+/**
+ * Блочность JPEG: насколько перепады на границах блоков 8×8 сильнее, чем внутри
+ */
+function estimateBlockiness(reference: RgbaImage): number {
+  const { width, height, data } = reference;
+  let boundary = 0, boundaryCount = 0;
+  let inner = 0, innerCount = 0;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width - 1; x++) {
+      const i = (y * width + x) * 4;
+      if (data[i + 3] <= 128 || data[i + 7] <= 128) continue;
+      const diff = Math.abs(luma(data, i) - luma(data, i + 4));
+      if (x % 8 === 7) {
+        boundary += diff;
+        boundaryCount++;
+      } else {
+        inner += diff;
+        innerCount++;
+      }
+    }
+  }
+
+  if (boundaryCount === 0 || innerCount === 0) return 0;
+
+  const innerMean = inner / innerCount;
+  const boundaryMean = boundary / boundaryCount;
+  if (innerMean < 0.5) return boundaryMean > 1 ? 1 : 0;
+  return Math.max(0, Math.min(1, boundaryMean / innerMean - 1));
+}
+
+function luma(data: Uint8ClampedArray, i: number): number {
+  return data[i] * 0.299 + data[i + 1] * 0.587 + data[i + 2] * 0.114;
+}
+
+/**
+ * Метод Оцу: порог, максимизирующий межклассовую дисперсию.
+ * separability - доля межклассовой дисперсии в общей (0-1)
+ */
+function otsu(histogram: Float64Array, total: number): { split: number; separability: number } {
+  let sum = 0;
+  let sumSq = 0;
+  for (let i = 0; i < histogram.length; i++) {
+    sum += i * histogram[i];
+    sumSq += i * i * histogram[i];
+  }
+
+  const mean = sum / total;
+  const variance = sumSq / total - mean * mean;
+
+  let weightBg = 0;
+  let sumBg = 0;
+  let bestSplit = 0;
+  let bestBetween = 0;
+
+  for (let t = 0; t < histogram.length - 1; t++) {
+    weightBg += histogram[t];
+    sumBg += t * histogram[t];
+    const weightFg = total - weightBg;
+    if (weightBg === 0 || weightFg === 0) continue;
+
+    const meanBg = sumBg / weightBg;
+    const meanFg = (sum - sumBg) / weightFg;
+    const between = weightBg * weightFg * (meanBg - meanFg) ** 2 / (total * total);
+
+    if (between > bestBetween) {
+      bestBetween = between;
+      bestSplit = t;
+    }
+  }
+
+  return {
+    split: bestSplit,
+    separability: variance > 0 ? Math.min(1, bestBetween / variance) : 0,
+  };
+}
+
+/**
+ * Перцентиль гистограммы в диапазоне бинов [from, to]
+ */
+function percentile(histogram: Float64Array, from: number, to: number, q: number): number {
+  let count = 0;
+  for (let i = from; i <= to; i++) count += histogram[i];
+  if (count === 0) return from;
+
+  let acc = 0;
+  for (let i = from; i <= to; i++) {
+    acc += histogram[i];
+    if (acc >= count * q) return i;
+  }
+  return to;
+}
+
+/**
+ * Расстояние (в шагах по 4 соседям) от каждого непрозрачного пикселя
+ * до прозрачной области или края изображения. 0 - пиксель прозрачный.
+ */
+function distanceFromEdge(imageData: RgbaImage): Uint16Array {
+  const { width, height, data } = imageData;
+  const depth = new Uint16Array(width * height);
+  const queue = new Int32Array(width * height);
+  let head = 0;
+  let tail = 0;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const p = y * width + x;
+      if (data[p * 4 + 3] <= 128) continue;
+
+      const onEdge =
+        x === 0 || y === 0 || x === width - 1 || y === height - 1 ||
+        data[(p - 1) * 4 + 3] <= 128 || data[(p + 1) * 4 + 3] <= 128 ||
+        data[(p - width) * 4 + 3] <= 128 || data[(p + width) * 4 + 3] <= 128;
+
+      if (onEdge) {
+        depth[p] = 1;
+        queue[tail++] = p;
+      }
+    }
+  }
+
+  while (head < tail) {
+    const p = queue[head++];
+    const x = p % width;
+    const neighbors = [
+      x > 0 ? p - 1 : -1,
+      x < width - 1 ? p + 1 : -1,
+      p - width,
+      p + width,
+    ];
+    for (const n of neighbors) {
+      if (n < 0 || n >= depth.length || depth[n] !== 0 || data[n * 4 + 3] <= 128) continue;
+      depth[n] = depth[p] + 1;
+      queue[tail++] = n;
+    }
+  }
+
+  return depth;
+}
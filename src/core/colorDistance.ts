@@ -0,0 +1,170 @@
+/**
+ * Метрики цветового расстояния для вычитания подложки и удаления по цвету.
+ * RGB-метрики измеряются в 0-255, Lab-метрики - в единицах ΔE.
+ * Порог слайдера (1-100) переводится в единицы метрики через metricThresholdScale.
+ */
+
+export type ColorMetric = 'rgb-max' | 'rgb-euclidean' | 'cie76' | 'ciede2000';
+
+export const COLOR_METRICS: Array<{ id: ColorMetric; name: string; unit: string }> = [
+  { id: 'rgb-max', name: 'RGB (макс. канал)', unit: '% канала' },
+  { id: 'rgb-euclidean', name: 'RGB (евклидово)', unit: '% диагонали RGB' },
+  { id: 'cie76', name: 'CIE76 (ΔE*ab)', unit: 'ΔE' },
+  { id: 'ciede2000', name: 'CIEDE2000 (ΔE00)', unit: 'ΔE00' },
+];
+
+export interface Lab {
+  l: number;
+  a: number;
+  b: number;
+}
+
+// sRGB → линейный RGB для каждого значения канала
+const SRGB_TO_LINEAR = new Float64Array(256);
+for (let i = 0; i < 256; i++) {
+  const c = i / 255;
+  SRGB_TO_LINEAR[i] = c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+}
+
+// Белая точка D65
+const XN = 0.95047;
+const YN = 1.0;
+const ZN = 1.08883;
+
+function labF(t: number): number {
+  return t > 216 / 24389 ? Math.cbrt(t) : (24389 / 27 * t + 16) / 116;
+}
+
+/**
+ * Переводит sRGB (0-255) в CIELAB (D65)
+ */
+export function rgbToLab(r: number, g: number, b: number): Lab {
+  const lr = SRGB_TO_LINEAR[Math.round(r)];
+  const lg = SRGB_TO_LINEAR[Math.round(g)];
+  const lb = SRGB_TO_LINEAR[Math.round(b)];
+
+  const x = (lr * 0.4124564 + lg * 0.3575761 + lb * 0.1804375) / XN;
+  const y = (lr * 0.2126729 + lg * 0.7151522 + lb * 0.072175) / YN;
+  const z = (lr * 0.0193339 + lg * 0.119192 + lb * 0.9503041) / ZN;
+
+  const fx = labF(x);
+  const fy = labF(y);
+  const fz = labF(z);
+
+  return { l: 116 * fy - 16, a: 500 * (fx - fy), b: 200 * (fy - fz) };
+}
+
+/**
+ * ΔE*ab (CIE76) - евклидово расстояние в CIELAB
+ */
+export function deltaE76(lab1: Lab, lab2: Lab): number {
+  const dl = lab1.l - lab2.l;
+  const da = lab1.a - lab2.a;
+  const db = lab1.b - lab2.b;
+  return Math.sqrt(dl * dl + da * da + db * db);
+}
+
+/**
+ * ΔE00 (CIEDE2000) с единичными весовыми коэффициентами
+ */
+export function deltaE2000(lab1: Lab, lab2: Lab): number {
+  const rad = Math.PI / 180;
+
+  const c1 = Math.hypot(lab1.a, lab1.b);
+  const c2 = Math.hypot(lab2.a, lab2.b);
+  const cMean = (c1 + c2) / 2;
+  const cMean7 = Math.pow(cMean, 7);
+  const g = 0.5 * (1 - Math.sqrt(cMean7 / (cMean7 + Math.pow(25, 7))));
+
+  const a1 = lab1.a * (1 + g);
+  const a2 = lab2.a * (1 + g);
+  const c1p = Math.hypot(a1, lab1.b);
+  const c2p = Math.hypot(a2, lab2.b);
+
+  const hue = (bv: number, av: number) => {
+    if (bv === 0 && av === 0) return 0;
+    const h = Math.atan2(bv, av) / rad;
+    return h < 0 ? h + 360 : h;
+  };
+  const h1p = hue(lab1.b, a1);
+  const h2p = hue(lab2.b, a2);
+
+  const dLp = lab2.l - lab1.l;
+  const dCp = c2p - c1p;
+
+  let dhp = 0;
+  if (c1p * c2p !== 0) {
+    dhp = h2p - h1p;
+    if (dhp > 180) dhp -= 360;
+    else if (dhp < -180) dhp += 360;
+  }
+  const dHp = 2 * Math.sqrt(c1p * c2p) * Math.sin((dhp / 2) * rad);
+
+  const lMean = (lab1.l + lab2.l) / 2;
+  const cMeanP = (c1p + c2p) / 2;
+
+  let hMeanP = h1p + h2p;
+  if (c1p * c2p !== 0) {
+    if (Math.abs(h1p - h2p) <= 180) hMeanP = (h1p + h2p) / 2;
+    else if (h1p + h2p < 360) hMeanP = (h1p + h2p + 360) / 2;
+    else hMeanP = (h1p + h2p - 360) / 2;
+  }
+
+  const t =
+    1 -
+    0.17 * Math.cos((hMeanP - 30) * rad) +
+    0.24 * Math.cos(2 * hMeanP * rad) +
+    0.32 * Math.cos((3 * hMeanP + 6) * rad) -
+    0.2 * Math.cos((4 * hMeanP - 63) * rad);
+
+  const dTheta = 30 * Math.exp(-Math.pow((hMeanP - 275) / 25, 2));
+  const cMeanP7 = Math.pow(cMeanP, 7);
+  const rc = 2 * Math.sqrt(cMeanP7 / (cMeanP7 + Math.pow(25, 7)));
+  const lm50 = (lMean - 50) * (lMean - 50);
+  const sl = 1 + (0.015 * lm50) / Math.sqrt(20 + lm50);
+  const sc = 1 + 0.045 * cMeanP;
+  const sh = 1 + 0.015 * cMeanP * t;
+  const rt = -Math.sin(2 * dTheta * rad) * rc;
+
+  const lTerm = dLp / sl;
+  const cTerm = dCp / sc;
+  const hTerm = dHp / sh;
+
+  return Math.sqrt(lTerm * lTerm + cTerm * cTerm + hTerm * hTerm + rt * cTerm * hTerm);
+}
+
+/**
+ * Во сколько раз единица метрики меньше единицы слайдера порога
+ * (RGB: порог 100 = разница 255, ΔE: порог равен ΔE)
+ */
+export function metricThresholdScale(metric: ColorMetric): number {
+  return metric === 'rgb-max' || metric === 'rgb-euclidean' ? 2.55 : 1;
+}
+
+/**
+ * Расстояние между двумя цветами в единицах выбранной метрики
+ */
+export function colorDistance(
+  metric: ColorMetric,
+  r1: number,
+  g1: number,
+  b1: number,
+  r2: number,
+  g2: number,
+  b2: number
+): number {
+  switch (metric) {
+    case 'rgb-max':
+      return Math.max(Math.abs(r1 - r2), Math.abs(g1 - g2), Math.abs(b1 - b2));
+    case 'rgb-euclidean': {
+      const dr = r1 - r2;
+      const dg = g1 - g2;
+      const db = b1 - b2;
+      return Math.sqrt((dr * dr + dg * dg + db * db) / 3);
+    }
+    case 'cie76':
+      return deltaE76(rgbToLab(r1, g1, b1), rgbToLab(r2, g2, b2));
+    case 'ciede2000':
+      return deltaE2000(rgbToLab(r1, g1, b1), rgbToLab(r2, g2, b2));
+  }
+}
@@ -0,0 +1,176 @@
+/**
+ * Очистка маски по связным областям: мелкие острова в удалённом фоне
+ * и дырки внутри иконки, которые оставляет пороговое вычитание
+ */
+import type { RgbaImage } from './image';
+
+export interface ComponentCleanupOptions {
+  minIsland: number; // Удалять острова меньше стольких пикселей (0 - не удалять)
+  keepLargest: number; // Оставить только K самых крупных областей (0 - все)
+  maxHole: number; // Заполнять замкнутые дырки не больше стольких пикселей (0 - не заполнять)
+}
+
+export const DEFAULT_COMPONENT_CLEANUP: ComponentCleanupOptions = {
+  minIsland: 16,
+  keepLargest: 0,
+  maxHole: 16,
+};
+
+export interface ComponentLabels {
+  labels: Int32Array; // Номер области для каждого пикселя маски, -1 - вне маски
+  sizes: number[]; // Площадь каждой области
+  touchesBorder: boolean[]; // Касается ли область края изображения
+}
+
+/**
+ * Разметка связных областей маски: 8-связность для иконки,
+ * 4-связность для дырок (иначе дырка «протекает» по диагонали)
+ */
+export function labelComponents(
+  mask: Uint8Array,
+  width: number,
+  height: number,
+  connectivity: 4 | 8
+): ComponentLabels {
+  const labels = new Int32Array(width * height).fill(-1);
+  const sizes: number[] = [];
+  const touchesBorder: boolean[] = [];
+  const stack = new Int32Array(width * height);
+
+  for (let start = 0; start < mask.length; start++) {
+    if (!mask[start] || labels[start] !== -1) continue;
+
+    const label = sizes.length;
+    let size = 0;
+    let border = false;
+    let top = 0;
+    stack[top++] = start;
+    labels[start] = label;
+
+    while (top > 0) {
+      const idx = stack[--top];
+      const x = idx % width;
+      const y = (idx - x) / width;
+      size++;
+      if (x === 0 || y === 0 || x === width - 1 || y === height - 1) border = true;
+
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          if (dx === 0 && dy === 0) continue;
+          if (connectivity === 4 && dx !== 0 && dy !== 0) continue;
+          const nx = x + dx;
+          const ny = y + dy;
+          if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+          const nIdx = ny * width + nx;
+          if (mask[nIdx] && labels[nIdx] === -1) {
+            labels[nIdx] = label;
+            stack[top++] = nIdx;
+          }
+        }
+      }
+    }
+
+    sizes.push(size);
+    touchesBorder.push(border);
+  }
+
+  return { labels, sizes, touchesBorder };
+}
+
+/**
+ * Удаляет мелкие острова, оставляет K крупнейших областей и заполняет
+ * небольшие замкнутые дырки. Дырки берут цвет из original (изображение до
+ * удаления фона того же размера), а без него - средний цвет соседей.
+ * Изменяет изображение на месте
+ */
+export function cleanupComponents(
+  imageData: RgbaImage,
+  options: ComponentCleanupOptions,
+  original?: RgbaImage
+): void {
+  const { width, height, data } = imageData;
+  const { minIsland, keepLargest, maxHole } = options;
+
+  if (minIsland > 0 || keepLargest > 0) {
+    const mask = new Uint8Array(width * height);
+    for (let i = 0; i < mask.length; i++) mask[i] = data[i * 4 + 3] > 0 ? 1 : 0;
+
+    const { labels, sizes } = labelComponents(mask, width, height, 8);
+    const keep = sizes.map(size => size >= minIsland);
+
+    if (keepLargest > 0) {
+      const ranked = sizes
+        .map((size, label) => ({ size, label }))
+        .filter(({ label }) => keep[label])
+        .sort((a, b) => b.size - a.size || a.label - b.label);
+      for (const { label } of ranked.slice(keepLargest)) keep[label] = false;
+    }
+
+    for (let i = 0; i < labels.length; i++) {
+      if (labels[i] !== -1 && !keep[labels[i]]) data[i * 4 + 3] = 0;
+    }
+  }
+
+  if (maxHole > 0) {
+    const holes = new Uint8Array(width * height);
+    for (let i = 0; i < holes.length; i++) holes[i] = data[i * 4 + 3] === 0 ? 1 : 0;
+
+    const { labels, sizes, touchesBorder } = labelComponents(holes, width, height, 4);
+    // Прозрачная область, касающаяся края, - это фон, а не дырка
+    const fill = sizes.map((size, label) => !touchesBorder[label] && size <= maxHole);
+    const source = original && original.width === width && original.height === height ? original.data : null;
+
+    const holePixels: number[] = [];
+    for (let i = 0; i < labels.length; i++) {
+      if (labels[i] !== -1 && fill[labels[i]]) holePixels.push(i);
+    }
+
+    if (source) {
+      for (const i of holePixels) {
+        data.set(source.subarray(i * 4, i * 4 + 3), i * 4);
+        data[i * 4 + 3] = 255;
+      }
+    } else {
+      fillFromNeighbours(imageData, holePixels);
+    }
+  }
+}
+
+/**
+ * Цвет дырки - среднее видимых соседей по 8 направлениям; считаем до заполнения,
+ * поэтому порядок обхода на результат не влияет
+ */
+function fillFromNeighbours(imageData: RgbaImage, holePixels: number[]): void {
+  const { width, height, data } = imageData;
+  const colors = holePixels.map(i => {
+    const x = i % width;
+    const y = (i - x) / width;
+    let r = 0, g = 0, b = 0, count = 0;
+
+    // Ищем ближайший видимый пиксель по каждому направлению
+    for (let dy = -1; dy <= 1; dy++) {
+      for (let dx = -1; dx <= 1; dx++) {
+        if (dx === 0 && dy === 0) continue;
+        for (let nx = x + dx, ny = y + dy; nx >= 0 && ny >= 0 && nx < width && ny < height; nx += dx, ny += dy) {
+          const nIdx = (ny * width + nx) * 4;
+          if (data[nIdx + 3] > 0) {
+            r += data[nIdx];
+            g += data[nIdx + 1];
+            b += data[nIdx + 2];
+            count++;
+            break;
+          }
+        }
+      }
+    }
+
+    return count > 0 ? [r / count, g / count, b / count] : [0, 0, 0];
+  });
+
+  holePixels.forEach((i, k) => {
+    data[i * 4] = Math.round(colors[k][0]);
+    data[i * 4 + 1] = Math.round(colors[k][1]);
+    data[i * 4 + 2] = Math.round(colors[k][2]);
+    data[i * 4 + 3] = 255;
+  });
+}
@@ -0,0 +1,157 @@
+/**
+ * Подавление каймы: цвет подложки просачивается в полупрозрачный край иконки.
+ * В отличие от эрозии, альфа края сохраняется - меняется только цвет
+ */
+import type { RgbaImage } from './image';
+
+export type DefringeMethod = 'interior' | 'plate';
+
+export const DEFRINGE_METHODS: Array<{ id: DefringeMethod; name: string; description: string }> = [
+  { id: 'interior', name: 'Цвет изнутри', description: 'Край перекрашивается в цвет ближайших непрозрачных пикселей иконки' },
+  { id: 'plate', name: 'Вычесть подложку', description: 'Из цвета края вычитается вклад известного цвета подложки с учётом прозрачности' },
+];
+
+export interface DefringeOptions {
+  strength: number; // 0-1: насколько заменить цвет края
+  rimWidth: number; // Ширина обрабатываемого края в пикселях
+  method: DefringeMethod;
+}
+
+export const DEFAULT_DEFRINGE_OPTIONS: DefringeOptions = {
+  strength: 1,
+  rimWidth: 2,
+  method: 'interior',
+};
+
+type Background = { r: number; g: number; b: number } | RgbaImage;
+
+/**
+ * Перекрашивает край иконки шириной rimWidth. Метод plate без подложки
+ * (или с подложкой другого размера) работает как interior.
+ * Изменяет изображение на месте
+ */
+export function defringeEdges(imageData: RgbaImage, options: DefringeOptions, background?: Background): void {
+  const { width, height, data } = imageData;
+  const rimDistance = distanceToTransparent(imageData, options.rimWidth);
+  const strength = Math.min(1, Math.max(0, options.strength));
+
+  const usablePlate = background && (!('data' in background) || (background.width === width && background.height === height));
+  const targets = options.method === 'plate' && usablePlate
+    ? plateColors(imageData, rimDistance, background)
+    : interiorColors(imageData, rimDistance, options.rimWidth);
+
+  for (let p = 0; p < width * height; p++) {
+    const target = targets[p];
+    if (!target) continue;
+    const i = p * 4;
+    data[i] = Math.round(data[i] + (target[0] - data[i]) * strength);
+    data[i + 1] = Math.round(data[i + 1] + (target[1] - data[i + 1]) * strength);
+    data[i + 2] = Math.round(data[i + 2] + (target[2] - data[i + 2]) * strength);
+  }
+}
+
+/**
+ * Расстояние (в шагах по 8 соседям) от видимого пикселя до ближайшего прозрачного.
+ * 0 - пиксель вне края (прозрачный или глубже maxDistance)
+ */
+function distanceToTransparent(imageData: RgbaImage, maxDistance: number): Uint8Array {
+  const { width, height, data } = imageData;
+  const distance = new Uint8Array(width * height);
+  let frontier: number[] = [];
+
+  for (let p = 0; p < width * height; p++) {
+    if (data[p * 4 + 3] === 0) frontier.push(p);
+  }
+
+  for (let step = 1; step <= maxDistance && frontier.length > 0; step++) {
+    const next: number[] = [];
+    for (const p of frontier) {
+      const x = p % width;
+      const y = (p - x) / width;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = x + dx;
+          const ny = y + dy;
+          if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+          const n = ny * width + nx;
+          if (data[n * 4 + 3] === 0 || distance[n] !== 0) continue;
+          distance[n] = step;
+          next.push(n);
+        }
+      }
+    }
+    frontier = next;
+  }
+
+  return distance;
+}
+
+/**
+ * Цвет изнутри: цвета непрозрачных пикселей за краем волнами переносятся наружу,
+ * каждый пиксель края получает среднее уже окрашенных соседей
+ */
+function interiorColors(imageData: RgbaImage, rimDistance: Uint8Array, rimWidth: number): Array<number[] | undefined> {
+  const { width, height, data } = imageData;
+  const colors: Array<number[] | undefined> = new Array(width * height);
+
+  // Источник - непрозрачная иконка глубже края
+  for (let p = 0; p < width * height; p++) {
+    if (rimDistance[p] === 0 && data[p * 4 + 3] === 255) {
+      colors[p] = [data[p * 4], data[p * 4 + 1], data[p * 4 + 2]];
+    }
+  }
+
+  const targets: Array<number[] | undefined> = new Array(width * height);
+  for (let step = rimWidth; step >= 1; step--) {
+    const wave: Array<[number, number[]]> = [];
+    for (let p = 0; p < width * height; p++) {
+      if (rimDistance[p] !== step) continue;
+      const x = p % width;
+      const y = (p - x) / width;
+      let r = 0, g = 0, b = 0, count = 0;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = x + dx;
+          const ny = y + dy;
+          if ((dx === 0 && dy === 0) || nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+          const color = colors[ny * width + nx];
+          if (!color) continue;
+          r += color[0];
+          g += color[1];
+          b += color[2];
+          count++;
+        }
+      }
+      if (count > 0) wave.push([p, [r / count, g / count, b / count]]);
+    }
+    // Окрашиваем после обхода волны, чтобы пиксели одного слоя не влияли друг на друга
+    for (const [p, color] of wave) {
+      colors[p] = color;
+      targets[p] = color;
+    }
+  }
+
+  return targets;
+}
+
+/**
+ * Вычитание подложки: наблюдаемый цвет C = αF + (1 - α)B, отсюда F = (C - (1 - α)B) / α
+ */
+function plateColors(imageData: RgbaImage, rimDistance: Uint8Array, background: Background): Array<number[] | undefined> {
+  const { width, height, data } = imageData;
+  const perPixel = 'data' in background ? background.data : null;
+  const flat = 'data' in background ? null : background;
+  const targets: Array<number[] | undefined> = new Array(width * height);
+
+  for (let p = 0; p < width * height; p++) {
+    if (rimDistance[p] === 0) continue;
+    const i = p * 4;
+    const alpha = data[i + 3] / 255;
+    if (alpha >= 1) continue;
+
+    const plate = perPixel ? [perPixel[i], perPixel[i + 1], perPixel[i + 2]] : [flat!.r, flat!.g, flat!.b];
+    targets[p] = [0, 1, 2].map(c => Math.min(255, Math.max(0, (data[i + c] - (1 - alpha) * plate[c]) / alpha)));
+  }
+
+  return targets;
+}
@@ -0,0 +1,329 @@
+/**
+ * Экспериментальные методы сглаживания краёв из лаборатории (EdgeLab) без canvas.
+ * Каждый метод возвращает новое изображение и не меняет исходное.
+ * Векторизация и Безье-контуры рисуют через Canvas Path2D и остаются в компоненте
+ */
+import { cloneImage, type RgbaImage } from './image';
+import { resizeImage, type Resampler } from './resample';
+
+/**
+ * Supersampling: увеличение в scale раз, усиление контраста полупрозрачных
+ * пикселей на большом размере и уменьшение обратно. Лаборатория передаёт
+ * масштабирование через canvas, как было до переноса в ядро
+ */
+export function supersampleEdges(image: RgbaImage, scale: number, resize: Resampler = resizeImage): RgbaImage {
+  const large = cloneImage(resize(image, image.width * scale, image.height * scale));
+  const data = large.data;
+
+  // Убираем полупрозрачные пиксели на краях (делаем чётче)
+  const threshold = 128;
+  for (let i = 0; i < data.length; i += 4) {
+    const alpha = data[i + 3];
+    // Но оставляем градиент для антиалиасинга
+    if (alpha > 0 && alpha < 255) {
+      // Мягкий порог - усиливаем контраст, но сохраняем плавность
+      data[i + 3] = alpha < threshold
+        ? Math.floor(alpha * 0.5)
+        : Math.floor(alpha + (255 - alpha) * 0.5);
+    }
+  }
+
+  return resize(large, image.width, image.height);
+}
+
+/**
+ * Размытие по Гауссу только альфа-канала и только у краевых пикселей
+ */
+export function gaussianEdges(image: RgbaImage, radius: number, passes: number): RgbaImage {
+  const result = cloneImage(image);
+  const { data, width, height } = result;
+
+  const kernel = gaussianKernel(radius);
+  const kernelSize = radius * 2 + 1;
+
+  for (let pass = 0; pass < passes; pass++) {
+    const tempAlpha = new Uint8ClampedArray(width * height);
+
+    // Копируем альфа
+    for (let i = 0; i < width * height; i++) {
+      tempAlpha[i] = data[i * 4 + 3];
+    }
+
+    // Размываем только альфа-канал
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const idx = y * width + x;
+        const alpha = tempAlpha[idx];
+
+        // Обрабатываем только краевые пиксели
+        if (alpha > 10 && alpha < 245) {
+          let sum = 0;
+          let weightSum = 0;
+
+          for (let ky = -radius; ky <= radius; ky++) {
+            for (let kx = -radius; kx <= radius; kx++) {
+              const nx = x + kx;
+              const ny = y + ky;
+
+              if (nx >= 0 && nx < width && ny >= 0 && ny < height) {
+                const weight = kernel[(ky + radius) * kernelSize + (kx + radius)];
+                sum += tempAlpha[ny * width + nx] * weight;
+                weightSum += weight;
+              }
+            }
+          }
+
+          data[idx * 4 + 3] = Math.round(sum / weightSum);
+        }
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Морфология альфа-канала: сначала расширение, затем сужение (закрытие дыр и зазубрин)
+ */
+export function morphologicalEdges(image: RgbaImage, dilateRadius: number, erodeRadius: number): RgbaImage {
+  let result = cloneImage(image);
+
+  // Dilate (расширение)
+  if (dilateRadius > 0) {
+    result = morphOp(result, dilateRadius, 'dilate');
+  }
+
+  // Erode (сужение)
+  if (erodeRadius > 0) {
+    result = morphOp(result, erodeRadius, 'erode');
+  }
+
+  return result;
+}
+
+function morphOp(image: RgbaImage, radius: number, op: 'dilate' | 'erode'): RgbaImage {
+  const { data, width, height } = image;
+  const result = cloneImage(image);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let extremeAlpha = op === 'dilate' ? 0 : 255;
+
+      for (let ky = -radius; ky <= radius; ky++) {
+        for (let kx = -radius; kx <= radius; kx++) {
+          const nx = x + kx;
+          const ny = y + ky;
+
+          if (nx >= 0 && nx < width && ny >= 0 && ny < height) {
+            const alpha = data[(ny * width + nx) * 4 + 3];
+            extremeAlpha = op === 'dilate' ? Math.max(extremeAlpha, alpha) : Math.min(extremeAlpha, alpha);
+          }
+        }
+      }
+
+      result.data[(y * width + x) * 4 + 3] = extremeAlpha;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Субпиксельное сглаживание полупрозрачных пикселей со средним соседей
+ * и необязательная резкость (sharpness 100 - без изменений, 0..200)
+ */
+export function subpixelEdges(image: RgbaImage, smooth: number, sharpness: number): RgbaImage {
+  const result = cloneImage(image);
+  const { data, width, height } = result;
+
+  // Работаем с копией альфа-канала
+  const alpha = new Float32Array(width * height);
+  for (let i = 0; i < width * height; i++) {
+    alpha[i] = data[i * 4 + 3];
+  }
+
+  // Субпиксельное сглаживание - интерполяция между соседними значениями
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const idx = y * width + x;
+      const a = alpha[idx];
+
+      // Только для полупрозрачных пикселей
+      if (a > 10 && a < 245) {
+        const avg = (alpha[idx - 1] + alpha[idx + 1] + alpha[idx - width] + alpha[idx + width]) / 4;
+        data[idx * 4 + 3] = Math.round(a * (1 - smooth) + avg * smooth);
+      }
+    }
+  }
+
+  // Применяем резкость (Unsharp Mask) если sharpness != 100
+  if (sharpness !== 100) {
+    const sharpenFactor = (sharpness - 100) / 100; // -1 до +1
+
+    for (let y = 1; y < height - 1; y++) {
+      for (let x = 1; x < width - 1; x++) {
+        const idx = (y * width + x) * 4;
+        const a = data[idx + 3];
+
+        // Только для полупрозрачных/краевых пикселей
+        if (a > 10 && a < 245) {
+          let sum = 0;
+          for (let dy = -1; dy <= 1; dy++) {
+            for (let dx = -1; dx <= 1; dx++) {
+              if (dx === 0 && dy === 0) continue;
+              sum += data[((y + dy) * width + (x + dx)) * 4 + 3];
+            }
+          }
+
+          const diff = a - sum / 8;
+          data[idx + 3] = Math.max(0, Math.min(255, Math.round(a + diff * sharpenFactor)));
+        }
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Размытие контура с последующим повышением резкости переходной зоны
+ */
+export function blurSharpenEdges(
+  image: RgbaImage,
+  blurRadius: number,
+  sharpenStrength: number,
+  threshold: number
+): RgbaImage {
+  const result = cloneImage(image);
+  blurEdgesPass(result, blurRadius);
+  sharpenEdgesPass(result, sharpenStrength, threshold);
+  return result;
+}
+
+function blurEdgesPass(image: RgbaImage, radius: number): void {
+  const { data, width, height } = image;
+
+  // Край - непрозрачный пиксель, у которого есть полностью прозрачный сосед
+  const isEdge = new Uint8Array(width * height);
+
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const idx = y * width + x;
+      if (data[idx * 4 + 3] === 0) continue;
+
+      let hasTransparent = false;
+      for (let dy = -1; dy <= 1 && !hasTransparent; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          if (dx === 0 && dy === 0) continue;
+          if (data[((y + dy) * width + (x + dx)) * 4 + 3] === 0) {
+            hasTransparent = true;
+            break;
+          }
+        }
+      }
+      if (hasTransparent) isEdge[idx] = 1;
+    }
+  }
+
+  const kernel = gaussianKernel(radius);
+  const kernelSize = radius * 2 + 1;
+  const newAlpha = new Uint8ClampedArray(width * height);
+
+  for (let i = 0; i < width * height; i++) {
+    newAlpha[i] = data[i * 4 + 3];
+  }
+
+  for (let y = radius; y < height - radius; y++) {
+    for (let x = radius; x < width - radius; x++) {
+      const idx = y * width + x;
+      if (isEdge[idx] !== 1) continue;
+
+      let sum = 0;
+      let weightSum = 0;
+      for (let ky = -radius; ky <= radius; ky++) {
+        for (let kx = -radius; kx <= radius; kx++) {
+          const weight = kernel[(ky + radius) * kernelSize + (kx + radius)];
+          sum += data[((y + ky) * width + (x + kx)) * 4 + 3] * weight;
+          weightSum += weight;
+        }
+      }
+      newAlpha[idx] = Math.round(sum / weightSum);
+    }
+  }
+
+  for (let i = 0; i < width * height; i++) {
+    data[i * 4 + 3] = newAlpha[i];
+  }
+}
+
+function sharpenEdgesPass(image: RgbaImage, strength: number, threshold: number): void {
+  const { data, width, height } = image;
+
+  // Переходный пиксель - есть соседи заметно прозрачнее и заметно плотнее
+  const isEdge = new Uint8Array(width * height);
+
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const idx = y * width + x;
+      const alpha = data[idx * 4 + 3];
+      if (alpha === 0 || alpha === 255) continue;
+
+      let hasMoreTransparent = false;
+      let hasMoreOpaque = false;
+
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          if (dx === 0 && dy === 0) continue;
+          const nalpha = data[((y + dy) * width + (x + dx)) * 4 + 3];
+          if (nalpha < alpha - 20) hasMoreTransparent = true;
+          if (nalpha > alpha + 20) hasMoreOpaque = true;
+        }
+      }
+
+      if (hasMoreTransparent && hasMoreOpaque) isEdge[idx] = 1;
+    }
+  }
+
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const idx = y * width + x;
+      if (isEdge[idx] !== 1) continue;
+
+      const origAlpha = data[idx * 4 + 3];
+      let sum = 0;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          if (dx === 0 && dy === 0) continue;
+          sum += data[((y + dy) * width + (x + dx)) * 4 + 3];
+        }
+      }
+
+      const diff = origAlpha - sum / 8;
+      if (Math.abs(diff) > threshold) {
+        data[idx * 4 + 3] = Math.max(0, Math.min(255, origAlpha + diff * (strength / 100)));
+      }
+    }
+  }
+}
+
+function gaussianKernel(radius: number): number[] {
+  const size = radius * 2 + 1;
+  const kernel = new Array<number>(size * size);
+  const sigma = radius / 2;
+  let sum = 0;
+
+  for (let y = -radius; y <= radius; y++) {
+    for (let x = -radius; x <= radius; x++) {
+      const value = Math.exp(-(x * x + y * y) / (2 * sigma * sigma));
+      kernel[(y + radius) * size + (x + radius)] = value;
+      sum += value;
+    }
+  }
+
+  // Нормализуем
+  for (let i = 0; i < kernel.length; i++) {
+    kernel[i] /= sum;
+  }
+
+  return kernel;
+}
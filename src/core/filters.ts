@@ -0,0 +1,370 @@
+/**
+ * Постобработка краёв иконки после удаления подложки
+ */
+import type { RgbaImage } from './image';
+
+/**
+ * Антиалиасинг краёв - сглаживает "лесенку" БЕЗ потери деталей
+ * Добавляет полупрозрачные пиксели в пустые места для плавного перехода
+ * НЕ трогает существующие пиксели иконки (не съедает острые углы/засечки)
+ */
+export function smoothEdges(imageData: RgbaImage): void {
+  const data = imageData.data;
+  const width = imageData.width;
+  const height = imageData.height;
+
+  const originalData = new Uint8ClampedArray(data);
+
+  // Собираем пиксели для добавления (антиалиасинг)
+  const newPixels: Array<{idx: number, r: number, g: number, b: number, a: number}> = [];
+
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const idx = (y * width + x) * 4;
+      
+      // Ищем ПРОЗРАЧНЫЕ пиксели рядом с непрозрачными (там нужен антиалиасинг)
+      if (originalData[idx + 3] !== 0) continue;
+      
+      // Собираем цвета непрозрачных соседей
+      let opaqueCount = 0;
+      let totalR = 0, totalG = 0, totalB = 0;
+      let cardinalOpaque = 0; // Соседи по сторонам (не по диагонали)
+      
+      // Кардинальные направления (важнее для антиалиасинга)
+      const cardinals = [
+        { dx: 0, dy: -1 }, { dx: 0, dy: 1 },
+        { dx: -1, dy: 0 }, { dx: 1, dy: 0 }
+      ];
+      
+      // Диагонали
+      const diagonals = [
+        { dx: -1, dy: -1 }, { dx: 1, dy: -1 },
+        { dx: -1, dy: 1 }, { dx: 1, dy: 1 }
+      ];
+      
+      for (const { dx, dy } of cardinals) {
+        const nIdx = ((y + dy) * width + (x + dx)) * 4;
+        if (originalData[nIdx + 3] > 200) {
+          opaqueCount++;
+          cardinalOpaque++;
+          totalR += originalData[nIdx];
+          totalG += originalData[nIdx + 1];
+          totalB += originalData[nIdx + 2];
+        }
+      }
+      
+      for (const { dx, dy } of diagonals) {
+        const nIdx = ((y + dy) * width + (x + dx)) * 4;
+        if (originalData[nIdx + 3] > 200) {
+          opaqueCount++;
+          totalR += originalData[nIdx];
+          totalG += originalData[nIdx + 1];
+          totalB += originalData[nIdx + 2];
+        }
+      }
+      
+      // Добавляем антиалиасинг только если это "лесенка"
+      // (2-3 непрозрачных соседа, хотя бы 1 по кардинальному направлению)
+      if (opaqueCount >= 2 && opaqueCount <= 4 && cardinalOpaque >= 1) {
+        // Усредняем цвет соседей
+        const avgR = Math.round(totalR / opaqueCount);
+        const avgG = Math.round(totalG / opaqueCount);
+        const avgB = Math.round(totalB / opaqueCount);
+        
+        // Альфа зависит от количества соседей (больше соседей = плотнее пиксель)
+        // Но мягкая - это антиалиасинг, не заполнение
+        const alpha = Math.round(opaqueCount * 40); // 80-160
+        
+        newPixels.push({ idx, r: avgR, g: avgG, b: avgB, a: alpha });
+      }
+    }
+  }
+
+  // Применяем новые пиксели (антиалиасинг)
+  for (const pixel of newPixels) {
+    data[pixel.idx] = pixel.r;
+    data[pixel.idx + 1] = pixel.g;
+    data[pixel.idx + 2] = pixel.b;
+    data[pixel.idx + 3] = pixel.a;
+  }
+}
+
+/**
+ * Удаляет светлые полупрозрачные края (частые артефакты)
+ * ВАЖНО: Работает ТОЛЬКО по внешнему периметру иконки, не внутри!
+ */
+export function removeLightEdgeArtifacts(imageData: RgbaImage): void {
+  const data = imageData.data;
+  const width = imageData.width;
+  const height = imageData.height;
+
+  // Сначала находим внешний край иконки
+  const isOuterEdge = new Uint8Array(width * height);
+  
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const idx = y * width + x;
+      const pixelIdx = idx * 4;
+      
+      // Если пиксель непрозрачный или полупрозрачный
+      if (data[pixelIdx + 3] > 0) {
+        // Проверяем соседей - есть ли рядом полностью прозрачные
+        let hasTransparent = false;
+        
+        for (let dy = -1; dy <= 1; dy++) {
+          for (let dx = -1; dx <= 1; dx++) {
+            if (dx === 0 && dy === 0) continue;
+            const nIdx = ((y + dy) * width + (x + dx)) * 4;
+            if (data[nIdx + 3] === 0) {
+              hasTransparent = true;
+              break;
+            }
+          }
+          if (hasTransparent) break;
+        }
+        
+        // Это внешний край - рядом есть прозрачность
+        if (hasTransparent) {
+          isOuterEdge[idx] = 1;
+        }
+      }
+    }
+  }
+
+  // Теперь обрабатываем ТОЛЬКО внешние края
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const idx = y * width + x;
+      
+      // Обрабатываем только внешний край
+      if (isOuterEdge[idx] !== 1) continue;
+      
+      const pixelIdx = idx * 4;
+      const alpha = data[pixelIdx + 3];
+      
+      // Если пиксель полупрозрачный
+      if (alpha > 0 && alpha < 200) {
+        const r = data[pixelIdx];
+        const g = data[pixelIdx + 1];
+        const b = data[pixelIdx + 2];
+        
+        // Вычисляем яркость
+        const brightness = (r + g + b) / 3;
+        
+        // Если это светлый полупрозрачный пиксель на краю - скорее всего артефакт
+        if (brightness > 180) {
+          // Уменьшаем альфа пропорционально яркости
+          data[pixelIdx + 3] = Math.max(0, alpha - (brightness - 128));
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Эрозия - убирает пиксели по краям (удаляет тонкую обводку)
+ */
+export function erodeEdges(imageData: RgbaImage, pixels: number): void {
+  const data = imageData.data;
+  const width = imageData.width;
+  const height = imageData.height;
+
+  // Создаём копию альфа-канала
+  const alphaMap = new Uint8ClampedArray(width * height);
+  for (let i = 0; i < data.length; i += 4) {
+    alphaMap[i / 4] = data[i + 3];
+  }
+
+  // Проходим несколько раз для эрозии
+  for (let pass = 0; pass < pixels; pass++) {
+    const tempAlpha = new Uint8ClampedArray(alphaMap);
+
+    for (let y = 1; y < height - 1; y++) {
+      for (let x = 1; x < width - 1; x++) {
+        const idx = y * width + x;
+
+        // Если это край (рядом есть прозрачные пиксели)
+        if (tempAlpha[idx] > 0) {
+          let hasTransparent = false;
+
+          // Проверяем 8 соседей
+          for (let dy = -1; dy <= 1; dy++) {
+            for (let dx = -1; dx <= 1; dx++) {
+              if (dx === 0 && dy === 0) continue;
+              const neighborIdx = (y + dy) * width + (x + dx);
+              if (tempAlpha[neighborIdx] === 0) {
+                hasTransparent = true;
+                break;
+              }
+            }
+            if (hasTransparent) break;
+          }
+
+          // Если это край - делаем прозрачным
+          if (hasTransparent) {
+            alphaMap[idx] = 0;
+          }
+        }
+      }
+    }
+  }
+
+  // Применяем изменения
+  for (let i = 0; i < data.length; i += 4) {
+    data[i + 3] = alphaMap[i / 4];
+  }
+}
+
+/**
+ * Агрессивная очистка краёв - убирает все сомнительные пиксели
+ */
+export function aggressiveEdgeCleanup(imageData: RgbaImage): void {
+  const data = imageData.data;
+  const width = imageData.width;
+  const height = imageData.height;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const idx = (y * width + x) * 4;
+      const alpha = data[idx + 3];
+
+      // Если пиксель частично прозрачный (скорее всего артефакт)
+      if (alpha > 0 && alpha < 128) {
+        const r = data[idx];
+        const g = data[idx + 1];
+        const b = data[idx + 2];
+
+        // Проверяем соседей - есть ли рядом непрозрачные пиксели
+        let hasOpaque = false;
+        let opaqueCount = 0;
+
+        for (let dy = -1; dy <= 1; dy++) {
+          for (let dx = -1; dx <= 1; dx++) {
+            if (dx === 0 && dy === 0) continue;
+            const ny = y + dy;
+            const nx = x + dx;
+            if (ny >= 0 && ny < height && nx >= 0 && nx < width) {
+              const nIdx = (ny * width + nx) * 4;
+              if (data[nIdx + 3] > 200) {
+                hasOpaque = true;
+                opaqueCount++;
+              }
+            }
+          }
+        }
+
+        // Если вокруг мало непрозрачных пикселей и пиксель светлый - убираем
+        const brightness = (r + g + b) / 3;
+        if ((!hasOpaque || opaqueCount < 3) && brightness > 150) {
+          data[idx + 3] = 0;
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Удаляет светлую обводку в стиле liquid glass с краёв иконки
+ * Специально для обработки иконок с подложкой, имеющей светлый контур
+ * ВАЖНО: Работает ТОЛЬКО по ВНЕШНЕМУ периметру иконки, никогда внутри!
+ */
+export function removeLiquidGlassOutline(
+  imageData: RgbaImage,
+  outlineWidth: number,
+  brightThreshold: number
+): void {
+  const data = imageData.data;
+  const width = imageData.width;
+  const height = imageData.height;
+
+  // ШАГ 1: Находим ВНЕШНИЙ край иконки (граница с полной прозрачностью)
+  const isOuterEdge = new Uint8Array(width * height);
+  
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const idx = y * width + x;
+      const pixelIdx = idx * 4;
+      
+      // Если пиксель непрозрачный или полупрозрачный
+      if (data[pixelIdx + 3] > 0) {
+        // Проверяем соседей - есть ли рядом ПОЛНОСТЬЮ прозрачные
+        let hasFullyTransparent = false;
+        
+        for (let dy = -1; dy <= 1; dy++) {
+          for (let dx = -1; dx <= 1; dx++) {
+            if (dx === 0 && dy === 0) continue;
+            const nIdx = ((y + dy) * width + (x + dx)) * 4;
+            if (data[nIdx + 3] === 0) {
+              hasFullyTransparent = true;
+              break;
+            }
+          }
+          if (hasFullyTransparent) break;
+        }
+        
+        if (hasFullyTransparent) {
+          isOuterEdge[idx] = 1;
+        }
+      }
+    }
+  }
+
+  // ШАГ 2: Расширяем зону обработки на outlineWidth пикселей ВНУТРЬ от края
+  const processZone = new Uint8Array(width * height);
+  
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const idx = y * width + x;
+      
+      // Проверяем, находится ли пиксель в зоне обработки (близко к внешнему краю)
+      for (let dy = -outlineWidth; dy <= outlineWidth; dy++) {
+        for (let dx = -outlineWidth; dx <= outlineWidth; dx++) {
+          const ny = y + dy;
+          const nx = x + dx;
+          if (ny >= 0 && ny < height && nx >= 0 && nx < width) {
+            if (isOuterEdge[ny * width + nx] === 1) {
+              processZone[idx] = 1;
+              break;
+            }
+          }
+        }
+        if (processZone[idx] === 1) break;
+      }
+    }
+  }
+
+  // ШАГ 3: Обрабатываем ТОЛЬКО пиксели в зоне внешнего края
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const idx = y * width + x;
+      
+      // Пропускаем пиксели вне зоны обработки
+      if (processZone[idx] !== 1) continue;
+      
+      const pixelIdx = idx * 4;
+      const r = data[pixelIdx];
+      const g = data[pixelIdx + 1];
+      const b = data[pixelIdx + 2];
+      const a = data[pixelIdx + 3];
+      
+      // Пропускаем полностью прозрачные
+      if (a === 0) continue;
+      
+      // Вычисляем яркость
+      const brightness = (r + g + b) / 3;
+      
+      // Удаляем светлые пиксели на внешнем крае (обводка liquid glass)
+      if (brightness > brightThreshold) {
+        // Чем светлее пиксель - тем сильнее уменьшаем альфа
+        const brightFactor = (brightness - brightThreshold) / (255 - brightThreshold);
+        const alphaReduction = brightFactor * a;
+        data[pixelIdx + 3] = Math.max(0, a - alphaReduction);
+      }
+      
+      // Полупрозрачные светлые пиксели на краю - тоже артефакты
+      if (a > 0 && a < 180 && brightness > brightThreshold - 20) {
+        data[pixelIdx + 3] = Math.max(0, Math.floor(a * 0.3));
+      }
+    }
+  }
+}
@@ -0,0 +1,39 @@
+/**
+ * Совмещение внешней маски переднего плана (например, от нейросети) с результатом вычитания
+ */
+import type { RgbaImage } from './image';
+
+export type MlMaskMode = 'off' | 'only' | 'intersect' | 'union';
+
+/**
+ * Совмещает маску нейросети с результатом вычитания.
+ * only - альфа от модели по исходным пикселям;
+ * intersect - передний план там, где его оставили оба способа (минимум альфы);
+ * union - передний план там, где его оставил хотя бы один (максимум альфы).
+ */
+export function combineMlMask(
+  imageData: RgbaImage,
+  original: Uint8ClampedArray,
+  mask: Uint8Array,
+  mode: Exclude<MlMaskMode, 'off'>
+): void {
+  if (mask.length !== imageData.width * imageData.height) {
+    throw new Error('ML mask size does not match image');
+  }
+
+  const data = imageData.data;
+  for (let p = 0; p < mask.length; p++) {
+    const i = p * 4;
+    const mlAlpha = Math.round((mask[p] * original[i + 3]) / 255);
+
+    if (mode === 'intersect') {
+      data[i + 3] = Math.min(data[i + 3], mlAlpha);
+    } else if (mode === 'only' || mlAlpha > data[i + 3]) {
+      // Пиксель держит модель - берём исходный цвет без поправок вычитания
+      data[i] = original[i];
+      data[i + 1] = original[i + 1];
+      data[i + 2] = original[i + 2];
+      data[i + 3] = mlAlpha;
+    }
+  }
+}
@@ -0,0 +1,35 @@
+/**
+ * RGBA-буфер без зависимости от DOM. ImageData подходит под этот тип как есть,
+ * поэтому ядро одинаково работает в браузере, воркере и Node
+ */
+export interface RgbaImage {
+  readonly width: number;
+  readonly height: number;
+  readonly data: Uint8ClampedArray; // RGBA, 4 байта на пиксель, без премультипликации
+}
+
+export function createImage(width: number, height: number, data?: Uint8ClampedArray): RgbaImage {
+  const pixels = data ?? new Uint8ClampedArray(width * height * 4);
+  if (pixels.length !== width * height * 4) {
+    throw new Error(`Image buffer size ${pixels.length} does not match ${width}x${height}`);
+  }
+  return { width, height, data: pixels };
+}
+
+export function cloneImage(image: RgbaImage): RgbaImage {
+  return createImage(image.width, image.height, new Uint8ClampedArray(image.data));
+}
+
+/**
+ * Альфа-канал как изображение в оттенках серого: белое - иконка, чёрное - фон
+ */
+export function extractMatte(image: RgbaImage): RgbaImage {
+  const matte = createImage(image.width, image.height);
+  for (let i = 0; i < image.data.length; i += 4) {
+    matte.data[i] = image.data[i + 3];
+    matte.data[i + 1] = image.data[i + 3];
+    matte.data[i + 2] = image.data[i + 3];
+    matte.data[i + 3] = 255;
+  }
+  return matte;
+}
@@ -0,0 +1,156 @@
+/**
+ * Метрики качества результата: помогают найти иконки, где удаление фона
+ * сработало плохо (съело иконку, оставило подложку или светлую кайму)
+ */
+import type { RgbaImage } from './image';
+
+export interface ResultMetrics {
+  opaqueRatio: number; // Доля площади, оставшаяся непрозрачной (альфа ≥ 128)
+  residual: number; // Доля площади, где осталось что-то похожее на фон
+  halo: number; // Доля контура (с весом по альфе), окрашенная в цвет фона - кайма
+  bboxChange: number; // 1 - IoU рамки результата и рамки иконки в оригинале
+}
+
+export interface MetricBounds {
+  minOpaqueRatio: number;
+  maxOpaqueRatio: number;
+  maxResidual: number;
+  maxHalo: number;
+  maxBboxChange: number;
+}
+
+export const DEFAULT_METRIC_BOUNDS: MetricBounds = {
+  minOpaqueRatio: 0.05,
+  maxOpaqueRatio: 0.95,
+  maxResidual: 0.05,
+  maxHalo: 0.4,
+  maxBboxChange: 0.25,
+};
+
+type Background = { r: number; g: number; b: number } | RgbaImage;
+
+const OPAQUE_ALPHA = 128;
+// Макс. разница каналов, при которой пиксель считается цветом фона
+const BACKGROUND_TOLERANCE = 24;
+const HALO_TOLERANCE = 48;
+
+interface Box {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+/**
+ * Считает метрики по исходному изображению, результату того же размера
+ * и фону, относительно которого шло удаление (цвет или выровненный эталон)
+ */
+export function computeResultMetrics(original: RgbaImage, result: RgbaImage, background: Background): ResultMetrics {
+  const { width, height } = result;
+  if (original.width !== width || original.height !== height) {
+    throw new Error('Result size does not match the original');
+  }
+
+  const source = original.data;
+  const data = result.data;
+  const perPixel = 'data' in background ? background.data : null;
+  const flat = 'data' in background ? null : background;
+
+  // Насколько пиксель отличается от фона в той же точке
+  const backgroundDistance = (pixels: Uint8ClampedArray, i: number): number => {
+    const r = perPixel ? perPixel[i] : flat!.r;
+    const g = perPixel ? perPixel[i + 1] : flat!.g;
+    const b = perPixel ? perPixel[i + 2] : flat!.b;
+    return Math.max(Math.abs(pixels[i] - r), Math.abs(pixels[i + 1] - g), Math.abs(pixels[i + 2] - b));
+  };
+
+  let opaque = 0;
+  let residual = 0;
+  let contourWeight = 0;
+  let haloWeight = 0;
+  let resultBox: Box | null = null;
+  let contentBox: Box | null = null;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      const alpha = data[i + 3];
+      const distance = backgroundDistance(source, i);
+
+      if (distance > BACKGROUND_TOLERANCE) contentBox = extendBox(contentBox, x, y);
+
+      if (alpha >= OPAQUE_ALPHA) {
+        opaque++;
+        resultBox = extendBox(resultBox, x, y);
+        if (distance <= BACKGROUND_TOLERANCE) residual++;
+      }
+
+      // Контур - видимые пиксели рядом с полностью прозрачными. Полупрозрачный край
+      // почти не виден, поэтому вклад пикселя пропорционален его альфе
+      if (alpha > 0 && touchesTransparent(data, width, height, x, y)) {
+        contourWeight += alpha;
+        if (backgroundDistance(data, i) <= HALO_TOLERANCE) haloWeight += alpha;
+      }
+    }
+  }
+
+  const area = width * height;
+  return {
+    opaqueRatio: opaque / area,
+    residual: residual / area,
+    halo: contourWeight > 0 ? haloWeight / contourWeight : 0,
+    bboxChange: 1 - boxIoU(resultBox, contentBox),
+  };
+}
+
+/**
+ * Причины, по которым результат стоит проверить вручную; пустой список - всё в норме
+ */
+export function reviewReasons(metrics: ResultMetrics, bounds: MetricBounds = DEFAULT_METRIC_BOUNDS): string[] {
+  const reasons: string[] = [];
+  const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+  if (metrics.opaqueRatio < bounds.minOpaqueRatio) {
+    reasons.push(`Осталось мало иконки: ${percent(metrics.opaqueRatio)} площади`);
+  }
+  if (metrics.opaqueRatio > bounds.maxOpaqueRatio) {
+    reasons.push(`Почти ничего не удалено: ${percent(metrics.opaqueRatio)} площади`);
+  }
+  if (metrics.residual > bounds.maxResidual) {
+    reasons.push(`Остатки подложки: ${percent(metrics.residual)} площади`);
+  }
+  if (metrics.halo > bounds.maxHalo) {
+    reasons.push(`Кайма цвета фона: ${percent(metrics.halo)} контура`);
+  }
+  if (metrics.bboxChange > bounds.maxBboxChange) {
+    reasons.push(`Рамка иконки изменилась на ${percent(metrics.bboxChange)}`);
+  }
+
+  return reasons;
+}
+
+function touchesTransparent(data: Uint8ClampedArray, width: number, height: number, x: number, y: number): boolean {
+  if (x > 0 && data[(y * width + x - 1) * 4 + 3] === 0) return true;
+  if (x < width - 1 && data[(y * width + x + 1) * 4 + 3] === 0) return true;
+  if (y > 0 && data[((y - 1) * width + x) * 4 + 3] === 0) return true;
+  if (y < height - 1 && data[((y + 1) * width + x) * 4 + 3] === 0) return true;
+  return false;
+}
+
+function extendBox(box: Box | null, x: number, y: number): Box {
+  if (!box) return { left: x, top: y, right: x + 1, bottom: y + 1 };
+  box.left = Math.min(box.left, x);
+  box.top = Math.min(box.top, y);
+  box.right = Math.max(box.right, x + 1);
+  box.bottom = Math.max(box.bottom, y + 1);
+  return box;
+}
+
+function boxIoU(a: Box | null, b: Box | null): number {
+  if (!a || !b) return a === b ? 1 : 0;
+  const overlapWidth = Math.max(0, Math.min(a.right, b.right) - Math.max(a.left, b.left));
+  const overlapHeight = Math.max(0, Math.min(a.bottom, b.bottom) - Math.max(a.top, b.top));
+  const overlap = overlapWidth * overlapHeight;
+  const union = (a.right - a.left) * (a.bottom - a.top) + (b.right - b.left) * (b.bottom - b.top) - overlap;
+  return union > 0 ? overlap / union : 0;
+}
@@ -0,0 +1,108 @@
+/**
+ * Наложение иконки без фона на новую подложку
+ */
+import { createImage, type RgbaImage } from './image';
+import { resizeImage } from './resample';
+
+/**
+ * icon-to-bg - результат в размер подложки;
+ * bg-to-icon - подложка подгоняется под иконку;
+ * custom - квадрат customSize×customSize
+ */
+export type SizeMode = 'icon-to-bg' | 'bg-to-icon' | 'custom';
+
+export interface OverlayOptions {
+  sizeMode: SizeMode;
+  customSize: number;
+  iconScale: number; // Доля стороны результата, которую занимает иконка (1 = 100%)
+}
+
+export interface OverlayLayout {
+  outputSize: number; // Сторона квадратного результата
+  iconX: number;
+  iconY: number;
+  iconWidth: number;
+  iconHeight: number;
+}
+
+/**
+ * Размер результата и положение иконки (по центру, с сохранением пропорций)
+ */
+export function overlayLayout(
+  icon: { width: number; height: number },
+  background: { width: number; height: number },
+  options: OverlayOptions
+): OverlayLayout {
+  const { sizeMode, customSize, iconScale } = options;
+
+  let outputSize: number;
+  if (sizeMode === 'icon-to-bg') {
+    outputSize = Math.max(background.width, background.height);
+  } else if (sizeMode === 'bg-to-icon') {
+    outputSize = Math.max(icon.width, icon.height);
+  } else {
+    outputSize = customSize;
+  }
+
+  const iconTargetSize = outputSize * iconScale;
+  const iconRatio = icon.width / icon.height;
+
+  let iconWidth: number, iconHeight: number;
+  if (iconRatio > 1) {
+    iconWidth = iconTargetSize;
+    iconHeight = iconTargetSize / iconRatio;
+  } else {
+    iconHeight = iconTargetSize;
+    iconWidth = iconTargetSize * iconRatio;
+  }
+
+  return {
+    outputSize,
+    iconX: (outputSize - iconWidth) / 2,
+    iconY: (outputSize - iconHeight) / 2,
+    iconWidth,
+    iconHeight,
+  };
+}
+
+/**
+ * Растягивает подложку на весь результат и накладывает иконку поверх (source-over)
+ */
+export function overlayIcon(icon: RgbaImage, background: RgbaImage, options: OverlayOptions): RgbaImage {
+  const layout = overlayLayout(icon, background, options);
+  const size = layout.outputSize;
+
+  const result = createImage(size, size, new Uint8ClampedArray(resizeImage(background, size, size).data));
+
+  // Иконку рисуем с точностью до пикселя
+  const iconWidth = Math.max(1, Math.round(layout.iconWidth));
+  const iconHeight = Math.max(1, Math.round(layout.iconHeight));
+  const left = Math.round(layout.iconX);
+  const top = Math.round(layout.iconY);
+  const scaled = resizeImage(icon, iconWidth, iconHeight);
+
+  for (let y = 0; y < iconHeight; y++) {
+    const ty = top + y;
+    if (ty < 0 || ty >= size) continue;
+    for (let x = 0; x < iconWidth; x++) {
+      const tx = left + x;
+      if (tx < 0 || tx >= size) continue;
+
+      const s = (y * iconWidth + x) * 4;
+      const d = (ty * size + tx) * 4;
+      const srcA = scaled.data[s + 3] / 255;
+      if (srcA === 0) continue;
+
+      const dstA = result.data[d + 3] / 255;
+      const outA = srcA + dstA * (1 - srcA);
+      for (let c = 0; c < 3; c++) {
+        result.data[d + c] = Math.round(
+          (scaled.data[s + c] * srcA + result.data[d + c] * dstA * (1 - srcA)) / outA
+        );
+      }
+      result.data[d + 3] = Math.round(outA * 255);
+    }
+  }
+
+  return result;
+}
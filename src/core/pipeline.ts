@@ -0,0 +1,285 @@
+/**
+ * Конвейер постобработки: упорядоченный список шагов со своими параметрами.
+ * Шаги можно переставлять и повторять, конвейер сохраняется в JSON.
+ */
+import type { DefringeMethod, DefringeOptions } from './defringe';
+import type { ProcessingOptions } from './process';
+import type { TrimOptions } from './trim';
+
+export type PipelineStep =
+  | { type: 'smoothEdges' }
+  | { type: 'removeLightEdges' }
+  | { type: 'erode'; pixels: number }
+  | { type: 'edgeCleanup' }
+  | { type: 'liquidGlass'; outlineWidth: number; brightness: number }
+  | { type: 'supersample'; scale: number }
+  | ({ type: 'trim' } & TrimOptions)
+  | { type: 'components'; minIsland: number; keepLargest: number; maxHole: number }
+  | { type: 'defringe'; method: DefringeMethod; strength: number; rimWidth: number }; // strength в процентах
+
+export type PipelineStepType = PipelineStep['type'];
+
+/**
+ * Параметр шага: число в диапазоне, выбор из списка строк или флаг.
+ * По виду параметра редактор выбирает поле, а parsePipeline - проверку
+ */
+export type PipelineParamSpec =
+  | { kind: 'number'; key: string; label: string; min: number; max: number }
+  | { kind: 'choice'; key: string; label: string; choices: Array<{ value: string; label: string }> }
+  | { kind: 'flag'; key: string; label: string };
+
+export interface PipelineStepSpec {
+  name: string;
+  defaults: PipelineStep;
+  params: PipelineParamSpec[];
+}
+
+export const PIPELINE_STEPS: Record<PipelineStepType, PipelineStepSpec> = {
+  smoothEdges: {
+    name: 'Сглаживание краёв',
+    defaults: { type: 'smoothEdges' },
+    params: [],
+  },
+  removeLightEdges: {
+    name: 'Удаление светлых краёв',
+    defaults: { type: 'removeLightEdges' },
+    params: [],
+  },
+  erode: {
+    name: 'Эрозия',
+    defaults: { type: 'erode', pixels: 1 },
+    params: [{ kind: 'number', key: 'pixels', label: 'px', min: 1, max: 10 }],
+  },
+  edgeCleanup: {
+    name: 'Агрессивная очистка',
+    defaults: { type: 'edgeCleanup' },
+    params: [],
+  },
+  liquidGlass: {
+    name: 'Обводка liquid glass',
+    defaults: { type: 'liquidGlass', outlineWidth: 2, brightness: 200 },
+    params: [
+      { kind: 'number', key: 'outlineWidth', label: 'Ширина', min: 1, max: 5 },
+      { kind: 'number', key: 'brightness', label: 'Яркость', min: 0, max: 255 },
+    ],
+  },
+  supersample: {
+    name: 'Supersampling',
+    defaults: { type: 'supersample', scale: 4 },
+    params: [{ kind: 'number', key: 'scale', label: 'Масштаб', min: 2, max: 8 }],
+  },
+  components: {
+    name: 'Острова и дыры',
+    defaults: { type: 'components', minIsland: 16, keepLargest: 0, maxHole: 16 },
+    params: [
+      { kind: 'number', key: 'minIsland', label: 'Мин. остров, px', min: 0, max: 100000 },
+      { kind: 'number', key: 'keepLargest', label: 'Оставить крупных', min: 0, max: 100 },
+      { kind: 'number', key: 'maxHole', label: 'Дыры до, px', min: 0, max: 100000 },
+    ],
+  },
+  defringe: {
+    name: 'Подавление каймы',
+    defaults: { type: 'defringe', method: 'interior', strength: 100, rimWidth: 2 },
+    params: [
+      { kind: 'choice', key: 'method', label: '', choices: [{ value: 'interior', label: 'изнутри' }, { value: 'plate', label: 'подложка' }] },
+      { kind: 'number', key: 'strength', label: 'Сила, %', min: 0, max: 100 },
+      { kind: 'number', key: 'rimWidth', label: 'Край, px', min: 1, max: 10 },
+    ],
+  },
+  trim: {
+    name: 'Обрезка полей',
+    defaults: { type: 'trim', alphaCutoff: 0, padding: 0, paddingUnit: 'px', square: false },
+    params: [
+      { kind: 'number', key: 'alphaCutoff', label: 'Порог альфы', min: 0, max: 254 },
+      { kind: 'number', key: 'padding', label: 'Отступ', min: 0, max: 512 },
+      { kind: 'choice', key: 'paddingUnit', label: '', choices: [{ value: 'px', label: 'px' }, { value: '%', label: '%' }] },
+      { kind: 'flag', key: 'square', label: 'Квадрат' },
+    ],
+  },
+};
+
+export const PIPELINE_FORMAT_VERSION = 1;
+
+/**
+ * Строит конвейер из флагов ProcessingOptions в прежнем фиксированном порядке
+ */
+export function pipelineFromOptions(options: ProcessingOptions): PipelineStep[] {
+  const {
+    edgeSmoothing = true,
+    edgeCleanup = false,
+    erodePixels = 0,
+    removeLightEdges = false,
+    removeLiquidGlass = false,
+    glassOutlineWidth = 2,
+    glassBrightness = 200,
+    useSupersampling = false,
+    supersampleScale = 4,
+    trim,
+    componentCleanup,
+    defringe,
+  } = options;
+
+  const steps: PipelineStep[] = [];
+
+  // Острова и дыры чистим до сглаживания, чтобы оно не размазывало мусор
+  if (componentCleanup) steps.push({ type: 'components', ...componentCleanup });
+  // Кайму перекрашиваем, пока сглаживание не смешало её с соседями
+  if (defringe) steps.push(defringeStep(defringe));
+
+  if (edgeSmoothing) steps.push({ type: 'smoothEdges' });
+  if (removeLightEdges) steps.push({ type: 'removeLightEdges' });
+  if (erodePixels > 0) steps.push({ type: 'erode', pixels: erodePixels });
+  if (edgeCleanup) steps.push({ type: 'edgeCleanup' });
+  if (removeLiquidGlass) {
+    steps.push({ type: 'liquidGlass', outlineWidth: glassOutlineWidth, brightness: glassBrightness });
+  }
+  if (useSupersampling && supersampleScale > 1) {
+    steps.push({ type: 'supersample', scale: supersampleScale });
+  }
+  // Обрезка всегда последней: остальные шаги работают на полном холсте
+  if (trim) steps.push(trimStep(trim));
+
+  return steps;
+}
+
+export function trimStep(options: TrimOptions): PipelineStep {
+  return { type: 'trim', ...options };
+}
+
+export function trimOptionsFromStep({ type: _type, ...options }: Extract<PipelineStep, { type: 'trim' }>): TrimOptions {
+  return options;
+}
+
+export function defringeStep(options: DefringeOptions): PipelineStep {
+  return {
+    type: 'defringe',
+    method: options.method,
+    strength: Math.round(options.strength * 100),
+    rimWidth: options.rimWidth,
+  };
+}
+
+export function defringeOptionsFromStep(step: Extract<PipelineStep, { type: 'defringe' }>): DefringeOptions {
+  return {
+    method: step.method,
+    strength: step.strength / 100,
+    rimWidth: step.rimWidth,
+  };
+}
+
+/**
+ * Создаёт шаг с параметрами по умолчанию
+ */
+export function createStep(type: PipelineStepType): PipelineStep {
+  return { ...PIPELINE_STEPS[type].defaults };
+}
+
+export function serializePipeline(steps: PipelineStep[]): string {
+  return JSON.stringify({ version: PIPELINE_FORMAT_VERSION, steps }, null, 2);
+}
+
+/**
+ * Разбирает и проверяет конвейер из JSON. Принимает как объект { version, steps },
+ * так и просто массив шагов. При ошибке бросает Error с понятным сообщением.
+ */
+export function parsePipeline(json: string): PipelineStep[] {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    throw new Error('Некорректный JSON');
+  }
+
+  const list = Array.isArray(raw) ? raw : (raw as { steps?: unknown } | null)?.steps;
+  if (!Array.isArray(list)) {
+    throw new Error('Ожидается массив шагов "steps"');
+  }
+
+  const version = Array.isArray(raw) ? PIPELINE_FORMAT_VERSION : (raw as { version?: unknown }).version;
+  if (version !== undefined && version !== PIPELINE_FORMAT_VERSION) {
+    throw new Error(`Неподдерживаемая версия конвейера: ${String(version)}`);
+  }
+
+  return list.map((item, idx) => parseStep(item, idx));
+}
+
+function parseStep(item: unknown, idx: number): PipelineStep {
+  const type = (item as { type?: unknown } | null)?.type;
+  // Только собственные ключи: "constructor" или "toString" не должны сойти за шаг
+  if (typeof type !== 'string' || !Object.prototype.hasOwnProperty.call(PIPELINE_STEPS, type)) {
+    throw new Error(`Шаг ${idx + 1}: неизвестный тип "${String(type)}"`);
+  }
+
+  const stepType = type as PipelineStepType;
+  const spec = PIPELINE_STEPS[stepType];
+  const fields = item as Record<string, unknown>;
+  const defaults = spec.defaults as Record<string, unknown>;
+  const fail = (message: string) => new Error(`Шаг ${idx + 1} (${spec.name}): ${message}`);
+
+  // Отсутствующий параметр берётся из значений по умолчанию шага
+  const field = <K extends PipelineParamSpec['kind']>(key: string, kind: K) => {
+    const param = spec.params.find(p => p.key === key);
+    if (!param || param.kind !== kind) throw new Error(`Unknown ${kind} param "${key}" of ${stepType}`);
+    return { param: param as Extract<PipelineParamSpec, { kind: K }>, value: fields[key] ?? defaults[key] };
+  };
+
+  const number = (key: string): number => {
+    const { param, value } = field(key, 'number');
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      throw fail(`параметр "${key}" должен быть числом`);
+    }
+    if (value < param.min || value > param.max) {
+      throw fail(`"${key}" вне диапазона ${param.min}-${param.max}`);
+    }
+    return Math.round(value);
+  };
+
+  const choice = <T extends string>(key: string): T => {
+    const { param, value } = field(key, 'choice');
+    if (!param.choices.some(c => c.value === value)) {
+      throw fail(`"${key}" должен быть одним из ${param.choices.map(c => c.value).join(', ')}`);
+    }
+    return value as T;
+  };
+
+  const flag = (key: string): boolean => {
+    const { value } = field(key, 'flag');
+    if (typeof value !== 'boolean') throw fail(`"${key}" должен быть true или false`);
+    return value;
+  };
+
+  switch (stepType) {
+    case 'smoothEdges':
+    case 'removeLightEdges':
+    case 'edgeCleanup':
+      return { type: stepType };
+    case 'erode':
+      return { type: stepType, pixels: number('pixels') };
+    case 'liquidGlass':
+      return { type: stepType, outlineWidth: number('outlineWidth'), brightness: number('brightness') };
+    case 'supersample':
+      return { type: stepType, scale: number('scale') };
+    case 'components':
+      return {
+        type: stepType,
+        minIsland: number('minIsland'),
+        keepLargest: number('keepLargest'),
+        maxHole: number('maxHole'),
+      };
+    case 'defringe':
+      return {
+        type: stepType,
+        method: choice<DefringeMethod>('method'),
+        strength: number('strength'),
+        rimWidth: number('rimWidth'),
+      };
+    case 'trim':
+      return {
+        type: stepType,
+        alphaCutoff: number('alphaCutoff'),
+        padding: number('padding'),
+        paddingUnit: choice<TrimOptions['paddingUnit']>('paddingUnit'),
+        square: flag('square'),
+      };
+  }
+}
@@ -0,0 +1,242 @@
+/**
+ * Пресеты пакетной обработки: все настройки вкладки одним объектом.
+ * Пользовательские пресеты сохраняются и передаются в JSON
+ */
+import { BACKGROUND_MODELS, type BackgroundModelType } from './backgroundModel';
+import { COLOR_METRICS, type ColorMetric } from './colorDistance';
+import { DEFAULT_COMPONENT_CLEANUP, type ComponentCleanupOptions } from './components';
+import { DEFAULT_DEFRINGE_OPTIONS, DEFRINGE_METHODS, type DefringeOptions } from './defringe';
+import type { MlMaskMode } from './foregroundMask';
+import { DEFAULT_METRIC_BOUNDS, type MetricBounds } from './metrics';
+import { parsePipeline, PIPELINE_STEPS, type PipelineStep, type PipelineStepType } from './pipeline';
+import { DEFAULT_TRIM_OPTIONS, type TrimOptions } from './trim';
+
+export type OutputKind = 'cutout' | 'matte' | 'both';
+
+export interface BatchSettings {
+  threshold: number;
+  transitionWidth: number;
+  colorMetric?: ColorMetric; // Не задана - метрика по умолчанию
+  edgeSmoothing: boolean;
+  useColorMode: boolean; // Удаление по цвету, без эталона
+  backgroundColor: string;
+  backgroundModel: BackgroundModelType;
+  mlMask: MlMaskMode;
+  outputKind: OutputKind;
+  removeLightEdges: boolean;
+  erodePixels: number;
+  edgeCleanup: boolean;
+  useSupersampling: boolean;
+  supersampleScale: number;
+  removeLiquidGlass: boolean;
+  glassOutlineWidth: number;
+  glassBrightness: number;
+  autoAlign: boolean;
+  alphaMatting: boolean;
+  connectedOnly: boolean;
+  componentCleanupEnabled: boolean;
+  componentCleanup: ComponentCleanupOptions;
+  defringeEnabled: boolean;
+  defringeOptions: DefringeOptions;
+  trimEnabled: boolean;
+  trimOptions: TrimOptions;
+  useCustomPipeline: boolean;
+  pipeline: PipelineStep[];
+  metricBounds: MetricBounds;
+}
+
+export const DEFAULT_BATCH_SETTINGS: BatchSettings = {
+  threshold: 20,
+  transitionWidth: 0.5,
+  colorMetric: undefined,
+  edgeSmoothing: false,
+  useColorMode: false,
+  backgroundColor: '#1a1a1a',
+  backgroundModel: 'flat',
+  mlMask: 'off',
+  outputKind: 'cutout',
+  removeLightEdges: false,
+  erodePixels: 0,
+  edgeCleanup: false,
+  useSupersampling: false,
+  supersampleScale: 4,
+  removeLiquidGlass: false,
+  glassOutlineWidth: 2,
+  glassBrightness: 200,
+  autoAlign: true,
+  alphaMatting: false,
+  connectedOnly: false,
+  componentCleanupEnabled: false,
+  componentCleanup: DEFAULT_COMPONENT_CLEANUP,
+  defringeEnabled: false,
+  defringeOptions: DEFAULT_DEFRINGE_OPTIONS,
+  trimEnabled: false,
+  trimOptions: DEFAULT_TRIM_OPTIONS,
+  useCustomPipeline: false,
+  pipeline: [],
+  metricBounds: DEFAULT_METRIC_BOUNDS,
+};
+
+export interface UserPreset {
+  id: string;
+  name: string;
+  settings: BatchSettings;
+}
+
+export const PRESETS_FORMAT_VERSION = 1;
+
+// Допустимые значения строковых настроек; остальные строки (цвет) проверяются только по типу
+const CHOICES: Partial<Record<keyof BatchSettings, readonly string[]>> = {
+  colorMetric: COLOR_METRICS.map(m => m.id),
+  backgroundModel: BACKGROUND_MODELS.map(m => m.id),
+  mlMask: ['off', 'only', 'intersect', 'union'] satisfies MlMaskMode[],
+  outputKind: ['cutout', 'matte', 'both'] satisfies OutputKind[],
+};
+
+const NESTED_CHOICES: Record<string, readonly string[]> = {
+  'defringeOptions.method': DEFRINGE_METHODS.map(m => m.id),
+  'trimOptions.paddingUnit': ['px', '%'],
+};
+
+// Диапазоны числовых настроек; где настройка совпадает с параметром шага конвейера,
+// диапазон берётся из его описания
+const RANGES: Record<string, readonly [number, number]> = {
+  threshold: [1, 100],
+  transitionWidth: [0.1, 1.5],
+  erodePixels: [0, stepRange('erode', 'pixels')[1]], // 0 - без эрозии
+  supersampleScale: stepRange('supersample', 'scale'),
+  glassOutlineWidth: stepRange('liquidGlass', 'outlineWidth'),
+  glassBrightness: stepRange('liquidGlass', 'brightness'),
+  'componentCleanup.minIsland': stepRange('components', 'minIsland'),
+  'componentCleanup.keepLargest': stepRange('components', 'keepLargest'),
+  'componentCleanup.maxHole': stepRange('components', 'maxHole'),
+  'defringeOptions.strength': [0, 1], // В шаге конвейера - проценты
+  'defringeOptions.rimWidth': stepRange('defringe', 'rimWidth'),
+  'trimOptions.alphaCutoff': stepRange('trim', 'alphaCutoff'),
+  'trimOptions.padding': stepRange('trim', 'padding'),
+  'metricBounds.minOpaqueRatio': [0, 1],
+  'metricBounds.maxOpaqueRatio': [0, 1],
+  'metricBounds.maxResidual': [0, 1],
+  'metricBounds.maxHalo': [0, 1],
+  'metricBounds.maxBboxChange': [0, 1],
+};
+
+function stepRange(type: PipelineStepType, key: string): readonly [number, number] {
+  const param = PIPELINE_STEPS[type].params.find(p => p.key === key);
+  if (param?.kind !== 'number') throw new Error(`Unknown number param "${key}" of ${type}`);
+  return [param.min, param.max];
+}
+
+export function serializePresets(presets: UserPreset[]): string {
+  return JSON.stringify(
+    { version: PRESETS_FORMAT_VERSION, presets: presets.map(({ name, settings }) => ({ name, settings })) },
+    null,
+    2
+  );
+}
+
+/**
+ * Разбирает пресеты из JSON ({ version, presets } или просто массив). Недостающие
+ * настройки (пресет из старой версии) берутся по умолчанию, лишние игнорируются.
+ * id выдаёт createId. При ошибке бросает Error с понятным сообщением
+ */
+export function parsePresets(json: string, createId: () => string): UserPreset[] {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    throw new Error('Некорректный JSON');
+  }
+
+  const list = Array.isArray(raw) ? raw : (raw as { presets?: unknown } | null)?.presets;
+  if (!Array.isArray(list)) {
+    throw new Error('Ожидается массив пресетов "presets"');
+  }
+
+  const version = Array.isArray(raw) ? PRESETS_FORMAT_VERSION : (raw as { version?: unknown }).version;
+  if (version !== undefined && version !== PRESETS_FORMAT_VERSION) {
+    throw new Error(`Неподдерживаемая версия пресетов: ${String(version)}`);
+  }
+
+  return list.map((item, idx) => {
+    const name = (item as { name?: unknown } | null)?.name;
+    if (typeof name !== 'string' || !name.trim()) {
+      throw new Error(`Пресет ${idx + 1}: нужно непустое имя "name"`);
+    }
+    try {
+      return { id: createId(), name: name.trim(), settings: parseSettings((item as { settings?: unknown }).settings) };
+    } catch (error) {
+      throw new Error(`Пресет «${name.trim()}»: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  });
+}
+
+/**
+ * Проверяет настройки по типам значений по умолчанию и диапазонам чисел,
+ * дополняет недостающие
+ */
+export function parseSettings(raw: unknown): BatchSettings {
+  if (!isPlainObject(raw)) {
+    throw new Error('настройки "settings" должны быть объектом');
+  }
+
+  const settings: Record<string, unknown> = {};
+  for (const key of Object.keys(DEFAULT_BATCH_SETTINGS) as Array<keyof BatchSettings>) {
+    const value = raw[key];
+    const fallback = DEFAULT_BATCH_SETTINGS[key];
+
+    if (value === undefined || value === null) {
+      settings[key] = fallback;
+    } else if (key === 'pipeline') {
+      settings[key] = parsePipeline(JSON.stringify(value));
+    } else if (key === 'colorMetric') {
+      settings[key] = checkChoice(key, value, CHOICES.colorMetric!);
+    } else if (isPlainObject(fallback)) {
+      settings[key] = parseNested(key, value, fallback);
+    } else {
+      settings[key] = checkValue(key, value, fallback, CHOICES[key]);
+    }
+  }
+
+  return settings as unknown as BatchSettings;
+}
+
+function parseNested(key: string, value: unknown, fallback: Record<string, unknown>): Record<string, unknown> {
+  if (!isPlainObject(value)) {
+    throw new Error(`"${key}" должен быть объектом`);
+  }
+  const result: Record<string, unknown> = {};
+  for (const field of Object.keys(fallback)) {
+    const path = `${key}.${field}`;
+    result[field] = value[field] === undefined ? fallback[field] : checkValue(path, value[field], fallback[field], NESTED_CHOICES[path]);
+  }
+  return result;
+}
+
+function checkValue(key: string, value: unknown, fallback: unknown, choices?: readonly string[]): unknown {
+  if (typeof value !== typeof fallback || (typeof value === 'number' && !Number.isFinite(value))) {
+    throw new Error(`"${key}" должен быть ${typeName(fallback)}`);
+  }
+  const range = RANGES[key];
+  if (range && ((value as number) < range[0] || (value as number) > range[1])) {
+    throw new Error(`"${key}" вне диапазона ${range[0]}-${range[1]}`);
+  }
+  return choices ? checkChoice(key, value, choices) : value;
+}
+
+function checkChoice(key: string, value: unknown, choices: readonly string[]): string {
+  if (typeof value !== 'string' || !choices.includes(value)) {
+    throw new Error(`"${key}" должен быть одним из ${choices.join(', ')}`);
+  }
+  return value;
+}
+
+function typeName(value: unknown): string {
+  if (typeof value === 'number') return 'числом';
+  if (typeof value === 'boolean') return 'true или false';
+  return 'строкой';
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
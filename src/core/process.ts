@@ -0,0 +1,243 @@
+/**
+ * Удаление подложки целиком: выбор эталона, вычитание или удаление по цвету,
+ * маски и постобработка. Работает только с RGBA-буферами, без DOM
+ */
+import { isIdentityAlignment, selectReference, warpReference, type ReferenceAlignment } from './alignment';
+import type { ColorMetric } from './colorDistance';
+import { fitBackgroundModel, renderBackgroundModel, type BackgroundModelType } from './backgroundModel';
+import {
+  aggressiveEdgeCleanup,
+  erodeEdges,
+  removeLightEdgeArtifacts,
+  removeLiquidGlassOutline,
+  smoothEdges,
+} from './filters';
+import { cleanupComponents, type ComponentCleanupOptions } from './components';
+import { defringeEdges, type DefringeOptions } from './defringe';
+import { combineMlMask, type MlMaskMode } from './foregroundMask';
+import { cloneImage, type RgbaImage } from './image';
+import { computeResultMetrics, type ResultMetrics } from './metrics';
+import { defringeOptionsFromStep, pipelineFromOptions, trimOptionsFromStep, type PipelineStep } from './pipeline';
+import {
+  detectBackgroundColor,
+  hexToRgb,
+  matteAgainstReference,
+  removeByColor,
+  restoreUnconnected,
+  subtractBackground,
+} from './removal';
+import { supersample, type Resampler } from './resample';
+import { composeCrop, trimImage, uncropImage, type CropRect, type TrimOptions } from './trim';
+import { applyTrimap, type Trimap } from './trimap';
+
+export interface ProcessingOptions {
+  threshold?: number; // Порог прозрачности (0-255)
+  edgeSmoothing?: boolean; // Сглаживание краёв
+  targetBackgroundColor?: string; // Цвет подложки для удаления
+  edgeCleanup?: boolean; // Агрессивная очистка краёв от артефактов
+  erodePixels?: number; // Количество пикселей для эрозии (убирает обводку)
+  removeLightEdges?: boolean; // Удалять светлые полупрозрачные края
+  removeLiquidGlass?: boolean; // Удалять светлую обводку liquid glass
+  glassOutlineWidth?: number; // Ширина обводки (1-5 пикселей)
+  glassBrightness?: number; // Яркость обводки для удаления (0-255)
+  useSupersampling?: boolean; // Supersampling для качественных краёв
+  supersampleScale?: number; // Масштаб supersampling (2-8)
+  alignReference?: boolean; // Автоматически совмещать эталон с иконкой
+  maxAlignOffset?: number; // Максимальный сдвиг эталона при совмещении (px)
+  colorMetric?: ColorMetric; // Метрика цветового расстояния, threshold - в её единицах
+  transitionWidth?: number; // Ширина переходной зоны после порога (доля порога, по умолчанию 0.5)
+  alphaMatting?: boolean; // Решать уравнение композиции: восстанавливать цвет и альфу краёв
+  backgroundModel?: BackgroundModelType; // Модель фона в режиме по цвету (градиент, виньетка)
+  removalScope?: RemovalScope; // Удалять весь похожий фон или только связанный с краем
+  seedPoints?: Array<{ x: number; y: number }>; // Доп. точки, от которых растёт удаляемая область
+  pipeline?: PipelineStep[]; // Свой порядок постобработки (заменяет флаги шагов выше)
+  trimap?: Trimap; // Ручные мазки «оставить/удалить», применяются после удаления фона
+  mlMask?: MlMaskMode; // Маска нейросети: отдельно или вместе с вычитанием
+  trim?: TrimOptions; // Обрезать прозрачные поля в конце постобработки
+  componentCleanup?: ComponentCleanupOptions; // Убрать мелкие острова и заполнить дырки
+  defringe?: DefringeOptions; // Перекрасить кайму цвета подложки, не трогая альфу
+}
+
+/**
+ * global - удаляется каждый пиксель, похожий на фон;
+ * connected - только области фона, связанные с краем изображения или точками-затравками
+ */
+export type RemovalScope = 'global' | 'connected';
+
+export interface ProcessResult {
+  image: RgbaImage;
+  alignment?: ReferenceAlignment; // Найденное совмещение эталона (если был эталон)
+  referenceIndex?: number; // Индекс выбранного эталона (с наименьшим остатком)
+  metrics: ResultMetrics; // Метрики качества для пометки «проверить вручную»
+  crop?: CropRect; // Где результат стоял на исходном холсте, если его обрезали
+}
+
+/**
+ * Удаляет подложку с изображения, оставляя только иконку.
+ * Работает путём вычитания эталонной подложки или по цвету.
+ * Если эталонов несколько - вычитается тот, что лучше всего совпал с иконкой.
+ * foregroundMask - альфа переднего плана от внешней модели, нужна при mlMask !== 'off'.
+ * resize - масштабирование адаптера для supersampling (см. Resampler).
+ * Исходное изображение не изменяется.
+ */
+export function processImage(
+  image: RgbaImage,
+  references: RgbaImage[] = [],
+  options: ProcessingOptions = {},
+  foregroundMask?: Uint8Array,
+  resize?: Resampler
+): ProcessResult {
+  const {
+    threshold = 30,
+    targetBackgroundColor,
+    alignReference: autoAlign = true,
+    maxAlignOffset = 8,
+    colorMetric,
+    transitionWidth = 0.5,
+    alphaMatting = false,
+    backgroundModel = 'flat',
+    removalScope = 'global',
+    seedPoints = [],
+    pipeline = pipelineFromOptions(options),
+    trimap,
+    mlMask = 'off',
+  } = options;
+
+  if (mlMask !== 'off' && !foregroundMask) throw new Error('Foreground mask is required for ML mask mode');
+
+  let alignment: ReferenceAlignment | undefined;
+  let referenceIndex: number | undefined;
+
+  const imageData = cloneImage(image);
+  const beforeRemoval = image.data;
+  // Фон, относительно которого шло удаление, - для метрик качества
+  let background: RgbaImage | { r: number; g: number; b: number } | undefined;
+
+  if (foregroundMask && mlMask === 'only') {
+    // Маску целиком даёт модель, вычитание не нужно
+    combineMlMask(imageData, beforeRemoval, foregroundMask, 'only');
+  } else if (references.length > 0) {
+    // Если есть эталонные подложки, используем лучшую из них для вычитания
+    // (эталон совмещается с иконкой по сдвигу и масштабу скриншота)
+    const selected = selectReference(imageData, references, { maxOffset: maxAlignOffset, search: autoAlign });
+    if (!selected) throw new Error('Reference background not available');
+
+    alignment = selected.alignment;
+    referenceIndex = selected.index;
+    const bgData = references[selected.index];
+
+    const alignedBg = isIdentityAlignment(alignment, imageData, bgData)
+      ? bgData
+      : warpReference(bgData, alignment, imageData.width, imageData.height);
+    background = alignedBg;
+
+    // Вычитаем подложку
+    if (alphaMatting) {
+      matteAgainstReference(imageData, alignedBg, threshold, colorMetric, transitionWidth);
+    } else {
+      subtractBackground(imageData, alignedBg, threshold, colorMetric, transitionWidth);
+    }
+  } else if (backgroundModel !== 'flat') {
+    // Подбираем гладкую модель фона по краям и удаляем относительно неё
+    const model = fitBackgroundModel(imageData, backgroundModel);
+    background = renderBackgroundModel(model);
+    removeByColor(imageData, background, threshold, colorMetric);
+  } else if (targetBackgroundColor) {
+    // Удаляем по цвету
+    background = hexToRgb(targetBackgroundColor);
+    removeByColor(imageData, background, threshold, colorMetric);
+  } else {
+    // Пытаемся определить цвет подложки автоматически
+    background = detectBackgroundColor(imageData);
+    removeByColor(imageData, background, threshold, colorMetric);
+  }
+
+  // Совмещаем маску модели с результатом вычитания
+  if (foregroundMask && (mlMask === 'intersect' || mlMask === 'union')) {
+    combineMlMask(imageData, beforeRemoval, foregroundMask, mlMask);
+  }
+
+  // Оставляем удаление только там, куда фон «дотекает» от края или затравок
+  if (removalScope === 'connected') {
+    restoreUnconnected(imageData, beforeRemoval, seedPoints);
+  }
+
+  // Ручные правки важнее автоматики; постобработка идёт уже по исправленной маске
+  if (trimap) {
+    applyTrimap(imageData, beforeRemoval, trimap);
+  }
+
+  const plate = background ?? detectBackgroundColor(image);
+  const { image: result, crop } = runPipeline(imageData, pipeline, { original: image, background: plate, resize });
+  // Метрики сравнивают с оригиналом, поэтому обрезанный результат возвращаем на холст
+  const metrics = computeResultMetrics(image, crop ? uncropImage(result, crop) : result, plate);
+
+  return { image: result, alignment, referenceIndex, metrics, crop };
+}
+
+/**
+ * Что известно шагам конвейера помимо самого изображения
+ */
+export interface PipelineContext {
+  original?: RgbaImage; // Изображение до удаления фона (того же размера)
+  background?: RgbaImage | { r: number; g: number; b: number }; // Фон, который удаляли: цвет или эталон
+  resize?: Resampler; // Масштабирование адаптера для supersampling; без него - ядро
+}
+
+export interface PipelineResult {
+  image: RgbaImage;
+  crop?: CropRect; // Итоговая обрезка относительно входа, если были шаги trim
+}
+
+/**
+ * Выполняет шаги постобработки по порядку
+ */
+export function runPipeline(image: RgbaImage, steps: PipelineStep[], context: PipelineContext = {}): PipelineResult {
+  let current = image;
+  let crop: CropRect | undefined;
+
+  for (const step of steps) {
+    switch (step.type) {
+      case 'smoothEdges':
+        // Применяем сглаживание краёв
+        smoothEdges(current);
+        break;
+      case 'removeLightEdges':
+        // Агрессивная очистка краёв от светлых артефактов
+        removeLightEdgeArtifacts(current);
+        break;
+      case 'erode':
+        // Эрозия - убирает пиксели по краям (удаляет обводку)
+        erodeEdges(current, step.pixels);
+        break;
+      case 'edgeCleanup':
+        // Дополнительная очистка краёв
+        aggressiveEdgeCleanup(current);
+        break;
+      case 'liquidGlass':
+        // Удаление светлой обводки liquid glass
+        removeLiquidGlassOutline(current, step.outlineWidth, step.brightness);
+        break;
+      case 'supersample':
+        current = supersample(current, step.scale, context.resize);
+        break;
+      case 'components':
+        // Острова и дыры по связным областям маски
+        cleanupComponents(current, step, context.original);
+        break;
+      case 'defringe':
+        // Перекраска каймы без изменения альфы
+        defringeEdges(current, defringeOptionsFromStep(step), context.background);
+        break;
+      case 'trim': {
+        // Обрезка прозрачных полей; смещения нескольких обрезок складываются
+        const trimmed = trimImage(current, trimOptionsFromStep(step));
+        current = trimmed.image;
+        crop = crop ? composeCrop(crop, trimmed.crop) : trimmed.crop;
+        break;
+      }
+    }
+  }
+
+  return { image: current, crop };
+}
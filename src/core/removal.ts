@@ -0,0 +1,376 @@
+/**
+ * Удаление подложки: вычитание эталона, альфа-матирование и удаление по цвету
+ */
+import { colorDistance, metricThresholdScale, type ColorMetric } from './colorDistance';
+import type { RgbaImage } from './image';
+
+/**
+ * Вычитает эталонную подложку из изображения
+ * НОВАЯ ЛОГИКА: Удаляет ВСЁ что есть на эталоне (включая обводку!)
+ * 
+ * Принцип: Если на эталоне пиксель непрозрачный - значит это часть подложки.
+ * Если цвет на иконке похож на цвет эталона в этой точке - удаляем ПОЛНОСТЬЮ.
+ * Порог (1-100) задаётся в единицах метрики (по умолчанию - % максимального канала RGB).
+ */
+export function subtractBackground(
+  imageData: RgbaImage,
+  bgData: RgbaImage,
+  threshold: number,
+  metric: ColorMetric = 'rgb-max',
+  transitionWidth = 0.5
+): void {
+  const data = imageData.data;
+  const bgPixels = bgData.data;
+
+  // Переводим порог (1-100) в единицы метрики
+  const workingThreshold = threshold * metricThresholdScale(metric);
+
+  for (let i = 0; i < data.length; i += 4) {
+    const bgAlpha = bgPixels[i + 3]; // Альфа эталона
+    
+    // КЛЮЧЕВОЕ: Если на эталоне есть ЛЮБОЙ пиксель (alpha > 0) - это часть подложки!
+    if (bgAlpha > 0) {
+      const bgR = bgPixels[i];
+      const bgG = bgPixels[i + 1];
+      const bgB = bgPixels[i + 2];
+
+      const imgR = data[i];
+      const imgG = data[i + 1];
+      const imgB = data[i + 2];
+
+      // Вычисляем разницу цветов в выбранной метрике
+      const diff = colorDistance(metric, imgR, imgG, imgB, bgR, bgG, bgB);
+
+      // Учитываем прозрачность эталона
+      const alphaFactor = bgAlpha / 255;
+      
+      // Эффективный порог с учётом непрозрачности эталона
+      const effectiveThreshold = workingThreshold * alphaFactor;
+
+      if (diff < effectiveThreshold) {
+        // Пиксель похож на эталон - ПОЛНОСТЬЮ УДАЛЯЕМ!
+        // Никаких полупрозрачных остатков!
+        data[i + 3] = 0;
+      } else if (diff < effectiveThreshold * (1 + transitionWidth)) {
+        // Переходная зона - плавное удаление для сглаживания краёв иконки
+        const fadeout = (diff - effectiveThreshold) / (effectiveThreshold * transitionWidth);
+        data[i + 3] = Math.round(data[i + 3] * fadeout);
+      }
+      // Если разница большая - пиксель принадлежит иконке, НЕ ТРОГАЕМ
+    }
+  }
+}
+
+/**
+ * Альфа-матирование по известной подложке
+ *
+ * Пиксель края - смесь иконки и подложки: I = αF + (1 - α)B.
+ * B известна точно (эталон), F берём из ближайших «чистых» пикселей иконки,
+ * α находим проекцией (I - B) на (F - B). Цвет восстанавливаем как
+ * F = B + (I - B) / α, поэтому на краях не остаётся примеси подложки.
+ * Если рядом нет чистых пикселей иконки - берём минимальную α,
+ * при которой F остаётся в допустимом диапазоне (как color-to-alpha).
+ */
+export function matteAgainstReference(
+  imageData: RgbaImage,
+  bgData: RgbaImage,
+  threshold: number,
+  metric: ColorMetric = 'rgb-max',
+  transitionWidth = 0.5
+): void {
+  const data = imageData.data;
+  const bgPixels = bgData.data;
+  const width = imageData.width;
+  const height = imageData.height;
+
+  const workingThreshold = threshold * metricThresholdScale(metric);
+
+  // 0 - подложка, 1 - неизвестно (край), 2 - иконка
+  const BACKGROUND = 0;
+  const UNKNOWN = 1;
+  const FOREGROUND = 2;
+  const trimap = new Uint8Array(width * height);
+
+  for (let p = 0; p < trimap.length; p++) {
+    const i = p * 4;
+    const bgAlpha = bgPixels[i + 3];
+
+    if (bgAlpha === 0) {
+      trimap[p] = FOREGROUND;
+      continue;
+    }
+
+    const diff = colorDistance(
+      metric,
+      data[i], data[i + 1], data[i + 2],
+      bgPixels[i], bgPixels[i + 1], bgPixels[i + 2]
+    );
+    const effectiveThreshold = workingThreshold * (bgAlpha / 255);
+
+    trimap[p] = diff < effectiveThreshold
+      ? BACKGROUND
+      : diff < effectiveThreshold * (1 + transitionWidth)
+        ? UNKNOWN
+        : FOREGROUND;
+  }
+
+  // Пиксели иконки, граничащие с подложкой, тоже смешаны - матируем и их
+  const isUnknown = new Uint8Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const p = y * width + x;
+      if (trimap[p] === UNKNOWN) {
+        isUnknown[p] = 1;
+      } else if (trimap[p] === FOREGROUND && bgPixels[p * 4 + 3] > 0) {
+        for (let dy = -1; dy <= 1 && !isUnknown[p]; dy++) {
+          for (let dx = -1; dx <= 1; dx++) {
+            const nx = x + dx;
+            const ny = y + dy;
+            if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+            if (trimap[ny * width + nx] === BACKGROUND) {
+              isUnknown[p] = 1;
+              break;
+            }
+          }
+        }
+      }
+    }
+  }
+
+  const original = new Uint8ClampedArray(data);
+  const radius = 3;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const p = y * width + x;
+      const i = p * 4;
+
+      if (trimap[p] === BACKGROUND) {
+        data[i + 3] = 0;
+        continue;
+      }
+      if (!isUnknown[p]) continue;
+
+      const bR = bgPixels[i];
+      const bG = bgPixels[i + 1];
+      const bB = bgPixels[i + 2];
+      const dR = original[i] - bR;
+      const dG = original[i + 1] - bG;
+      const dB = original[i + 2] - bB;
+
+      // Оценка цвета иконки - среднее чистых пикселей иконки рядом
+      let fR = 0, fG = 0, fB = 0, count = 0;
+      for (let dy = -radius; dy <= radius; dy++) {
+        for (let dx = -radius; dx <= radius; dx++) {
+          const nx = x + dx;
+          const ny = y + dy;
+          if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+          const np = ny * width + nx;
+          if (trimap[np] !== FOREGROUND || isUnknown[np]) continue;
+          fR += original[np * 4];
+          fG += original[np * 4 + 1];
+          fB += original[np * 4 + 2];
+          count++;
+        }
+      }
+
+      let alpha = -1;
+      if (count > 0) {
+        const vR = fR / count - bR;
+        const vG = fG / count - bG;
+        const vB = fB / count - bB;
+        const denom = vR * vR + vG * vG + vB * vB;
+        if (denom >= 1) {
+          alpha = (dR * vR + dG * vG + dB * vB) / denom;
+        }
+      }
+
+      if (alpha < 0) {
+        // Минимальная α, при которой F = B + (I - B) / α не выходит за 0-255
+        alpha = Math.max(
+          dR > 0 ? dR / (255 - bR || 1) : dR < 0 ? -dR / (bR || 1) : 0,
+          dG > 0 ? dG / (255 - bG || 1) : dG < 0 ? -dG / (bG || 1) : 0,
+          dB > 0 ? dB / (255 - bB || 1) : dB < 0 ? -dB / (bB || 1) : 0
+        );
+      }
+
+      alpha = Math.min(1, Math.max(0, alpha));
+
+      if (alpha < 1 / 255) {
+        data[i + 3] = 0;
+        continue;
+      }
+
+      // Восстанавливаем чистый (не смешанный с подложкой) цвет
+      data[i] = bR + dR / alpha;
+      data[i + 1] = bG + dG / alpha;
+      data[i + 2] = bB + dB / alpha;
+      data[i + 3] = Math.round(original[i + 3] * alpha);
+    }
+  }
+}
+
+/**
+ * Удаляет фон по цвету
+ * Цвет фона - один на всё изображение или своё значение в каждой точке (модель фона).
+ * Без метрики сравнивается средняя разница каналов (0-255) с порогом напрямую - прежнее
+ * поведение. С метрикой расстояние переводится в единицы слайдера (metricThresholdScale),
+ * поэтому и 'rgb-max' с 'rgb-euclidean' дают другой результат, чем режим без метрики
+ */
+export function removeByColor(
+  imageData: RgbaImage,
+  background: { r: number; g: number; b: number } | RgbaImage,
+  threshold: number,
+  metric?: ColorMetric
+): void {
+  const data = imageData.data;
+  const perPixel = 'data' in background ? background.data : null;
+  const flat = 'data' in background ? null : background;
+
+  for (let i = 0; i < data.length; i += 4) {
+    const r = data[i];
+    const g = data[i + 1];
+    const b = data[i + 2];
+
+    const targetColor = perPixel
+      ? { r: perPixel[i], g: perPixel[i + 1], b: perPixel[i + 2] }
+      : flat!;
+
+    let totalDiff: number;
+    if (metric) {
+      totalDiff = colorDistance(metric, r, g, b, targetColor.r, targetColor.g, targetColor.b)
+        / metricThresholdScale(metric);
+    } else {
+      const rDiff = Math.abs(r - targetColor.r);
+      const gDiff = Math.abs(g - targetColor.g);
+      const bDiff = Math.abs(b - targetColor.b);
+      totalDiff = (rDiff + gDiff + bDiff) / 3;
+    }
+
+    if (totalDiff < threshold) {
+      data[i + 3] = 0;
+    } else {
+      const alpha = Math.min(255, (totalDiff / threshold) * 255);
+      data[i + 3] = Math.min(data[i + 3], alpha);
+    }
+  }
+}
+
+/**
+ * Заливка от края: изменённые удалением пиксели остаются изменёнными, только если
+ * они связаны (по 4 соседям) с краем изображения или с точкой-затравкой через
+ * другие изменённые пиксели. Замкнутые области внутри иконки восстанавливаются.
+ */
+export function restoreUnconnected(
+  imageData: RgbaImage,
+  original: Uint8ClampedArray,
+  seedPoints: Array<{ x: number; y: number }>
+): void {
+  const data = imageData.data;
+  const width = imageData.width;
+  const height = imageData.height;
+
+  const isChanged = (p: number) => {
+    const i = p * 4;
+    return (
+      data[i + 3] !== original[i + 3] ||
+      data[i] !== original[i] ||
+      data[i + 1] !== original[i + 1] ||
+      data[i + 2] !== original[i + 2]
+    );
+  };
+
+  const reached = new Uint8Array(width * height);
+  const stack: number[] = [];
+
+  const visit = (p: number) => {
+    if (!reached[p] && isChanged(p)) {
+      reached[p] = 1;
+      stack.push(p);
+    }
+  };
+
+  for (let x = 0; x < width; x++) {
+    visit(x);
+    visit((height - 1) * width + x);
+  }
+  for (let y = 0; y < height; y++) {
+    visit(y * width);
+    visit(y * width + width - 1);
+  }
+  for (const { x, y } of seedPoints) {
+    const sx = Math.round(x);
+    const sy = Math.round(y);
+    if (sx >= 0 && sy >= 0 && sx < width && sy < height) visit(sy * width + sx);
+  }
+
+  while (stack.length > 0) {
+    const p = stack.pop()!;
+    const x = p % width;
+    const y = (p - x) / width;
+    if (x > 0) visit(p - 1);
+    if (x < width - 1) visit(p + 1);
+    if (y > 0) visit(p - width);
+    if (y < height - 1) visit(p + width);
+  }
+
+  for (let p = 0; p < reached.length; p++) {
+    if (reached[p]) continue;
+    const i = p * 4;
+    data[i] = original[i];
+    data[i + 1] = original[i + 1];
+    data[i + 2] = original[i + 2];
+    data[i + 3] = original[i + 3];
+  }
+}
+
+/**
+ * Определяет цвет фона (берём углы изображения)
+ */
+export function detectBackgroundColor(imageData: RgbaImage): {
+  r: number;
+  g: number;
+  b: number;
+} {
+  const data = imageData.data;
+  const width = imageData.width;
+  const height = imageData.height;
+
+  // Берём 4 угла и центр краёв
+  const samples = [
+    0, // Левый верхний
+    (width - 1) * 4, // Правый верхний
+    (height - 1) * width * 4, // Левый нижний
+    ((height - 1) * width + (width - 1)) * 4, // Правый нижний
+  ];
+
+  let r = 0,
+    g = 0,
+    b = 0;
+
+  for (const idx of samples) {
+    r += data[idx];
+    g += data[idx + 1];
+    b += data[idx + 2];
+  }
+
+  return {
+    r: Math.round(r / samples.length),
+    g: Math.round(g / samples.length),
+    b: Math.round(b / samples.length),
+  };
+}
+
+/**
+ * Конвертирует HEX в RGB
+ */
+export function hexToRgb(hex: string): { r: number; g: number; b: number } {
+  const result = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex);
+  return result
+    ? {
+        r: parseInt(result[1], 16),
+        g: parseInt(result[2], 16),
+        b: parseInt(result[3], 16),
+      }
+    : { r: 0, g: 0, b: 0 };
+}
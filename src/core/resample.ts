@@ -0,0 +1,189 @@
+/**
+ * Supersampling и масштабирование без canvas
+ */
+import { createImage, type RgbaImage } from './image';
+
+/**
+ * Масштабирование до width×height. Браузерный адаптер передаёт canvas
+ * (высокое качество сглаживания), чтобы веб-интерфейс выдавал тот же результат,
+ * что и до выделения ядра; в Node используется resizeImage
+ */
+export type Resampler = (image: RgbaImage, width: number, height: number) => RgbaImage;
+
+/**
+ * Увеличение в scale раз и уменьшение обратно.
+ * С resize - буквально два масштабирования. Без него - билинейное увеличение
+ * и усреднение блоков scale×scale: обе операции линейны и разделимы, поэтому
+ * вместе они сводятся к трёхточечному ядру по каждой оси - большой буфер не нужен.
+ * Считаем в премультиплицированной альфе, чтобы прозрачный фон не затемнял края.
+ */
+export function supersample(image: RgbaImage, scale: number, resize?: Resampler): RgbaImage {
+  if (scale <= 1) return image;
+  if (resize) {
+    return resize(resize(image, image.width * scale, image.height * scale), image.width, image.height);
+  }
+
+  const kernel = supersampleKernel(scale);
+  const { width, height, data } = image;
+
+  // Премультиплицированные каналы
+  const premultiplied = new Float32Array(width * height * 4);
+  for (let i = 0; i < data.length; i += 4) {
+    const a = data[i + 3] / 255;
+    premultiplied[i] = data[i] * a;
+    premultiplied[i + 1] = data[i + 1] * a;
+    premultiplied[i + 2] = data[i + 2] * a;
+    premultiplied[i + 3] = data[i + 3];
+  }
+
+  const horizontal = convolve(premultiplied, width, height, kernel, 1, 0);
+  const blurred = convolve(horizontal, width, height, kernel, 0, 1);
+
+  const result = createImage(width, height);
+  for (let i = 0; i < blurred.length; i += 4) {
+    const alpha = blurred[i + 3];
+    result.data[i + 3] = Math.round(alpha);
+    if (alpha > 0) {
+      const k = 255 / alpha;
+      result.data[i] = Math.round(blurred[i] * k);
+      result.data[i + 1] = Math.round(blurred[i + 1] * k);
+      result.data[i + 2] = Math.round(blurred[i + 2] * k);
+    }
+  }
+  return result;
+}
+
+/**
+ * Веса соседей [-1, 0, +1]: среднее билинейных весов по scale подвыборкам пикселя
+ */
+function supersampleKernel(scale: number): [number, number, number] {
+  const kernel: [number, number, number] = [0, 0, 0];
+  for (let k = 0; k < scale; k++) {
+    const u = (k + 0.5) / scale - 0.5;
+    if (u < 0) {
+      kernel[0] += -u;
+      kernel[1] += 1 + u;
+    } else {
+      kernel[1] += 1 - u;
+      kernel[2] += u;
+    }
+  }
+  return [kernel[0] / scale, kernel[1] / scale, kernel[2] / scale];
+}
+
+function convolve(
+  source: Float32Array,
+  width: number,
+  height: number,
+  kernel: [number, number, number],
+  dx: number,
+  dy: number
+): Float32Array {
+  const result = new Float32Array(source.length);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      // Край изображения продолжается последним пикселем
+      const prev = (Math.max(0, y - dy) * width + Math.max(0, x - dx)) * 4;
+      const next = (Math.min(height - 1, y + dy) * width + Math.min(width - 1, x + dx)) * 4;
+      const i = (y * width + x) * 4;
+
+      for (let c = 0; c < 4; c++) {
+        result[i + c] = kernel[0] * source[prev + c] + kernel[1] * source[i + c] + kernel[2] * source[next + c];
+      }
+    }
+  }
+  return result;
+}
+
+/**
+ * Масштабирование до width×height: при уменьшении - усреднение по площади,
+ * при увеличении - билинейная интерполяция. Оси обрабатываются раздельно,
+ * в премультиплицированной альфе
+ */
+export function resizeImage(image: RgbaImage, width: number, height: number): RgbaImage {
+  if (width === image.width && height === image.height) return image;
+
+  const premultiplied = new Float32Array(image.width * image.height * 4);
+  for (let i = 0; i < image.data.length; i += 4) {
+    const a = image.data[i + 3] / 255;
+    premultiplied[i] = image.data[i] * a;
+    premultiplied[i + 1] = image.data[i + 1] * a;
+    premultiplied[i + 2] = image.data[i + 2] * a;
+    premultiplied[i + 3] = image.data[i + 3];
+  }
+
+  // Сначала по X (image.height строк), затем по Y
+  const horizontal = resampleAxis(premultiplied, image.width, image.height, width, true);
+  const resized = resampleAxis(horizontal, image.height, width, height, false);
+
+  const result = createImage(width, height);
+  for (let i = 0; i < resized.length; i += 4) {
+    const alpha = resized[i + 3];
+    result.data[i + 3] = Math.round(alpha);
+    if (alpha > 0) {
+      const k = 255 / alpha;
+      result.data[i] = Math.round(resized[i] * k);
+      result.data[i + 1] = Math.round(resized[i + 1] * k);
+      result.data[i + 2] = Math.round(resized[i + 2] * k);
+    }
+  }
+  return result;
+}
+
+/**
+ * Пересчитывает одну ось: srcLength -> dstLength, lines - число строк по другой оси
+ */
+function resampleAxis(
+  source: Float32Array,
+  srcLength: number,
+  lines: number,
+  dstLength: number,
+  horizontal: boolean
+): Float32Array {
+  const taps = axisWeights(srcLength, dstLength);
+  // Для горизонтального прохода ширина результата dstLength, для вертикального - lines
+  const rowWidth = horizontal ? dstLength : lines;
+  const srcRowWidth = horizontal ? srcLength : lines;
+  const result = new Float32Array(dstLength * lines * 4);
+
+  for (let line = 0; line < lines; line++) {
+    for (let d = 0; d < dstLength; d++) {
+      const out = horizontal ? (line * rowWidth + d) * 4 : (d * rowWidth + line) * 4;
+      for (const [s, w] of taps[d]) {
+        const src = horizontal ? (line * srcRowWidth + s) * 4 : (s * srcRowWidth + line) * 4;
+        result[out] += source[src] * w;
+        result[out + 1] += source[src + 1] * w;
+        result[out + 2] += source[src + 2] * w;
+        result[out + 3] += source[src + 3] * w;
+      }
+    }
+  }
+  return result;
+}
+
+function axisWeights(srcLength: number, dstLength: number): Array<Array<[number, number]>> {
+  const ratio = srcLength / dstLength;
+  const taps: Array<Array<[number, number]>> = [];
+
+  for (let d = 0; d < dstLength; d++) {
+    const weights: Array<[number, number]> = [];
+    if (ratio > 1) {
+      // Доля каждого исходного пикселя в отрезке [d·ratio, (d+1)·ratio)
+      const from = d * ratio;
+      const to = Math.min(srcLength, (d + 1) * ratio);
+      for (let s = Math.floor(from); s < to; s++) {
+        const coverage = Math.min(s + 1, to) - Math.max(s, from);
+        if (coverage > 0) weights.push([s, coverage / ratio]);
+      }
+    } else {
+      const u = Math.min(srcLength - 1, Math.max(0, (d + 0.5) * ratio - 0.5));
+      const s = Math.floor(u);
+      const t = u - s;
+      weights.push([s, 1 - t]);
+      if (t > 0) weights.push([s + 1, t]);
+    }
+    taps.push(weights);
+  }
+  return taps;
+}
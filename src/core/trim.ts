@@ -0,0 +1,135 @@
+/**
+ * Обрезка прозрачных полей вокруг иконки и обратная операция
+ */
+import { createImage, type RgbaImage } from './image';
+
+export interface TrimOptions {
+  alphaCutoff: number; // Пиксели с альфой не выше порога считаются пустыми
+  padding: number; // Отступ вокруг иконки
+  paddingUnit: 'px' | '%'; // % - от большей стороны рамки иконки
+  square: boolean; // Дополнить до квадрата, иконка по центру
+}
+
+export const DEFAULT_TRIM_OPTIONS: TrimOptions = {
+  alphaCutoff: 0,
+  padding: 0,
+  paddingUnit: 'px',
+  square: false,
+};
+
+/**
+ * Положение обрезанного изображения на исходном холсте.
+ * x, y могут быть отрицательными, если отступ вышел за край исходника
+ */
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  sourceWidth: number;
+  sourceHeight: number;
+}
+
+/**
+ * Рамка непустых пикселей [left, right) × [top, bottom) или null, если их нет
+ */
+export function alphaBounds(
+  image: RgbaImage,
+  alphaCutoff: number
+): { left: number; top: number; right: number; bottom: number } | null {
+  const { width, height, data } = image;
+  let left = width;
+  let top = height;
+  let right = 0;
+  let bottom = 0;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (data[(y * width + x) * 4 + 3] <= alphaCutoff) continue;
+      if (x < left) left = x;
+      if (x >= right) right = x + 1;
+      if (y < top) top = y;
+      bottom = y + 1;
+    }
+  }
+
+  return right > left ? { left, top, right, bottom } : null;
+}
+
+/**
+ * Обрезает изображение по рамке иконки с отступом. Пустое изображение
+ * возвращается как есть, с рамкой во весь холст
+ */
+export function trimImage(image: RgbaImage, options: TrimOptions): { image: RgbaImage; crop: CropRect } {
+  const bounds = alphaBounds(image, options.alphaCutoff);
+  if (!bounds) {
+    return { image, crop: fullFrame(image) };
+  }
+
+  const boxWidth = bounds.right - bounds.left;
+  const boxHeight = bounds.bottom - bounds.top;
+  const padding = Math.round(
+    options.paddingUnit === '%' ? (Math.max(boxWidth, boxHeight) * options.padding) / 100 : options.padding
+  );
+
+  let x = bounds.left - padding;
+  let y = bounds.top - padding;
+  let width = boxWidth + padding * 2;
+  let height = boxHeight + padding * 2;
+
+  if (options.square && width !== height) {
+    const side = Math.max(width, height);
+    x -= Math.floor((side - width) / 2);
+    y -= Math.floor((side - height) / 2);
+    width = side;
+    height = side;
+  }
+
+  const crop: CropRect = { x, y, width, height, sourceWidth: image.width, sourceHeight: image.height };
+  return { image: copyRegion(image, x, y, width, height), crop };
+}
+
+/**
+ * Возвращает обрезанное изображение на исходный холст (на прежнее место)
+ */
+export function uncropImage(image: RgbaImage, crop: CropRect): RgbaImage {
+  if (image.width !== crop.width || image.height !== crop.height) {
+    throw new Error(`Image ${image.width}x${image.height} does not match crop ${crop.width}x${crop.height}`);
+  }
+  return copyRegion(image, -crop.x, -crop.y, crop.sourceWidth, crop.sourceHeight);
+}
+
+/**
+ * Рамка второй обрезки, применённой к результату первой, - в координатах исходника
+ */
+export function composeCrop(outer: CropRect, inner: CropRect): CropRect {
+  return {
+    x: outer.x + inner.x,
+    y: outer.y + inner.y,
+    width: inner.width,
+    height: inner.height,
+    sourceWidth: outer.sourceWidth,
+    sourceHeight: outer.sourceHeight,
+  };
+}
+
+function fullFrame(image: RgbaImage): CropRect {
+  return { x: 0, y: 0, width: image.width, height: image.height, sourceWidth: image.width, sourceHeight: image.height };
+}
+
+/**
+ * Копирует прямоугольник (x, y, width, height) исходника; всё, что за его краем, - прозрачное
+ */
+function copyRegion(image: RgbaImage, x: number, y: number, width: number, height: number): RgbaImage {
+  const result = createImage(width, height);
+  const fromX = Math.max(0, x);
+  const toX = Math.min(image.width, x + width);
+  if (toX <= fromX) return result;
+
+  for (let row = Math.max(0, y); row < Math.min(image.height, y + height); row++) {
+    const src = (row * image.width + fromX) * 4;
+    const dst = ((row - y) * width + (fromX - x)) * 4;
+    result.data.set(image.data.subarray(src, src + (toX - fromX) * 4), dst);
+  }
+  return result;
+}
@@ -0,0 +1,69 @@
+/**
+ * Тримап-подсказка из ручных мазков: что точно оставить, а что точно удалить
+ */
+import type { RgbaImage } from './image';
+
+export const TRIMAP_UNKNOWN = 0;
+export const TRIMAP_KEEP = 1;
+export const TRIMAP_REMOVE = 2;
+
+export type TrimapValue = typeof TRIMAP_UNKNOWN | typeof TRIMAP_KEEP | typeof TRIMAP_REMOVE;
+
+export interface Trimap {
+  width: number;
+  height: number;
+  data: Uint8Array; // По значению на пиксель: TRIMAP_UNKNOWN / KEEP / REMOVE
+}
+
+export function createTrimap(width: number, height: number): Trimap {
+  return { width, height, data: new Uint8Array(width * height) };
+}
+
+export function cloneTrimap(trimap: Trimap): Trimap {
+  return { width: trimap.width, height: trimap.height, data: new Uint8Array(trimap.data) };
+}
+
+export function isTrimapEmpty(trimap: Trimap): boolean {
+  return trimap.data.every(v => v === TRIMAP_UNKNOWN);
+}
+
+/**
+ * Рисует круглую кисть радиуса radius с центром (cx, cy)
+ */
+export function paintTrimap(trimap: Trimap, cx: number, cy: number, radius: number, value: TrimapValue): void {
+  const { width, height, data } = trimap;
+  const r = Math.max(0.5, radius);
+  const minX = Math.max(0, Math.floor(cx - r));
+  const maxX = Math.min(width - 1, Math.ceil(cx + r));
+  const minY = Math.max(0, Math.floor(cy - r));
+  const maxY = Math.min(height - 1, Math.ceil(cy + r));
+
+  for (let y = minY; y <= maxY; y++) {
+    for (let x = minX; x <= maxX; x++) {
+      const dx = x + 0.5 - cx;
+      const dy = y + 0.5 - cy;
+      if (dx * dx + dy * dy <= r * r) data[y * width + x] = value;
+    }
+  }
+}
+
+/**
+ * Применяет тримап к результату удаления фона:
+ * «оставить» - возвращает исходный пиксель, «удалить» - делает прозрачным
+ */
+export function applyTrimap(imageData: RgbaImage, original: Uint8ClampedArray, trimap: Trimap): void {
+  if (trimap.width !== imageData.width || trimap.height !== imageData.height) return;
+
+  const data = imageData.data;
+  for (let p = 0; p < trimap.data.length; p++) {
+    const i = p * 4;
+    if (trimap.data[p] === TRIMAP_KEEP) {
+      data[i] = original[i];
+      data[i + 1] = original[i + 1];
+      data[i + 2] = original[i + 2];
+      data[i + 3] = original[i + 3];
+    } else if (trimap.data[p] === TRIMAP_REMOVE) {
+      data[i + 3] = 0;
+    }
+  }
+}
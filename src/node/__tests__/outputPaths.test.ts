@@ -0,0 +1,27 @@
+import path from 'node:path';
+import { describe, expect, it } from 'vitest';
+import { outputNames } from '@/node/outputPaths';
+
+const names = (inputs: string[]) => [...outputNames(inputs).values()].map(name => name.split(path.sep).join('/'));
+
+describe('пути результатов CLI', () => {
+  it('файлы из одной папки получают просто своё имя', () => {
+    expect(names(['shots/a.png', 'shots/b.PNG'])).toEqual(['a', 'b']);
+  });
+
+  it('подпапки входов сохраняются относительно их общей папки', () => {
+    expect(names([
+      'shots/light/menu/home.png',
+      'shots/light/tab.png',
+      'shots/dark/menu/home.png',
+    ])).toEqual(['light/menu/home', 'light/tab', 'dark/menu/home']);
+  });
+
+  it('папка с общим началом имени не считается общей', () => {
+    expect(names(['icons/a.png', 'icons-dark/a.png'])).toEqual(['icons/a', 'icons-dark/a']);
+  });
+
+  it('относительные и абсолютные пути к одной папке сводятся вместе', () => {
+    expect(names([path.resolve('set/x.png'), 'set/nested/y.png'])).toEqual(['x', 'nested/y']);
+  });
+});
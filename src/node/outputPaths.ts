@@ -0,0 +1,21 @@
+/**
+ * Пути результатов CLI: структура папок входов сохраняется в папке вывода
+ */
+import path from 'node:path';
+
+/**
+ * Имя результата без расширения - путь входа относительно общей папки всех входов.
+ * Одноимённые файлы из разных папок так не перезаписывают друг друга,
+ * а файлы из одной папки получают просто своё имя
+ */
+export function outputNames(inputs: string[]): Map<string, string> {
+  const dirs = inputs.map(input => path.dirname(path.resolve(input)));
+  let root = dirs[0];
+  const contains = (dir: string) => dir === root || dir.startsWith(root.endsWith(path.sep) ? root : root + path.sep);
+  while (!dirs.every(contains) && path.dirname(root) !== root) root = path.dirname(root);
+
+  return new Map(inputs.map(input => [
+    input,
+    path.relative(root, path.resolve(input)).replace(/\.[^/.]+$/, ''),
+  ]));
+}
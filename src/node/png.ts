@@ -0,0 +1,25 @@
+/**
+ * PNG-кодек для Node: переводит файлы в RGBA-буферы ядра и обратно
+ */
+import { readFile, writeFile } from 'node:fs/promises';
+import { PNG } from 'pngjs';
+import { createImage, type RgbaImage } from '@/core/image';
+
+export function decodePng(buffer: Buffer): RgbaImage {
+  const png = PNG.sync.read(buffer);
+  return createImage(png.width, png.height, new Uint8ClampedArray(png.data.buffer, png.data.byteOffset, png.data.length));
+}
+
+export function encodePng(image: RgbaImage): Buffer {
+  const png = new PNG({ width: image.width, height: image.height });
+  png.data = Buffer.from(image.data.buffer, image.data.byteOffset, image.data.length);
+  return PNG.sync.write(png);
+}
+
+export async function readPng(path: string): Promise<RgbaImage> {
+  return decodePng(await readFile(path));
+}
+
+export async function writePng(path: string, image: RgbaImage): Promise<void> {
+  await writeFile(path, encodePng(image));
+}
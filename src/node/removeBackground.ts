@@ -0,0 +1,50 @@
+/**
+ * Node-адаптер ядра: удаление подложки для PNG-буферов в скриптах и тестах
+ */
+import type { ReferenceAlignment } from '@/core/alignment';
+import { extractMatte } from '@/core/image';
+import type { ResultMetrics } from '@/core/metrics';
+import type { CropRect } from '@/core/trim';
+import { processImage, type ProcessingOptions as CoreProcessingOptions } from '@/core/process';
+import { decodePng, encodePng } from './png';
+
+export interface ProcessingOptions extends CoreProcessingOptions {
+  includeMatte?: boolean; // Вернуть также альфа-маску итогового изображения
+}
+
+export interface RemovalResult {
+  png: Buffer;
+  alignment?: ReferenceAlignment; // Найденное совмещение эталона (если был эталон)
+  referenceIndex?: number; // Индекс выбранного эталона (с наименьшим остатком)
+  matte?: Buffer; // Альфа-маска в оттенках серого (при includeMatte)
+  metrics: ResultMetrics;
+  crop?: CropRect; // Положение обрезанного результата на исходном холсте
+}
+
+/**
+ * То же, что браузерный removeBackground, но для PNG в памяти.
+ * Нейросетевая маска в Node недоступна - модель работает только в браузере.
+ */
+export function removeBackground(
+  image: Buffer,
+  referenceBackgrounds: Buffer[] = [],
+  options: ProcessingOptions = {}
+): RemovalResult {
+  const { mlMask = 'off', includeMatte = false } = options;
+  if (mlMask !== 'off') throw new Error('ML segmentation is not available in Node');
+
+  const { image: output, alignment, referenceIndex, metrics, crop } = processImage(
+    decodePng(image),
+    referenceBackgrounds.map(decodePng),
+    options
+  );
+
+  return {
+    png: encodePng(output),
+    alignment,
+    referenceIndex,
+    matte: includeMatte ? encodePng(extractMatte(output)) : undefined,
+    metrics,
+    crop,
+  };
+}
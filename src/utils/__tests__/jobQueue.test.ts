@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { createJobQueue } from '@/utils/jobQueue';
+
+// Очередь, задачи которой завершаются только по команде теста
+function controlledQueue(concurrency: number) {
+  const started: number[] = [];
+  const signals = new Map<number, AbortSignal>();
+  const release = new Map<number, () => void>();
+
+  const queue = createJobQueue<number>({
+    concurrency,
+    run: (item, signal) => {
+      started.push(item);
+      signals.set(item, signal);
+      return new Promise<void>(resolve => release.set(item, resolve));
+    },
+  });
+
+  const complete = async (item: number) => {
+    release.get(item)!();
+    await new Promise(resolve => setTimeout(resolve, 0));
+  };
+
+  return { queue, started, signals, complete };
+}
+
+describe('очередь задач', () => {
+  it('увеличение параллельности на ходу сразу запускает ожидающие задачи', () => {
+    const { queue, started } = controlledQueue(1);
+    queue.enqueue([1, 2, 3, 4]);
+    expect(started).toEqual([1]);
+
+    queue.setConcurrency(3);
+    expect(started).toEqual([1, 2, 3]);
+    expect(queue.stats()).toMatchObject({ active: 3, pending: 1 });
+  });
+
+  it('уменьшение параллельности не прерывает текущие, а ждёт их завершения', async () => {
+    const { queue, started, signals, complete } = controlledQueue(3);
+    queue.enqueue([1, 2, 3, 4, 5]);
+
+    queue.setConcurrency(1);
+    expect(started).toEqual([1, 2, 3]);
+    expect([...signals.values()].some(s => s.aborted)).toBe(false);
+
+    // Пока активных больше нового предела, новые задачи не начинаются
+    await complete(1);
+    await complete(2);
+    expect(started).toEqual([1, 2, 3]);
+
+    await complete(3);
+    expect(started).toEqual([1, 2, 3, 4]);
+    expect(queue.stats()).toMatchObject({ active: 1, pending: 1 });
+  });
+
+  it('отмена снимает ожидающие задачи и прерывает текущие', async () => {
+    const { queue, started, signals } = controlledQueue(2);
+    queue.enqueue([1, 2, 3, 4]);
+
+    queue.cancel();
+    await queue.finished;
+
+    expect(started).toEqual([1, 2]);
+    expect(signals.get(1)!.aborted).toBe(true);
+    expect(signals.get(2)!.aborted).toBe(true);
+    expect(queue.stats()).toMatchObject({ state: 'cancelled', pending: 0, active: 0 });
+    // В отменённую очередь ничего не добавить - нужен новый запуск
+    expect(queue.enqueue([5])).toBe(false);
+  });
+
+  it('после паузы задачи не начинаются, после продолжения - идут дальше', async () => {
+    const { queue, started, complete } = controlledQueue(1);
+    queue.enqueue([1, 2, 3]);
+
+    queue.pause();
+    await complete(1);
+    expect(started).toEqual([1]);
+    expect(queue.stats()).toMatchObject({ state: 'paused', completed: 1, pending: 2 });
+
+    queue.resume();
+    expect(started).toEqual([1, 2]);
+
+    await complete(2);
+    await complete(3);
+    await queue.finished;
+    expect(queue.stats()).toMatchObject({ state: 'finished', completed: 3, failed: 0 });
+  });
+});
@@ -0,0 +1,33 @@
+/**
+ * Подбор параметров по файлам: декодирует изображения и передаёт их оценщикам ядра
+ */
+import { loadImageData } from './backgroundRemoval';
+import type { AlignmentOptions } from '@/core/alignment';
+import {
+  estimateGlassOutline,
+  suggestThreshold,
+  type GlassOutlineEstimate,
+  type ThresholdSuggestion,
+} from '@/core/calibration';
+import type { ColorMetric } from '@/core/colorDistance';
+
+export async function calibrateThreshold(
+  references: Blob[],
+  icons: Blob[],
+  metric?: ColorMetric,
+  alignment?: AlignmentOptions
+): Promise<ThresholdSuggestion> {
+  const referenceData: ImageData[] = [];
+  for (const reference of references) {
+    referenceData.push(await loadImageData(reference));
+  }
+  const iconData: ImageData[] = [];
+  for (const icon of icons) {
+    iconData.push(await loadImageData(icon));
+  }
+  return suggestThreshold(referenceData, iconData, metric, alignment);
+}
+
+export async function calibrateGlassOutline(reference: Blob): Promise<GlassOutlineEstimate> {
+  return estimateGlassOutline(await loadImageData(reference));
+}
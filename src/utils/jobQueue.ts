@@ -0,0 +1,152 @@
+/**
+ * Общая очередь задач для пакетной обработки обеих вкладок: ограничение
+ * параллельности, пауза, продолжение и отмена через AbortController
+ */
+
+export type JobQueueState = 'running' | 'paused' | 'cancelled' | 'finished';
+
+export interface JobQueueStats {
+  state: JobQueueState;
+  total: number; // Всего поставлено в очередь, включая добавленные на ходу
+  completed: number; // Завершено, в том числе с ошибкой
+  failed: number;
+  active: number;
+  pending: number;
+  throughput: number; // Задач в секунду за время работы (без пауз)
+  etaSeconds: number | null; // null - пока не из чего считать
+}
+
+export interface JobQueueOptions<T> {
+  concurrency: number;
+  // Задача должна прекращаться (или хотя бы не применять результат) после signal.abort()
+  run: (item: T, signal: AbortSignal) => Promise<void>;
+  onChange?: (stats: JobQueueStats) => void;
+}
+
+export interface JobQueue<T> {
+  enqueue: (items: T[]) => boolean; // false - очередь уже завершена, нужен новый запуск
+  pause: () => void; // Новые задачи не начинаются, текущие доделываются
+  resume: () => void;
+  cancel: () => void; // Оставшиеся задачи снимаются, текущие прерываются
+  setConcurrency: (concurrency: number) => void;
+  stats: () => JobQueueStats;
+  finished: Promise<void>; // Выполняется, когда всё сделано или очередь отменена
+}
+
+export function createJobQueue<T>({ concurrency, run, onChange }: JobQueueOptions<T>): JobQueue<T> {
+  const pending: T[] = [];
+  const active = new Set<AbortController>();
+  let limit = Math.max(1, Math.floor(concurrency));
+  let state: JobQueueState = 'running';
+  let total = 0;
+  let completed = 0;
+  let failed = 0;
+  // Время работы копится только вне пауз, иначе пауза занижает скорость
+  let workedMs = 0;
+  let runningSince: number | null = performance.now();
+
+  let resolveFinished!: () => void;
+  const finished = new Promise<void>(resolve => {
+    resolveFinished = resolve;
+  });
+
+  const stats = (): JobQueueStats => {
+    const elapsed = (workedMs + (runningSince !== null ? performance.now() - runningSince : 0)) / 1000;
+    const throughput = elapsed > 0 ? completed / elapsed : 0;
+    const remaining = pending.length + active.size;
+    return {
+      state,
+      total,
+      completed,
+      failed,
+      active: active.size,
+      pending: pending.length,
+      throughput,
+      etaSeconds: throughput > 0 ? remaining / throughput : null,
+    };
+  };
+
+  const notify = () => onChange?.(stats());
+
+  const stopClock = () => {
+    if (runningSince !== null) {
+      workedMs += performance.now() - runningSince;
+      runningSince = null;
+    }
+  };
+
+  const finish = (final: JobQueueState) => {
+    state = final;
+    stopClock();
+    notify();
+    resolveFinished();
+  };
+
+  const pump = () => {
+    while (state === 'running' && active.size < limit && pending.length > 0) {
+      const item = pending.shift()!;
+      const controller = new AbortController();
+      active.add(controller);
+
+      run(item, controller.signal)
+        .catch(() => {
+          if (!controller.signal.aborted) failed++;
+        })
+        .finally(() => {
+          active.delete(controller);
+          if (controller.signal.aborted) return;
+          completed++;
+          if (state === 'running' && pending.length === 0 && active.size === 0) {
+            finish('finished');
+          } else {
+            pump();
+            notify();
+          }
+        });
+    }
+  };
+
+  return {
+    enqueue: (items) => {
+      if (state === 'cancelled' || state === 'finished') return false;
+      pending.push(...items);
+      total += items.length;
+      if (items.length > 0) {
+        pump();
+        notify();
+      }
+      return true;
+    },
+    pause: () => {
+      if (state !== 'running') return;
+      state = 'paused';
+      stopClock();
+      notify();
+    },
+    resume: () => {
+      if (state !== 'paused') return;
+      state = 'running';
+      runningSince = performance.now();
+      if (pending.length === 0 && active.size === 0) {
+        finish('finished');
+        return;
+      }
+      pump();
+      notify();
+    },
+    cancel: () => {
+      if (state === 'cancelled' || state === 'finished') return;
+      pending.length = 0;
+      for (const controller of active) controller.abort();
+      active.clear();
+      finish('cancelled');
+    },
+    setConcurrency: (value) => {
+      limit = Math.max(1, Math.floor(value));
+      pump();
+      notify();
+    },
+    stats,
+    finished,
+  };
+}
@@ -0,0 +1,46 @@
+/**
+ * Локальная сегментация нейросетью (@imgly/background-removal).
+ * Модель и WASM лежат рядом с приложением в ML_ASSETS_DIR, CDN не используется.
+ */
+import type { MlMaskMode } from '@/core/foregroundMask';
+
+export const ML_MASK_MODES: Array<{ id: MlMaskMode; name: string; description: string }> = [
+  { id: 'off', name: 'Не использовать', description: 'Только вычитание эталона или удаление по цвету' },
+  { id: 'only', name: 'Только нейросеть', description: 'Маска целиком от модели, эталон и цвет не нужны' },
+  { id: 'intersect', name: 'Пересечение', description: 'Фоном считается всё, что удалил любой из способов - для неоднородных подложек' },
+  { id: 'union', name: 'Объединение', description: 'Остаётся всё, что сохранил любой из способов - бережнее к иконке' },
+];
+
+// Каталог с resources.json и чанками модели относительно index.html
+export const ML_ASSETS_DIR = 'imgly/';
+
+/**
+ * Абсолютный адрес ресурсов модели. Вызывать в основном потоке:
+ * у inline-воркера адрес blob: и относительные пути от него не строятся.
+ */
+export function mlAssetsUrl(): string {
+  return new URL(ML_ASSETS_DIR, document.baseURI).href;
+}
+
+/**
+ * Возвращает альфу переднего плана (0-255 на пиксель) в размере исходного изображения
+ */
+export async function segmentForegroundMask(image: Blob, assetsUrl: string): Promise<Uint8Array> {
+  // Библиотека тяжёлая - грузим только когда режим действительно включён
+  const { segmentForeground } = await import('@imgly/background-removal');
+
+  const mask = await segmentForeground(image, {
+    publicPath: assetsUrl,
+    model: 'isnet_fp16', // В сборку кладётся только эта модель (см. imglyAssets в vite.config.ts)
+    device: 'cpu',
+    proxyToWorker: false, // Уже выполняемся в воркере пула
+    output: { format: 'image/x-rgba8' },
+  });
+
+  const rgba = new Uint8Array(await mask.arrayBuffer());
+  const alpha = new Uint8Array(rgba.length / 4);
+  for (let p = 0; p < alpha.length; p++) {
+    alpha[p] = rgba[p * 4 + 3];
+  }
+  return alpha;
+}
@@ -0,0 +1,37 @@
+/**
+ * Наложение иконок на подложку в браузере. Раскладка считается ядром,
+ * а масштабирование и композиция - через drawImage: это быстро даже для больших
+ * подложек и даёт тот же результат, что и раньше. Node использует overlayIcon из ядра
+ */
+import { overlayLayout, type OverlayOptions } from '@/core/overlay';
+
+/**
+ * signal прерывает работу между этапами (декодирование, рисование, кодирование)
+ */
+export async function overlayIconOnBackground(
+  iconFile: Blob,
+  bgFile: Blob,
+  options: OverlayOptions,
+  signal?: AbortSignal
+): Promise<Blob> {
+  signal?.throwIfAborted();
+  const [icon, background] = await Promise.all([
+    createImageBitmap(iconFile),
+    createImageBitmap(bgFile),
+  ]);
+
+  try {
+    signal?.throwIfAborted();
+    const { outputSize, iconX, iconY, iconWidth, iconHeight } = overlayLayout(icon, background, options);
+    const canvas = new OffscreenCanvas(outputSize, outputSize);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas context not available');
+
+    ctx.drawImage(background, 0, 0, outputSize, outputSize);
+    ctx.drawImage(icon, iconX, iconY, iconWidth, iconHeight);
+    return await canvas.convertToBlob({ type: 'image/png' });
+  } finally {
+    icon.close();
+    background.close();
+  }
+}
@@ -0,0 +1,27 @@
+/**
+ * Хранение пользовательских пресетов в localStorage браузера
+ */
+import { parsePresets, serializePresets, type UserPreset } from '@/core/presets';
+
+const STORAGE_KEY = 'batch-presets';
+
+/**
+ * Загружает сохранённые пресеты. Повреждённые данные не мешают работе - пресетов просто нет
+ */
+export function loadPresets(): UserPreset[] {
+  try {
+    const json = localStorage.getItem(STORAGE_KEY);
+    return json ? parsePresets(json, () => crypto.randomUUID()) : [];
+  } catch (error) {
+    console.error('Не удалось загрузить пресеты:', error);
+    return [];
+  }
+}
+
+export function savePresets(presets: UserPreset[]): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, serializePresets(presets));
+  } catch (error) {
+    console.error('Не удалось сохранить пресеты:', error);
+  }
+}
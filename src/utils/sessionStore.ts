@@ -0,0 +1,242 @@
+/**
+ * Сохранение рабочей сессии (файлы, эталоны, результаты, настройки) в IndexedDB,
+ * чтобы перезагрузка страницы ничего не теряла. Blob и File хранятся как есть.
+ * Списки файлов хранятся по записи на файл: изменение одного файла не переписывает остальные
+ */
+import { useEffect, useRef, useState } from 'react';
+
+const DB_NAME = 'icon-session';
+const DB_VERSION = 1;
+const STORE_NAME = 'slices';
+// Сохраняем, когда состояние перестало меняться, а не на каждый рендер
+const SAVE_DELAY_MS = 1000;
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+let isClearing = false;
+const savedListeners = new Set<() => void>();
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error ?? new Error('Failed to open IndexedDB'));
+    });
+    // Неудачное открытие не кешируем - следующая попытка откроет заново
+    databasePromise.catch(() => {
+      databasePromise = null;
+    });
+  }
+  return databasePromise;
+}
+
+// Промис выполняется после завершения транзакции - к этому времени запросы из action готовы
+async function withStore<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => T): Promise<T> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const result = action(transaction.objectStore(STORE_NAME));
+    transaction.oncomplete = () => resolve(result);
+    transaction.onerror = () => reject(transaction.error ?? new Error('IndexedDB transaction failed'));
+    transaction.onabort = () => reject(transaction.error ?? new Error('IndexedDB transaction aborted'));
+  });
+}
+
+export async function loadSessionValue<T>(key: string): Promise<T | undefined> {
+  return (await withStore('readonly', store => store.get(key))).result as T | undefined;
+}
+
+export async function saveSessionValue(key: string, value: unknown): Promise<void> {
+  if (isClearing) return;
+  await withStore('readwrite', store => store.put(value, key));
+  savedListeners.forEach(listener => listener());
+}
+
+// Запись элемента коллекции хранится под ключом «коллекция/ключ элемента», порядок - под ключом коллекции
+const itemKey = (collection: string, key: string) => `${collection}/${key}`;
+
+/**
+ * Загружает коллекцию в сохранённом порядке. undefined - коллекция ещё не сохранялась
+ */
+async function loadCollection<S>(collection: string): Promise<Array<{ key: string; value: S }> | undefined> {
+  const order = await loadSessionValue<string[]>(collection);
+  if (!order) return undefined;
+  const requests = await withStore('readonly', store => order.map(key => store.get(itemKey(collection, key))));
+  return order
+    .map((key, idx) => ({ key, value: requests[idx].result as S | undefined }))
+    .filter((entry): entry is { key: string; value: S } => entry.value !== undefined);
+}
+
+interface CollectionChanges {
+  order: string[] | null; // null - порядок не менялся
+  puts: Array<{ key: string; value: unknown }>;
+  deletes: string[];
+}
+
+async function saveCollectionChanges(collection: string, { order, puts, deletes }: CollectionChanges): Promise<void> {
+  if (isClearing) return;
+  await withStore('readwrite', store => {
+    for (const { key, value } of puts) store.put(value, itemKey(collection, key));
+    for (const key of deletes) store.delete(itemKey(collection, key));
+    if (order) store.put(order, collection);
+  });
+  savedListeners.forEach(listener => listener());
+}
+
+/**
+ * Удаляет сохранённую сессию. Отложенные сохранения после этого игнорируются,
+ * поэтому вызывающий должен перезагрузить страницу
+ */
+export async function clearSession(): Promise<void> {
+  isClearing = true;
+  await withStore('readwrite', store => store.clear());
+}
+
+/**
+ * Подписка на успешные сохранения (например, чтобы обновить индикатор места)
+ */
+export function onSessionSaved(listener: () => void): () => void {
+  savedListeners.add(listener);
+  return () => savedListeners.delete(listener);
+}
+
+export interface StorageUsage {
+  usage: number; // Занято сайтом, байт
+  quota: number; // Доступно сайту, байт
+}
+
+export async function estimateStorage(): Promise<StorageUsage | null> {
+  if (!navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+}
+
+/**
+ * Восстанавливает часть сессии при монтировании и сохраняет её при изменениях.
+ * snapshot сравнивается поверхностно по полям: неизменившееся состояние не пишется.
+ * toStored превращает состояние в то, что хранится (без превью и прочего производного).
+ * Возвращает true, когда восстановление завершено
+ */
+export function useSessionSlice<T extends object, S>(
+  key: string,
+  snapshot: T,
+  toStored: (snapshot: T) => S,
+  restore: (stored: S) => void | Promise<void>
+): boolean {
+  const [restored, setRestored] = useState(false);
+  const lastSaved = useRef<T | null>(null);
+  const callbacks = useRef({ toStored, restore });
+
+  useEffect(() => {
+    callbacks.current = { toStored, restore };
+  });
+
+  useEffect(() => {
+    let cancelled = false;
+    loadSessionValue<S>(key)
+      .then(async stored => {
+        if (stored !== undefined && !cancelled) await callbacks.current.restore(stored);
+      })
+      .catch(error => console.error('Не удалось восстановить сессию:', error))
+      .finally(() => {
+        if (!cancelled) setRestored(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [key]);
+
+  // До восстановления не сохраняем, иначе пустое начальное состояние затрёт сессию
+  useEffect(() => {
+    if (!restored || (lastSaved.current && shallowEqual(lastSaved.current, snapshot))) return;
+    const timer = setTimeout(() => {
+      lastSaved.current = snapshot;
+      saveSessionValue(key, callbacks.current.toStored(snapshot))
+        .catch(error => console.error('Не удалось сохранить сессию:', error));
+    }, SAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  });
+
+  return restored;
+}
+
+/**
+ * Как useSessionSlice, но для списка файлов: каждый элемент - отдельная запись по keyOf.
+ * Пишутся только элементы, у которых изменилось хранимое представление (toStored),
+ * удалённые из списка стираются. restore получает элементы в сохранённом порядке
+ */
+export function useSessionCollection<T, S extends object>(
+  collection: string,
+  items: T[],
+  keyOf: (item: T) => string,
+  toStored: (item: T) => S,
+  restore: (stored: S[]) => void | Promise<void>
+): boolean {
+  const [restored, setRestored] = useState(false);
+  // Что сейчас лежит в базе - с этим сравниваем, чтобы не переписывать неизменившееся
+  const lastStored = useRef(new Map<string, S>());
+  const lastOrder = useRef<string[]>([]);
+  const lastItems = useRef<T[] | null>(null);
+  const callbacks = useRef({ keyOf, toStored, restore });
+
+  useEffect(() => {
+    callbacks.current = { keyOf, toStored, restore };
+  });
+
+  useEffect(() => {
+    let cancelled = false;
+    loadCollection<S>(collection)
+      .then(async entries => {
+        if (!entries || cancelled) return;
+        lastStored.current = new Map(entries.map(({ key, value }) => [key, value]));
+        lastOrder.current = entries.map(({ key }) => key);
+        await callbacks.current.restore(entries.map(({ value }) => value));
+      })
+      .catch(error => console.error('Не удалось восстановить сессию:', error))
+      .finally(() => {
+        if (!cancelled) setRestored(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [collection]);
+
+  useEffect(() => {
+    if (!restored || lastItems.current === items) return;
+    const timer = setTimeout(() => {
+      lastItems.current = items;
+      const { keyOf, toStored } = callbacks.current;
+      const order = items.map(keyOf);
+      const current = new Set(order);
+
+      const puts: CollectionChanges['puts'] = [];
+      for (const item of items) {
+        const key = keyOf(item);
+        const value = toStored(item);
+        const previous = lastStored.current.get(key);
+        if (previous && shallowEqual(previous, value)) continue;
+        lastStored.current.set(key, value);
+        puts.push({ key, value });
+      }
+      const deletes = [...lastStored.current.keys()].filter(key => !current.has(key));
+      deletes.forEach(key => lastStored.current.delete(key));
+      const orderChanged = order.length !== lastOrder.current.length || order.some((key, idx) => key !== lastOrder.current[idx]);
+      if (!orderChanged && puts.length === 0 && deletes.length === 0) return;
+
+      lastOrder.current = order;
+      saveCollectionChanges(collection, { order: orderChanged ? order : null, puts, deletes })
+        .catch(error => console.error('Не удалось сохранить сессию:', error));
+    }, SAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  });
+
+  return restored;
+}
+
+// Поля со значением undefined считаются отсутствующими: IndexedDB и деструктуризация
+// обращаются с ними по-разному
+function shallowEqual(a: object, b: object): boolean {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+  return [...keys].every(key => (a as Record<string, unknown>)[key] === (b as Record<string, unknown>)[key]);
+}
@@ -0,0 +1,176 @@
+/**
+ * Пул Web Worker'ов для пакетного удаления подложки
+ */
+import RemovalWorker from '@/workers/removal.worker?worker&inline';
+import type { RemovalRequest, RemovalResponse } from '@/workers/removal.worker';
+import type { ProcessingOptions, RemovalResult } from './backgroundRemoval';
+
+export interface RemovalJob {
+  image: Blob;
+  references: Blob[];
+  options: ProcessingOptions;
+}
+
+export interface RemovalPool {
+  readonly size: number;
+  run: (job: RemovalJob, signal?: AbortSignal) => Promise<RemovalResult>;
+  resize: (size: number) => void; // Лишние воркеры закрываются, как только освободятся
+  terminate: () => void;
+}
+
+interface QueuedJob {
+  id: number;
+  job: RemovalJob;
+  resolve: (result: RemovalResult) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Количество воркеров по умолчанию: ядра процессора минус основной поток
+ */
+export function defaultWorkerCount(): number {
+  const cores = typeof navigator !== 'undefined' ? navigator.hardwareConcurrency || 2 : 2;
+  return Math.max(1, Math.min(8, cores - 1));
+}
+
+/**
+ * Создаёт пул из size воркеров. Задачи сверх числа воркеров ждут в очереди
+ */
+export function createRemovalPool(size: number): RemovalPool {
+  let poolSize = Math.max(1, Math.floor(size));
+  const queue: QueuedJob[] = [];
+  const idle: Worker[] = [];
+  const active = new Map<Worker, QueuedJob>();
+  let nextId = 1;
+  let terminated = false;
+
+  const workerCount = () => idle.length + active.size;
+
+  // Освободившийся воркер возвращается в пул, только если пул не уменьшили
+  const release = (worker: Worker) => {
+    if (workerCount() < poolSize) idle.push(worker);
+    else worker.terminate();
+  };
+
+  // Замена прерванного или упавшего воркера
+  const replace = () => {
+    if (!terminated && workerCount() < poolSize) idle.push(spawn());
+  };
+
+  // Задача, которую уже выполняет воркер, прерывается только вместе с ним
+  const abort = (entry: QueuedJob) => {
+    const queued = queue.indexOf(entry);
+    if (queued !== -1) {
+      queue.splice(queued, 1);
+    } else {
+      for (const [worker, current] of active) {
+        if (current !== entry) continue;
+        active.delete(worker);
+        worker.terminate();
+        replace();
+        break;
+      }
+    }
+    entry.reject(new DOMException('Aborted', 'AbortError'));
+    pump();
+  };
+
+  const spawn = (): Worker => {
+    const worker = new RemovalWorker();
+
+    worker.onmessage = (e: MessageEvent<RemovalResponse>) => {
+      const current = active.get(worker);
+      active.delete(worker);
+
+      if (current && current.id === e.data.id) {
+        if (e.data.ok) current.resolve(e.data.result);
+        else current.reject(new Error(e.data.error));
+      }
+
+      release(worker);
+      pump();
+    };
+
+    // Воркер упал целиком - отклоняем его задачу и заменяем новым
+    worker.onerror = (e: ErrorEvent) => {
+      e.preventDefault();
+      const current = active.get(worker);
+      active.delete(worker);
+      worker.terminate();
+      current?.reject(new Error(e.message || 'Worker error'));
+
+      replace();
+      pump();
+    };
+
+    return worker;
+  };
+
+  const pump = () => {
+    while (!terminated && idle.length > 0 && queue.length > 0) {
+      const worker = idle.pop()!;
+      const next = queue.shift()!;
+      active.set(worker, next);
+
+      const request: RemovalRequest = { id: next.id, ...next.job };
+      worker.postMessage(request);
+    }
+  };
+
+  for (let i = 0; i < poolSize; i++) {
+    idle.push(spawn());
+  }
+
+  return {
+    get size() {
+      return poolSize;
+    },
+    run: (job, signal) =>
+      new Promise<RemovalResult>((resolve, reject) => {
+        if (terminated) {
+          reject(new Error('Worker pool terminated'));
+          return;
+        }
+        if (signal?.aborted) {
+          reject(new DOMException('Aborted', 'AbortError'));
+          return;
+        }
+
+        const entry: QueuedJob = {
+          id: nextId++,
+          job,
+          resolve: (result) => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve(result);
+          },
+          reject: (error) => {
+            signal?.removeEventListener('abort', onAbort);
+            reject(error);
+          },
+        };
+        const onAbort = () => abort(entry);
+        signal?.addEventListener('abort', onAbort, { once: true });
+
+        queue.push(entry);
+        pump();
+      }),
+    resize: (value) => {
+      if (terminated) return;
+      poolSize = Math.max(1, Math.floor(value));
+      while (workerCount() < poolSize) idle.push(spawn());
+      while (workerCount() > poolSize && idle.length > 0) idle.pop()!.terminate();
+      pump();
+    },
+    terminate: () => {
+      terminated = true;
+      const error = new Error('Worker pool terminated');
+      for (const pending of queue.splice(0)) pending.reject(error);
+      for (const [worker, current] of active) {
+        current.reject(error);
+        worker.terminate();
+      }
+      active.clear();
+      for (const worker of idle.splice(0)) worker.terminate();
+    },
+  };
+}
@@ -0,0 +1,30 @@
+/**
+ * Воркер удаления подложки: весь конвейер removeBackground
+ * выполняется на OffscreenCanvas вне основного потока
+ */
+import { removeBackground, type ProcessingOptions, type RemovalResult } from '@/utils/backgroundRemoval';
+
+export interface RemovalRequest {
+  id: number;
+  image: Blob;
+  references: Blob[];
+  options: ProcessingOptions;
+}
+
+export type RemovalResponse =
+  | { id: number; ok: true; result: RemovalResult }
+  | { id: number; ok: false; error: string };
+
+self.onmessage = async (e: MessageEvent<RemovalRequest>) => {
+  const { id, image, references, options } = e.data;
+  let response: RemovalResponse;
+
+  try {
+    const result = await removeBackground(image, references, options);
+    response = { id, ok: true, result };
+  } catch (error) {
+    response = { id, ok: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+
+  self.postMessage(response);
+};
@@ -1,17 +1,137 @@
+import fs from "fs";
 import path from "path";
 import { fileURLToPath } from "url";
 import tailwindcss from "@tailwindcss/vite";
 import react from "@vitejs/plugin-react";
-import { defineConfig } from "vite";
+import { defineConfig, type Plugin } from "vite";
 import { viteSingleFile } from "vite-plugin-singlefile";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
+// @imgly/background-removal 1.7 публикует пустой resources.json: модель лежит в отдельном
+// пакете данных, а WASM берём из onnxruntime-web той версии, с которой собрана библиотека
+const IMGLY_DATA_DIST = path.resolve(__dirname, "node_modules/@imgly/background-removal-data/dist");
+const ORT_DIST = path.resolve(__dirname, "node_modules/onnxruntime-web/dist");
+const IMGLY_PUBLIC_DIR = "imgly";
+
+// Библиотека запрашивает модель по новому имени (model: "isnet_fp16"), в пакете данных она "medium"
+const IMGLY_MODELS = [{ key: "/models/isnet_fp16", dataKey: "/models/medium" }];
+const ORT_FILES = [
+  { name: "ort-wasm-simd-threaded.wasm", mime: "application/wasm" },
+  { name: "ort-wasm-simd-threaded.mjs", mime: "text/javascript" },
+];
+
+interface ImglyResource {
+  chunks: Array<{ name: string; offsets: [number, number] }>;
+  size: number;
+  mime: string;
+}
+
+interface ImglyAssets {
+  resources: Record<string, ImglyResource>;
+  files: Map<string, string>; // Имя чанка -> путь на диске
+}
+
+// Собирает resources.json в формате библиотеки. Бросает, если чего-то не хватает:
+// сборка без модели молча ломает режим нейросети
+function collectImglyAssets(): ImglyAssets {
+  const resources: Record<string, ImglyResource> = {};
+  const files = new Map<string, string>();
+
+  const dataIndex = path.join(IMGLY_DATA_DIST, "resources.json");
+  if (!fs.existsSync(dataIndex)) {
+    throw new Error(`${dataIndex} not found, install @imgly/background-removal-data`);
+  }
+  // Пакет данных в старом формате: чанк называется по hash, библиотека ищет name
+  const data = JSON.parse(fs.readFileSync(dataIndex, "utf-8")) as Record<
+    string,
+    Omit<ImglyResource, "chunks"> & { chunks: Array<{ hash: string; offsets: [number, number] }> }
+  >;
+  for (const { key, dataKey } of IMGLY_MODELS) {
+    const entry = data[dataKey];
+    if (!entry || entry.chunks.length === 0) throw new Error(`Model ${dataKey} is missing in ${dataIndex}`);
+    const chunks = entry.chunks.map(chunk => ({ name: chunk.hash, offsets: chunk.offsets }));
+    for (const chunk of chunks) files.set(chunk.name, path.join(IMGLY_DATA_DIST, chunk.name));
+    resources[key] = { chunks, size: entry.size, mime: entry.mime };
+  }
+
+  for (const { name, mime } of ORT_FILES) {
+    const file = path.join(ORT_DIST, name);
+    if (!fs.existsSync(file)) throw new Error(`${file} not found`);
+    const size = fs.statSync(file).size;
+    resources[`/onnxruntime-web/${name}`] = { chunks: [{ name, offsets: [0, size] }], size, mime };
+    files.set(name, file);
+  }
+
+  for (const [name, file] of files) {
+    if (!fs.existsSync(file)) throw new Error(`Chunk ${name} is missing (${file})`);
+  }
+  return { resources, files };
+}
+
+// Раздаёт модель и WASM в dev и копирует их в сборку, чтобы не ходить в CDN
+function imglyAssets(): Plugin {
+  let assets: ImglyAssets;
+
+  return {
+    name: "imgly-assets",
+    buildStart() {
+      try {
+        assets = collectImglyAssets();
+      } catch (error) {
+        this.error(error instanceof Error ? error.message : String(error));
+      }
+    },
+    configureServer(server) {
+      server.middlewares.use(`/${IMGLY_PUBLIC_DIR}/`, (req, res, next) => {
+        const name = decodeURIComponent((req.url ?? "").split("?")[0]).replace(/^\/+/, "");
+        if (name === "resources.json") {
+          res.setHeader("Content-Type", "application/json");
+          res.end(JSON.stringify(assets.resources));
+          return;
+        }
+        const file = assets.files.get(name);
+        if (!file) return next();
+        fs.createReadStream(file).pipe(res);
+      });
+    },
+    generateBundle() {
+      this.emitFile({
+        type: "asset",
+        fileName: `${IMGLY_PUBLIC_DIR}/resources.json`,
+        source: JSON.stringify(assets.resources),
+      });
+      for (const [name, file] of assets.files) {
+        this.emitFile({ type: "asset", fileName: `${IMGLY_PUBLIC_DIR}/${name}`, source: fs.readFileSync(file) });
+      }
+    },
+  };
+}
+
+// onnxruntime-web ссылается на свои .wasm через new URL(..., import.meta.url), и Vite
+// встроил бы их в single-file сборку. Модель и WASM imgly подставляет сам (wasmPaths),
+// поэтому прячем эти ссылки от Vite - в рантайме они не используются.
+function ortWasmUrls(): Plugin {
+  return {
+    name: "ort-wasm-urls",
+    enforce: "pre",
+    transform(code, id) {
+      if (!id.includes("/onnxruntime-web/dist/")) return null;
+      return code.replace(/new URL\(("[^"]+"),import\.meta\.url\)/g, 'new URL($1,String(import.meta.url))');
+    },
+  };
+}
+
 // https://vite.dev/config/
 export default defineConfig({
   base: './',  // Относительные пути для GitHub Pages
-  plugins: [react(), tailwindcss(), viteSingleFile()],
+  plugins: [react(), tailwindcss(), viteSingleFile(), imglyAssets(), ortWasmUrls()],
+  worker: {
+    plugins: () => [ortWasmUrls()],
+    // Inline-воркер собирается одним файлом, динамический импорт модели встраивается в него
+    rollupOptions: { output: { inlineDynamicImports: true } },
+  },
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "src"),